@@ -0,0 +1,22 @@
+-- Create the Refresh Tokens Table
+-- This table is used to keep track of every refresh token issued to a user
+-- Tokens are grouped into families, a family is started on login/register and every rotation stays in the same family
+-- Jti is the unique id embedded in the refresh JWT, the JWT itself is never stored
+-- UsedOn is set when the token is exchanged at /api/auth/refresh, a token can only be used once
+-- RevokedOn is set when the family is logged out or when reuse of an already used token is detected
+CREATE TABLE Auth.RefreshTokens
+(
+    Id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    UserId INT NOT NULL,
+    FamilyId UNIQUEIDENTIFIER NOT NULL,
+    Jti UNIQUEIDENTIFIER NOT NULL,
+    ExpiresOn DATETIMEOFFSET(5) NOT NULL,
+    UsedOn DATETIMEOFFSET(5) NULL DEFAULT NULL,
+    RevokedOn DATETIMEOFFSET(5) NULL DEFAULT NULL,
+    CreatedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    CONSTRAINT RefreshTokens_Uniq_Jti UNIQUE (Jti),
+    CONSTRAINT RefreshTokens_FK_Users FOREIGN KEY (UserId) REFERENCES Auth.Users(Id) ON DELETE CASCADE
+);
+
+CREATE INDEX RefreshTokens_Index_FamilyId ON Auth.RefreshTokens (FamilyId);
+CREATE INDEX RefreshTokens_Index_UserId ON Auth.RefreshTokens (UserId);
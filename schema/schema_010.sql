@@ -0,0 +1,35 @@
+-- Drop the stored procedures if they already exist
+IF EXISTS (
+SELECT *
+    FROM INFORMATION_SCHEMA.ROUTINES
+WHERE SPECIFIC_SCHEMA = N'Auth'
+    AND SPECIFIC_NAME = N'ChangeUsername'
+)
+DROP PROCEDURE Auth.ChangeUsername
+GO
+IF EXISTS (
+SELECT *
+    FROM INFORMATION_SCHEMA.ROUTINES
+WHERE SPECIFIC_SCHEMA = N'Auth'
+    AND SPECIFIC_NAME = N'ChangeEmail'
+)
+DROP PROCEDURE Auth.ChangeEmail
+GO
+CREATE PROCEDURE Auth.ChangeUsername
+    @Id INT,
+    @NewUsername NVARCHAR(255)
+AS
+    UPDATE Auth.Users
+    SET Username = @NewUsername,
+        ModifiedOn = SYSDATETIMEOFFSET()
+    WHERE Id = @Id
+GO
+CREATE PROCEDURE Auth.ChangeEmail
+    @Id INT,
+    @NewEmail NVARCHAR(255)
+AS
+    UPDATE Auth.Users
+    SET Email = @NewEmail,
+        ModifiedOn = SYSDATETIMEOFFSET()
+    WHERE Id = @Id
+GO
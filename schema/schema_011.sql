@@ -0,0 +1,15 @@
+-- Create the Password Reset Tokens Table
+-- This table is used to store the password reset tokens sent to users by email
+-- TokenHash is the SHA-256 hash of the token, the token itself is only ever sent to the user
+-- A token can only be used once (UsedOn) and only until ExpiresOn
+CREATE TABLE Auth.PasswordResetTokens
+(
+    Id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    UserId INT NOT NULL,
+    TokenHash BINARY(32) NOT NULL,
+    ExpiresOn DATETIMEOFFSET(5) NOT NULL,
+    UsedOn DATETIMEOFFSET(5) NULL DEFAULT NULL,
+    CreatedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    CONSTRAINT PasswordResetTokens_Uniq_TokenHash UNIQUE (TokenHash),
+    CONSTRAINT PasswordResetTokens_FK_Users FOREIGN KEY (UserId) REFERENCES Auth.Users(Id) ON DELETE CASCADE
+);
@@ -0,0 +1,22 @@
+-- Add TOTP Two-Factor Authentication to Users
+-- TotpSecret is the Base32 encoded shared secret, it is set when enrollment starts
+-- TotpEnabled is only set once the user confirms a code generated from the secret
+-- TotpLastUsedStep is the last accepted time step, used to reject a code being replayed
+ALTER TABLE Auth.Users
+    ADD TotpSecret NVARCHAR(64) NULL DEFAULT NULL,
+        TotpEnabled BIT NOT NULL DEFAULT 0,
+        TotpLastUsedStep BIGINT NULL DEFAULT NULL;
+GO
+
+-- Create the Recovery Codes Table
+-- This table is used to store the one time recovery codes given to a user when enabling TOTP
+-- CodeHash is the SHA-256 hash of the code, the code itself is only shown to the user once
+CREATE TABLE Auth.RecoveryCodes
+(
+    Id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    UserId INT NOT NULL,
+    CodeHash BINARY(32) NOT NULL,
+    UsedOn DATETIMEOFFSET(5) NULL DEFAULT NULL,
+    CreatedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    CONSTRAINT RecoveryCodes_FK_Users FOREIGN KEY (UserId) REFERENCES Auth.Users(Id) ON DELETE CASCADE
+);
@@ -0,0 +1,15 @@
+-- Create the Login Attempts Table
+-- This table is used to throttle password guessing on login and on every check of the current password
+-- AttemptKey is either 'user:<UserId>' (or 'identifier:<name>' for identifiers that do not match a user) or 'ip:<address>'
+-- FailedCount is reset when no failure happened for LOGIN_ATTEMPT_WINDOW_MINUTES and the key is not locked
+-- LockedUntil is set once FailedCount reaches the limit, every further failure doubles the lockout
+-- The row of an account is deleted after a successful login
+CREATE TABLE Auth.LoginAttempts
+(
+    Id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    AttemptKey NVARCHAR(300) NOT NULL,
+    FailedCount INT NOT NULL DEFAULT 0,
+    LastFailedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    LockedUntil DATETIMEOFFSET(5) NULL DEFAULT NULL,
+    CONSTRAINT LoginAttempts_Uniq_AttemptKey UNIQUE (AttemptKey)
+);
@@ -0,0 +1,31 @@
+-- Create the Sessions Table
+-- This table is used to show users where they are logged in and to revoke single devices
+-- A session is a refresh token family, the Id of a session is the FamilyId of its refresh tokens
+-- and is embedded as the sid claim of every auth token issued for it
+-- UserAgent and IpAddress are taken from the request of the login or of the last refresh
+-- LastSeenOn is updated on every login and refresh
+-- RevokedOn is set together with the RevokedOn of the refresh tokens of the family, authenticate() rejects auth tokens of revoked sessions
+CREATE TABLE Auth.Sessions
+(
+    Id UNIQUEIDENTIFIER NOT NULL PRIMARY KEY,
+    UserId INT NOT NULL,
+    UserAgent NVARCHAR(512) NULL DEFAULT NULL,
+    IpAddress NVARCHAR(45) NULL DEFAULT NULL,
+    CreatedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    LastSeenOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    RevokedOn DATETIMEOFFSET(5) NULL DEFAULT NULL,
+    CONSTRAINT Sessions_FK_Users FOREIGN KEY (UserId) REFERENCES Auth.Users(Id) ON DELETE CASCADE
+);
+
+CREATE INDEX Sessions_Index_UserId ON Auth.Sessions (UserId);
+GO
+
+-- Create a session for every refresh token family issued before sessions were tracked
+INSERT INTO Auth.Sessions (Id, UserId, CreatedOn, LastSeenOn, RevokedOn)
+SELECT FamilyId,
+       UserId,
+       MIN(CreatedOn),
+       MAX(CreatedOn),
+       CASE WHEN COUNT(RevokedOn) = COUNT(*) THEN MAX(RevokedOn) ELSE NULL END
+FROM Auth.RefreshTokens
+GROUP BY FamilyId, UserId;
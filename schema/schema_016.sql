@@ -0,0 +1,24 @@
+-- Create the Personal Access Tokens Table
+-- This table is used to store long lived tokens for scripts and integrations
+-- Tokens look like fm_pat_<40 hex characters>, only the SHA-256 hash of the token is stored
+-- Prefix is the start of the token (fm_pat_ plus 8 characters) so users can tell their tokens apart
+-- Scopes is a comma separated list of the scopes granted to the token (e.g. accounts:read,transactions:read)
+-- ExpiresOn is optional, tokens without it stay valid until revoked
+-- LastUsedOn is updated when the token is used, at most once per minute
+CREATE TABLE Auth.PersonalAccessTokens
+(
+    Id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    UserId INT NOT NULL,
+    Name NVARCHAR(255) NOT NULL,
+    Prefix NVARCHAR(16) NOT NULL,
+    TokenHash BINARY(32) NOT NULL,
+    Scopes NVARCHAR(255) NOT NULL,
+    ExpiresOn DATETIMEOFFSET(5) NULL DEFAULT NULL,
+    LastUsedOn DATETIMEOFFSET(5) NULL DEFAULT NULL,
+    RevokedOn DATETIMEOFFSET(5) NULL DEFAULT NULL,
+    CreatedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    CONSTRAINT PersonalAccessTokens_Uniq_TokenHash UNIQUE (TokenHash),
+    CONSTRAINT PersonalAccessTokens_FK_Users FOREIGN KEY (UserId) REFERENCES Auth.Users(Id) ON DELETE CASCADE
+);
+
+CREATE INDEX PersonalAccessTokens_Index_UserId ON Auth.PersonalAccessTokens (UserId);
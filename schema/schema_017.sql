@@ -0,0 +1,45 @@
+-- Add the email verification flag to the Users Table
+-- EmailVerified is set once the user opens the link sent to their email and reset when the email changes
+-- Only verified emails can be used to find a user when sending a friend request
+ALTER TABLE Auth.Users
+    ADD EmailVerified BIT NOT NULL DEFAULT 0;
+GO
+
+-- Create the Email Verification Tokens Table
+-- This table is used to store the verification tokens sent to users by email
+-- TokenHash is the SHA-256 hash of the token, the token itself is only ever sent to the user
+-- Email is the address the token was sent to, a token stops working once the user changes their email
+-- A token can only be used once (UsedOn) and only until ExpiresOn
+CREATE TABLE Auth.EmailVerificationTokens
+(
+    Id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    UserId INT NOT NULL,
+    Email NVARCHAR(255) NOT NULL,
+    TokenHash BINARY(32) NOT NULL,
+    ExpiresOn DATETIMEOFFSET(5) NOT NULL,
+    UsedOn DATETIMEOFFSET(5) NULL DEFAULT NULL,
+    CreatedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    CONSTRAINT EmailVerificationTokens_Uniq_TokenHash UNIQUE (TokenHash),
+    CONSTRAINT EmailVerificationTokens_FK_Users FOREIGN KEY (UserId) REFERENCES Auth.Users(Id) ON DELETE CASCADE
+);
+GO
+
+-- Changing the email makes it unverified again
+IF EXISTS (
+SELECT *
+    FROM INFORMATION_SCHEMA.ROUTINES
+WHERE SPECIFIC_SCHEMA = N'Auth'
+    AND SPECIFIC_NAME = N'ChangeEmail'
+)
+DROP PROCEDURE Auth.ChangeEmail
+GO
+CREATE PROCEDURE Auth.ChangeEmail
+    @Id INT,
+    @NewEmail NVARCHAR(255)
+AS
+    UPDATE Auth.Users
+    SET Email = @NewEmail,
+        EmailVerified = 0,
+        ModifiedOn = SYSDATETIMEOFFSET()
+    WHERE Id = @Id
+GO
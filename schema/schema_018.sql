@@ -0,0 +1,32 @@
+-- Create the Audit Events Table
+-- This table is an append-only security history of logins, credential changes and sensitive actions
+-- UserId is the user whose history the event belongs to, ActorId is the user who caused it (e.g. the friend who removed them)
+-- UserId is NULL for failed logins with an unknown username or email
+-- There is no foreign key to Auth.Users so the history outlives deleted users
+-- IpAddress and UserAgent are only recorded when the event was caused from that user's own request
+-- Metadata is a JSON object with details of the event (e.g. the removed friend or deleted account)
+CREATE TABLE Auth.AuditEvents
+(
+    Id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    UserId INT NULL,
+    ActorId INT NULL,
+    EventType NVARCHAR(64) NOT NULL,
+    IpAddress NVARCHAR(45) NULL DEFAULT NULL,
+    UserAgent NVARCHAR(512) NULL DEFAULT NULL,
+    Metadata NVARCHAR(MAX) NULL DEFAULT NULL,
+    CreatedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    CONSTRAINT AuditEvents_Check_Metadata CHECK (Metadata IS NULL OR ISJSON(Metadata) = 1)
+);
+
+CREATE INDEX AuditEvents_Index_UserId_CreatedOn ON Auth.AuditEvents (UserId, CreatedOn DESC);
+GO
+
+-- Audit events can only be inserted
+CREATE TRIGGER Auth.AuditEvents_AppendOnly
+ON Auth.AuditEvents
+INSTEAD OF UPDATE, DELETE
+AS
+BEGIN
+    THROW 51000, 'Audit events cannot be changed or deleted', 1;
+END
+GO
@@ -0,0 +1,16 @@
+-- Create the User Preferences Table
+-- This table stores how amounts and dates are shown to a user and how date filters are interpreted
+-- Users without a row use the defaults below, which match how the app behaved before preferences existed
+-- Currency is an ISO 4217 code, Timezone an IANA time zone name and Locale a BCP 47 language tag
+-- WeekStart is the first day of the week, 0 = Sunday through 6 = Saturday
+CREATE TABLE Auth.UserPreferences
+(
+    UserId INT NOT NULL PRIMARY KEY,
+    Currency CHAR(3) NOT NULL DEFAULT 'PKR',
+    Timezone NVARCHAR(64) NOT NULL DEFAULT 'Asia/Karachi',
+    Locale NVARCHAR(35) NOT NULL DEFAULT 'en-PK',
+    WeekStart TINYINT NOT NULL DEFAULT 1,
+    ModifiedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    CONSTRAINT UserPreferences_Check_WeekStart CHECK (WeekStart BETWEEN 0 AND 6),
+    CONSTRAINT UserPreferences_FK_Users FOREIGN KEY (UserId) REFERENCES Auth.Users(Id) ON DELETE CASCADE
+);
@@ -0,0 +1,16 @@
+-- Add account types
+-- Existing accounts become cash accounts
+-- Credit card and loan accounts are liabilities, their balance is negative while money is owed
+-- CreditLimit and StatementDay only apply to credit cards, InterestRate (APR in percent) to savings, credit card and loan accounts
+ALTER TABLE Finance.Accounts
+    ADD Type NVARCHAR(20) NOT NULL CONSTRAINT Accounts_Default_Type DEFAULT 'cash',
+        CreditLimit DECIMAL(19, 4) NULL,
+        StatementDay TINYINT NULL,
+        InterestRate DECIMAL(7, 4) NULL;
+GO
+
+ALTER TABLE Finance.Accounts
+    ADD CONSTRAINT Accounts_Check_Type CHECK (Type IN ('cash', 'checking', 'savings', 'credit_card', 'loan', 'wallet')),
+        CONSTRAINT Accounts_Check_CreditLimit CHECK (CreditLimit IS NULL OR (Type = 'credit_card' AND CreditLimit >= 0)),
+        CONSTRAINT Accounts_Check_StatementDay CHECK (StatementDay IS NULL OR (Type = 'credit_card' AND StatementDay BETWEEN 1 AND 31)),
+        CONSTRAINT Accounts_Check_InterestRate CHECK (InterestRate IS NULL OR (Type IN ('savings', 'credit_card', 'loan') AND InterestRate BETWEEN 0 AND 100));
@@ -0,0 +1,186 @@
+-- Add a currency to every account
+-- Existing accounts get the currency their owner prefers, or PKR if they never set one
+ALTER TABLE Finance.Accounts
+    ADD Currency CHAR(3) NOT NULL CONSTRAINT Accounts_Default_Currency DEFAULT 'PKR';
+GO
+
+UPDATE a
+SET a.Currency = p.Currency
+FROM Finance.Accounts a
+INNER JOIN Auth.UserPreferences p ON a.UserId = p.UserId;
+GO
+
+-- Create the Exchange Rates Table
+-- Each user keeps the rates their transactions are converted with, entered by hand or imported from a file
+-- One unit of BaseCurrency is worth Rate units of QuoteCurrency from EffectiveOn until the next rate for the pair
+-- A rate is also used the other way around (1 / Rate) when there is no rate for the reverse pair
+CREATE TABLE Finance.ExchangeRates
+(
+    Id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    UserId INT NOT NULL,
+    BaseCurrency CHAR(3) NOT NULL,
+    QuoteCurrency CHAR(3) NOT NULL,
+    Rate DECIMAL(19, 8) NOT NULL,
+    EffectiveOn DATE NOT NULL,
+    Source NVARCHAR(10) NOT NULL DEFAULT 'manual',
+    CreatedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    CONSTRAINT ExchangeRates_Check_Rate CHECK (Rate > 0),
+    CONSTRAINT ExchangeRates_Check_Currencies CHECK (BaseCurrency <> QuoteCurrency),
+    CONSTRAINT ExchangeRates_Check_Source CHECK (Source IN ('manual', 'import')),
+    CONSTRAINT ExchangeRates_Uniq_Pair_EffectiveOn UNIQUE (UserId, BaseCurrency, QuoteCurrency, EffectiveOn),
+    CONSTRAINT ExchangeRates_FK_Users FOREIGN KEY (UserId) REFERENCES Auth.Users(Id) ON DELETE CASCADE
+);
+GO
+
+-- Record the original currency of every transaction amount and the rate it was converted to its account's currency with
+-- AmountToPay and AmountPaid stay in the original currency, the converted amounts are what account balances use
+-- Amounts without an account (placeholders for unregistered users) are never converted, their rate is 1
+ALTER TABLE Finance.TransactionAmounts
+    ADD Currency CHAR(3) NOT NULL CONSTRAINT TransactionAmounts_Default_Currency DEFAULT 'PKR',
+        ExchangeRate DECIMAL(19, 8) NOT NULL CONSTRAINT TransactionAmounts_Default_ExchangeRate DEFAULT 1,
+        CONSTRAINT TransactionAmounts_Check_ExchangeRate CHECK (ExchangeRate > 0);
+GO
+
+ALTER TABLE Finance.TransactionAmounts
+    ADD ConvertedAmountToPay AS CAST(ROUND(AmountToPay * ExchangeRate, 4) AS DECIMAL(19, 4)) PERSISTED,
+        ConvertedAmountPaid AS CAST(ROUND(AmountPaid * ExchangeRate, 4) AS DECIMAL(19, 4)) PERSISTED;
+GO
+
+-- Existing amounts were entered in the currency of their account, which is now the currency of the whole transaction
+UPDATE ta
+SET ta.Currency = TransactionCurrency.Currency
+FROM Finance.TransactionAmounts ta
+INNER JOIN (
+    SELECT amt.TransactionId, MAX(a.Currency) AS Currency
+    FROM Finance.TransactionAmounts amt
+    INNER JOIN Finance.Accounts a ON amt.AccountId = a.Id
+    GROUP BY amt.TransactionId
+) TransactionCurrency ON ta.TransactionId = TransactionCurrency.TransactionId;
+GO
+
+ALTER TRIGGER [Finance].[TransactionAmounts_Create_Trigger]
+ON [Finance].[TransactionAmounts]
+INSTEAD OF INSERT, UPDATE
+AS
+BEGIN
+    SET NOCOUNT ON;
+    IF EXISTS (SELECT * FROM inserted WHERE (AccountId IS NULL AND AccountName IS NULL) OR (AccountId IS NOT NULL AND AccountName IS NOT NULL))
+    BEGIN
+        RAISERROR('Either AccountId or AccountName must be NULL, but not both.', 16, 1);
+        ROLLBACK TRANSACTION;
+        RETURN;
+    END
+    
+    IF EXISTS (SELECT * FROM deleted)
+    BEGIN
+        UPDATE t
+        SET AccountId = i.AccountId,
+            AccountName = i.AccountName,
+            TransactionId = i.TransactionId,
+            AmountPaid = i.AmountPaid,
+            AmountToPay = i.AmountToPay,
+            Currency = i.Currency,
+            ExchangeRate = i.ExchangeRate,
+            CreatedOn = i.CreatedOn
+        FROM [Finance].[TransactionAmounts] t
+        INNER JOIN inserted i ON t.Id = i.Id
+    END
+    ELSE
+    BEGIN
+        INSERT INTO [Finance].[TransactionAmounts]
+        (AccountId, AccountName, TransactionId, AmountPaid, AmountToPay, Currency, ExchangeRate, CreatedOn)
+        SELECT i.AccountId,
+               i.AccountName,
+               i.TransactionId,
+               i.AmountPaid,
+               i.AmountToPay,
+               i.Currency,
+               i.ExchangeRate,
+               i.CreatedOn
+        FROM inserted i;
+    END
+END
+GO
+
+-- Balances are kept in the account's own currency, so they use the converted amounts
+ALTER TRIGGER [Finance].[Accounts_Balance_Trigger]
+ON [Finance].[TransactionAmounts]
+AFTER INSERT, UPDATE, DELETE
+AS
+BEGIN
+    SET NOCOUNT ON;
+    UPDATE A
+    SET A.Balance = A.Balance - 
+        CASE 
+            WHEN T.IsIncome = 1 THEN T.TotalAmount
+            ELSE -T.TotalAmount
+        END
+    FROM [Finance].[Accounts] A
+    INNER JOIN (
+        SELECT d.AccountId, SUM(d.ConvertedAmountPaid) AS TotalAmount,
+                tr.IsIncome
+        FROM deleted d
+        INNER JOIN [Finance].[Transactions] tr ON d.TransactionId = tr.Id
+        WHERE d.AccountId IS NOT NULL
+        GROUP BY d.AccountId, tr.IsIncome
+    ) T ON A.Id = T.AccountId;
+    
+    -- Add new amounts to accounts based on transaction type
+    UPDATE A
+    SET A.Balance = A.Balance + 
+        CASE 
+            WHEN T.IsIncome = 1 THEN T.TotalAmount
+            ELSE -T.TotalAmount
+        END
+    FROM [Finance].[Accounts] A
+    INNER JOIN (
+        SELECT i.AccountId, SUM(i.ConvertedAmountPaid) AS TotalAmount,
+                tr.IsIncome
+        FROM inserted i
+        INNER JOIN [Finance].[Transactions] tr ON i.TransactionId = tr.Id
+        WHERE i.AccountId IS NOT NULL
+        GROUP BY i.AccountId, tr.IsIncome
+    ) T ON A.Id = T.AccountId;
+END;
+GO
+
+ALTER TRIGGER [Finance].[Accounts_Balance_Trigger_On_Transaction_Update]
+ON [Finance].[Transactions]
+AFTER UPDATE
+AS
+BEGIN
+    SET NOCOUNT ON;
+
+    UPDATE A
+    SET A.Balance = A.Balance - 
+        CASE 
+            WHEN T.IsIncome = 1 THEN T.TotalAmount
+            ELSE -T.TotalAmount
+        END
+    FROM [Finance].[Accounts] A
+    INNER JOIN (
+        SELECT amt.AccountId, SUM(amt.ConvertedAmountPaid) AS TotalAmount,
+                d.IsIncome
+        FROM deleted d
+        INNER JOIN [Finance].[TransactionAmounts] amt ON d.Id = amt.TransactionId
+        WHERE amt.AccountId IS NOT NULL
+        GROUP BY amt.AccountId, d.IsIncome
+    ) T ON A.Id = T.AccountId;
+
+    UPDATE A
+    SET A.Balance = A.Balance + 
+        CASE 
+            WHEN T.IsIncome = 1 THEN T.TotalAmount
+            ELSE -T.TotalAmount
+        END
+    FROM [Finance].[Accounts] A
+    INNER JOIN (
+        SELECT amt.AccountId, SUM(amt.ConvertedAmountPaid) AS TotalAmount,
+                i.IsIncome
+        FROM inserted i
+        INNER JOIN [Finance].[TransactionAmounts] amt ON i.Id = amt.TransactionId
+        WHERE amt.AccountId IS NOT NULL
+        GROUP BY amt.AccountId, i.IsIncome
+    ) T ON A.Id = T.AccountId;
+END
+GO
@@ -0,0 +1,19 @@
+-- Keep the opening balance of every account apart from its running Balance
+-- Balance is still maintained by the balance triggers, OpeningBalance plus the account's transaction amounts is what it should be
+-- The initial balances of existing accounts were never recorded, so they are worked out from the current balance
+-- Any drift existing accounts already have ends up in their opening balance
+ALTER TABLE Finance.Accounts
+    ADD OpeningBalance DECIMAL(19, 4) NOT NULL CONSTRAINT Accounts_Default_OpeningBalance DEFAULT 0;
+GO
+
+UPDATE a
+SET a.OpeningBalance = a.Balance - ISNULL(Movements.Amount, 0)
+FROM Finance.Accounts a
+LEFT JOIN (
+    SELECT ta.AccountId, SUM(CASE WHEN t.IsIncome = 1 THEN ta.ConvertedAmountPaid ELSE -ta.ConvertedAmountPaid END) AS Amount
+    FROM Finance.TransactionAmounts ta
+    INNER JOIN Finance.Transactions t ON ta.TransactionId = t.Id
+    WHERE ta.AccountId IS NOT NULL
+    GROUP BY ta.AccountId
+) Movements ON a.Id = Movements.AccountId;
+GO
@@ -0,0 +1,6 @@
+-- Let accounts be archived instead of deleted
+-- Archived accounts keep their transactions, history and reports, but are left out of account lists and cannot be used in new transactions
+-- An account with transactions has to be archived before it can be deleted, deleting it turns its amounts into placeholders first (TransactionAmounts_FK_Accounts is ON DELETE NO ACTION)
+ALTER TABLE Finance.Accounts
+    ADD ArchivedOn DATETIMEOFFSET(5) NULL;
+GO
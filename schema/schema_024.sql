@@ -0,0 +1,22 @@
+-- Create the Transfers Table
+-- A transfer moves money between two accounts of the same user
+-- It is made of an expense on the source account and an income on the destination account, both excluded from reports,
+-- plus an optional expense on the source account for the fee, which is included in reports
+-- The accounts and amounts are kept on those transactions, this table only links them together
+CREATE TABLE Finance.Transfers
+(
+    Id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    UserId INT NOT NULL,
+    CreatedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    CONSTRAINT Transfers_FK_Users FOREIGN KEY (UserId) REFERENCES Auth.Users(Id) ON DELETE CASCADE
+);
+GO
+
+-- Auth.DeleteUser already removes the user's own transactions, legs left behind on deleted accounts just lose their link
+ALTER TABLE Finance.Transactions
+    ADD TransferId BIGINT NULL,
+        CONSTRAINT Transactions_FK_Transfers FOREIGN KEY (TransferId) REFERENCES Finance.Transfers(Id) ON DELETE SET NULL;
+GO
+
+CREATE INDEX Transactions_Index_TransferId ON Finance.Transactions (TransferId) WHERE TransferId IS NOT NULL;
+GO
@@ -0,0 +1,43 @@
+-- Create the AccountMembers Table
+-- Lets the owner of an account share it with friends, so a household or couple can keep a joint account
+-- The owner stays Finance.Accounts.UserId, members are either editors, who can use the account in transactions,
+-- or viewers, who can only see it, both see the true balance
+CREATE TABLE Finance.AccountMembers
+(
+    AccountId BIGINT NOT NULL,
+    UserId INT NOT NULL,
+    Role NVARCHAR(10) NOT NULL,
+    CreatedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    CONSTRAINT AccountMembers_PK PRIMARY KEY (AccountId, UserId),
+    CONSTRAINT AccountMembers_FK_Accounts FOREIGN KEY (AccountId) REFERENCES Finance.Accounts(Id) ON DELETE CASCADE,
+    -- Accounts already cascade from Auth.Users, so memberships of deleted users are removed by tr_DeleteFriend instead
+    CONSTRAINT AccountMembers_FK_Users FOREIGN KEY (UserId) REFERENCES Auth.Users(Id),
+    CONSTRAINT AccountMembers_Check_Role CHECK (Role IN ('editor', 'viewer'))
+);
+GO
+
+CREATE INDEX AccountMembers_Index_UserId ON Finance.AccountMembers (UserId);
+GO
+
+ALTER TRIGGER [Auth].[tr_DeleteFriend]
+ON [Auth].[Users]
+INSTEAD OF DELETE
+AS
+BEGIN
+    -- Delete all records from the Friends table where the UserId or FriendId is equal to the deleted UserId
+    DELETE FROM Friends.Friends
+    WHERE UserId IN (SELECT Id FROM DELETED) OR FriendId IN (SELECT Id FROM DELETED);
+
+    -- Delete all records from the FriendRequests table where the UserId or FriendId is equal to the deleted UserId
+    DELETE FROM Friends.FriendRequests
+    WHERE UserId IN (SELECT Id FROM DELETED) OR FriendId IN (SELECT Id FROM DELETED);
+
+    -- Delete the memberships of the deleted users, memberships of their own accounts go with the accounts
+    DELETE FROM Finance.AccountMembers
+    WHERE UserId IN (SELECT Id FROM DELETED);
+
+    -- Continue with the delete operation
+    DELETE FROM Auth.Users
+    WHERE Id IN (SELECT Id FROM DELETED);
+END;
+GO
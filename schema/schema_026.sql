@@ -0,0 +1,79 @@
+-- Create the Goals Table
+-- A savings goal is an amount to save, optionally by a deadline
+-- Progress is the balance of the accounts linked to the goal plus any contributions recorded on it by hand
+-- Goals are removed by tr_DeleteFriend when their user is deleted, cascading from Auth.Users would give
+-- GoalAccounts a second cascade path next to the one through Finance.Accounts
+CREATE TABLE Finance.Goals
+(
+    Id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    UserId INT NOT NULL,
+    Name NVARCHAR(255) NOT NULL,
+    TargetAmount DECIMAL(19, 4) NOT NULL,
+    Currency CHAR(3) NOT NULL,
+    Deadline DATE NULL,
+    CreatedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    CONSTRAINT Goals_FK_Users FOREIGN KEY (UserId) REFERENCES Auth.Users(Id),
+    CONSTRAINT Goals_Check_TargetAmount CHECK (TargetAmount > 0)
+);
+GO
+
+CREATE INDEX Goals_Index_UserId ON Finance.Goals (UserId);
+GO
+
+-- Accounts whose balance counts towards a goal, a link goes away with its account
+CREATE TABLE Finance.GoalAccounts
+(
+    GoalId BIGINT NOT NULL,
+    AccountId BIGINT NOT NULL,
+    CONSTRAINT GoalAccounts_PK PRIMARY KEY (GoalId, AccountId),
+    CONSTRAINT GoalAccounts_FK_Goals FOREIGN KEY (GoalId) REFERENCES Finance.Goals(Id) ON DELETE CASCADE,
+    CONSTRAINT GoalAccounts_FK_Accounts FOREIGN KEY (AccountId) REFERENCES Finance.Accounts(Id) ON DELETE CASCADE
+);
+GO
+
+CREATE INDEX GoalAccounts_Index_AccountId ON Finance.GoalAccounts (AccountId);
+GO
+
+-- Money put towards a goal outside of its linked accounts, negative amounts are withdrawals
+CREATE TABLE Finance.GoalContributions
+(
+    Id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    GoalId BIGINT NOT NULL,
+    Amount DECIMAL(19, 4) NOT NULL,
+    Note NVARCHAR(255) NULL,
+    ContributedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    CreatedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    CONSTRAINT GoalContributions_FK_Goals FOREIGN KEY (GoalId) REFERENCES Finance.Goals(Id) ON DELETE CASCADE,
+    CONSTRAINT GoalContributions_Check_Amount CHECK (Amount <> 0)
+);
+GO
+
+CREATE INDEX GoalContributions_Index_GoalId ON Finance.GoalContributions (GoalId, ContributedOn);
+GO
+
+ALTER TRIGGER [Auth].[tr_DeleteFriend]
+ON [Auth].[Users]
+INSTEAD OF DELETE
+AS
+BEGIN
+    -- Delete all records from the Friends table where the UserId or FriendId is equal to the deleted UserId
+    DELETE FROM Friends.Friends
+    WHERE UserId IN (SELECT Id FROM DELETED) OR FriendId IN (SELECT Id FROM DELETED);
+
+    -- Delete all records from the FriendRequests table where the UserId or FriendId is equal to the deleted UserId
+    DELETE FROM Friends.FriendRequests
+    WHERE UserId IN (SELECT Id FROM DELETED) OR FriendId IN (SELECT Id FROM DELETED);
+
+    -- Delete the memberships of the deleted users, memberships of their own accounts go with the accounts
+    DELETE FROM Finance.AccountMembers
+    WHERE UserId IN (SELECT Id FROM DELETED);
+
+    -- Delete the goals of the deleted users, their links and contributions cascade
+    DELETE FROM Finance.Goals
+    WHERE UserId IN (SELECT Id FROM DELETED);
+
+    -- Continue with the delete operation
+    DELETE FROM Auth.Users
+    WHERE Id IN (SELECT Id FROM DELETED);
+END;
+GO
@@ -0,0 +1,18 @@
+-- Create the InterestRules Table
+-- An interest rule makes the interest of a savings, credit card or loan account post itself
+-- The rate is the account's InterestRate, the rule says how it compounds and on which day of the month it is posted
+-- Interest is posted as a transaction by the accrue-interest job for every day from PeriodStart up to the day before the posting day
+CREATE TABLE Finance.InterestRules
+(
+    AccountId BIGINT PRIMARY KEY,
+    Compounding NVARCHAR(10) NOT NULL,
+    -- Months shorter than the posting day post on their last day
+    PostingDay TINYINT NOT NULL,
+    -- First day interest has not been posted for yet, in the owner's time zone
+    PeriodStart DATE NOT NULL,
+    CreatedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    CONSTRAINT InterestRules_FK_Accounts FOREIGN KEY (AccountId) REFERENCES Finance.Accounts(Id) ON DELETE CASCADE,
+    CONSTRAINT InterestRules_Check_Compounding CHECK (Compounding IN ('daily', 'monthly')),
+    CONSTRAINT InterestRules_Check_PostingDay CHECK (PostingDay BETWEEN 1 AND 31)
+);
+GO
@@ -0,0 +1,14 @@
+-- Keep the date a transaction happened apart from when it was recorded
+-- CreatedOn stays the time the row was inserted, OccurredOn is given by the user and defaults to the same time
+-- Lists, date filters, balance history and reports go by OccurredOn
+ALTER TABLE Finance.Transactions
+    ADD OccurredOn DATETIMEOFFSET(5) NOT NULL CONSTRAINT Transactions_Default_OccurredOn DEFAULT SYSDATETIMEOFFSET();
+GO
+
+-- Existing transactions only have the time they were recorded
+UPDATE Finance.Transactions
+SET OccurredOn = CreatedOn;
+GO
+
+CREATE INDEX Transactions_Index_OccurredOn ON Finance.Transactions (OccurredOn);
+GO
@@ -0,0 +1,48 @@
+-- Create the RecurringTransactions Table
+-- A recurring transaction is a template the recurring-transactions job turns into a transaction on every occurrence
+-- Occurrences follow an RRULE-style schedule: every Interval days, weeks, months or years from StartOn,
+-- until EndOn or until MaxOccurrences occurrences have been posted or skipped
+-- Monthly and yearly occurrences stay on the day of StartOn, months shorter than it use their last day
+-- Amounts and tags are kept as JSON in the format Transaction.createTransaction takes them, so splits with friends repeat too
+CREATE TABLE Finance.RecurringTransactions
+(
+    Id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    UserId INT NOT NULL,
+    Category NVARCHAR(255) NOT NULL,
+    IsIncome BIT NOT NULL DEFAULT 0,
+    IncludeInReports BIT NOT NULL DEFAULT 1,
+    Description NVARCHAR(255) NOT NULL,
+    Notes NVARCHAR(MAX) NULL,
+    Currency CHAR(3) NOT NULL,
+    Amounts NVARCHAR(MAX) NOT NULL,
+    Tags NVARCHAR(MAX) NULL,
+    Frequency NVARCHAR(10) NOT NULL,
+    Interval INT NOT NULL DEFAULT 1,
+    StartOn DATE NOT NULL,
+    EndOn DATE NULL,
+    MaxOccurrences INT NULL,
+    -- Occurrences posted or skipped so far, counts towards MaxOccurrences
+    OccurrenceCount INT NOT NULL DEFAULT 0,
+    -- Number of the next occurrence counted from StartOn, StartOn itself is 0
+    NextIndex INT NOT NULL DEFAULT 0,
+    -- Date of the next occurrence in the user's time zone, null once the schedule has ended
+    NextOccurrenceOn DATE NULL,
+    -- Set while paused, occurrences that fall due while paused are skipped
+    PausedOn DATETIMEOFFSET(5) NULL,
+    CreatedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    CONSTRAINT RecurringTransactions_FK_Users FOREIGN KEY (UserId) REFERENCES Auth.Users(Id) ON DELETE CASCADE,
+    CONSTRAINT RecurringTransactions_Check_Frequency CHECK (Frequency IN ('daily', 'weekly', 'monthly', 'yearly')),
+    CONSTRAINT RecurringTransactions_Check_Interval CHECK (Interval > 0),
+    CONSTRAINT RecurringTransactions_Check_MaxOccurrences CHECK (MaxOccurrences IS NULL OR MaxOccurrences > 0),
+    CONSTRAINT RecurringTransactions_Check_EndOn CHECK (EndOn IS NULL OR EndOn >= StartOn),
+    CONSTRAINT RecurringTransactions_Check_Amounts CHECK (ISJSON(Amounts) = 1),
+    CONSTRAINT RecurringTransactions_Check_Tags CHECK (Tags IS NULL OR ISJSON(Tags) = 1)
+);
+GO
+
+CREATE INDEX RecurringTransactions_Index_UserId ON Finance.RecurringTransactions (UserId);
+GO
+
+CREATE INDEX RecurringTransactions_Index_NextOccurrenceOn ON Finance.RecurringTransactions (NextOccurrenceOn)
+    WHERE NextOccurrenceOn IS NOT NULL AND PausedOn IS NULL;
+GO
@@ -0,0 +1,158 @@
+-- Create the Categories Table
+-- Every user has their own catalogue of income and expense categories, top-level categories can have subcategories
+-- Transactions keep their category name in Finance.Transactions.Category and link to the catalogue through CategoryId,
+-- names are matched without regard to case or surrounding spaces, so "Food", "food" and "Food " are the same category
+-- Categories are removed by tr_DeleteFriend when their user is deleted, cascading from Auth.Users would give
+-- Finance.Transactions a second cascade path next to the one through Finance.Transfers
+CREATE TABLE Finance.Categories
+(
+    Id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    UserId INT NOT NULL,
+    -- Only top-level categories can be parents
+    ParentId BIGINT NULL,
+    Name NVARCHAR(255) NOT NULL,
+    Kind NVARCHAR(10) NOT NULL,
+    -- Font Awesome icon name, for example "utensils"
+    Icon NVARCHAR(50) NULL,
+    -- Hex colour, for example "#F97316"
+    Color CHAR(7) NULL,
+    CreatedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    CONSTRAINT Categories_FK_Users FOREIGN KEY (UserId) REFERENCES Auth.Users(Id),
+    CONSTRAINT Categories_FK_Parent FOREIGN KEY (ParentId) REFERENCES Finance.Categories(Id),
+    CONSTRAINT Categories_Unique_Name UNIQUE (UserId, Kind, Name),
+    CONSTRAINT Categories_Check_Kind CHECK (Kind IN ('income', 'expense')),
+    CONSTRAINT Categories_Check_Color CHECK (Color IS NULL OR Color LIKE '#[0-9A-Fa-f][0-9A-Fa-f][0-9A-Fa-f][0-9A-Fa-f][0-9A-Fa-f][0-9A-Fa-f]')
+);
+GO
+
+CREATE INDEX Categories_Index_ParentId ON Finance.Categories (ParentId) WHERE ParentId IS NOT NULL;
+GO
+
+-- Seed the default categories of existing users, new users get the same ones when they register
+INSERT INTO Finance.Categories (UserId, Name, Kind, Icon, Color)
+SELECT u.Id, d.Name, d.Kind, d.Icon, d.Color
+FROM Auth.Users u
+CROSS JOIN (VALUES
+    ('Food & Dining', 'expense', 'utensils', '#F97316'),
+    ('Housing', 'expense', 'house', '#6366F1'),
+    ('Transport', 'expense', 'car', '#0EA5E9'),
+    ('Shopping', 'expense', 'bag-shopping', '#EC4899'),
+    ('Entertainment', 'expense', 'film', '#A855F7'),
+    ('Health', 'expense', 'heart-pulse', '#EF4444'),
+    ('Education', 'expense', 'graduation-cap', '#14B8A6'),
+    ('Bills & Fees', 'expense', 'file-invoice', '#64748B'),
+    ('Salary', 'income', 'briefcase', '#22C55E'),
+    ('Business', 'income', 'store', '#16A34A'),
+    ('Gifts', 'income', 'gift', '#EAB308'),
+    ('Other Income', 'income', 'coins', '#84CC16')
+) d(Name, Kind, Icon, Color);
+GO
+
+INSERT INTO Finance.Categories (UserId, ParentId, Name, Kind, Icon, Color)
+SELECT p.UserId, p.Id, d.Name, p.Kind, d.Icon, p.Color
+FROM Finance.Categories p
+INNER JOIN (VALUES
+    ('Groceries', 'Food & Dining', 'basket-shopping'),
+    ('Restaurants', 'Food & Dining', 'burger'),
+    ('Rent', 'Housing', 'key'),
+    ('Utilities', 'Housing', 'bolt'),
+    ('Fuel', 'Transport', 'gas-pump'),
+    ('Public Transport', 'Transport', 'bus')
+) d(Name, Parent, Icon) ON p.Name = d.Parent AND p.Kind = 'expense';
+GO
+
+-- Add the category names users already used, spelled the way they used most
+WITH Used AS (
+    SELECT a.UserId, CASE WHEN t.IsIncome = 1 THEN 'income' ELSE 'expense' END AS Kind,
+        LTRIM(RTRIM(t.Category)) AS Name, COUNT(DISTINCT t.Id) AS Uses
+    FROM Finance.Transactions t
+    INNER JOIN Finance.TransactionAmounts ta ON ta.TransactionId = t.Id
+    INNER JOIN Finance.Accounts a ON ta.AccountId = a.Id
+    GROUP BY a.UserId, t.IsIncome, LTRIM(RTRIM(t.Category))
+    UNION ALL
+    SELECT UserId, CASE WHEN IsIncome = 1 THEN 'income' ELSE 'expense' END AS Kind,
+        LTRIM(RTRIM(Category)) AS Name, COUNT(*) AS Uses
+    FROM Finance.RecurringTransactions
+    GROUP BY UserId, IsIncome, LTRIM(RTRIM(Category))
+), Ranked AS (
+    SELECT UserId, Kind, Name, ROW_NUMBER() OVER (PARTITION BY UserId, Kind, LOWER(Name) ORDER BY Uses DESC, Name) AS Rank
+    FROM Used
+    WHERE Name <> ''
+)
+INSERT INTO Finance.Categories (UserId, Name, Kind)
+SELECT r.UserId, r.Name, r.Kind
+FROM Ranked r
+WHERE r.Rank = 1 AND NOT EXISTS (
+    SELECT 1
+    FROM Finance.Categories c
+    WHERE c.UserId = r.UserId AND c.Kind = r.Kind AND LOWER(c.Name) = LOWER(r.Name)
+);
+GO
+
+-- Categories are only unlinked when they are deleted, so transactions keep their category name
+ALTER TABLE Finance.Transactions
+    ADD CategoryId BIGINT NULL,
+        CONSTRAINT Transactions_FK_Categories FOREIGN KEY (CategoryId) REFERENCES Finance.Categories(Id);
+GO
+
+CREATE INDEX Transactions_Index_CategoryId ON Finance.Transactions (CategoryId) WHERE CategoryId IS NOT NULL;
+GO
+
+-- Existing transactions go into the catalogue of the owner of their first amount on an account
+UPDATE t
+SET t.CategoryId = c.Id, t.Category = c.Name
+FROM Finance.Transactions t
+CROSS APPLY (
+    SELECT TOP 1 a.UserId
+    FROM Finance.TransactionAmounts ta
+    INNER JOIN Finance.Accounts a ON ta.AccountId = a.Id
+    WHERE ta.TransactionId = t.Id
+    ORDER BY ta.Id
+) o
+INNER JOIN Finance.Categories c ON c.UserId = o.UserId
+    AND c.Kind = CASE WHEN t.IsIncome = 1 THEN 'income' ELSE 'expense' END
+    AND LOWER(c.Name) = LOWER(LTRIM(RTRIM(t.Category)));
+GO
+
+UPDATE r
+SET r.Category = c.Name
+FROM Finance.RecurringTransactions r
+INNER JOIN Finance.Categories c ON c.UserId = r.UserId
+    AND c.Kind = CASE WHEN r.IsIncome = 1 THEN 'income' ELSE 'expense' END
+    AND LOWER(c.Name) = LOWER(LTRIM(RTRIM(r.Category)));
+GO
+
+ALTER TRIGGER [Auth].[tr_DeleteFriend]
+ON [Auth].[Users]
+INSTEAD OF DELETE
+AS
+BEGIN
+    -- Delete all records from the Friends table where the UserId or FriendId is equal to the deleted UserId
+    DELETE FROM Friends.Friends
+    WHERE UserId IN (SELECT Id FROM DELETED) OR FriendId IN (SELECT Id FROM DELETED);
+
+    -- Delete all records from the FriendRequests table where the UserId or FriendId is equal to the deleted UserId
+    DELETE FROM Friends.FriendRequests
+    WHERE UserId IN (SELECT Id FROM DELETED) OR FriendId IN (SELECT Id FROM DELETED);
+
+    -- Delete the memberships of the deleted users, memberships of their own accounts go with the accounts
+    DELETE FROM Finance.AccountMembers
+    WHERE UserId IN (SELECT Id FROM DELETED);
+
+    -- Delete the goals of the deleted users, their links and contributions cascade
+    DELETE FROM Finance.Goals
+    WHERE UserId IN (SELECT Id FROM DELETED);
+
+    -- Delete the categories of the deleted users, transactions friends keep only lose the link
+    UPDATE Finance.Transactions
+    SET CategoryId = NULL
+    WHERE CategoryId IN (SELECT Id FROM Finance.Categories WHERE UserId IN (SELECT Id FROM DELETED));
+
+    DELETE FROM Finance.Categories
+    WHERE UserId IN (SELECT Id FROM DELETED);
+
+    -- Continue with the delete operation
+    DELETE FROM Auth.Users
+    WHERE Id IN (SELECT Id FROM DELETED);
+END;
+GO
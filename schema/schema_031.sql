@@ -0,0 +1,20 @@
+-- Create the MFA Challenges Table
+-- Keeps track of the challenge tokens returned by a password login to users with two-factor authentication
+-- Jti is the unique id embedded in the challenge JWT, the JWT itself is never stored
+-- UsedOn is set when the challenge is exchanged for a session or runs out of attempts, a challenge can only be used once
+CREATE TABLE Auth.MfaChallenges
+(
+    Id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    UserId INT NOT NULL,
+    Jti UNIQUEIDENTIFIER NOT NULL,
+    FailedCount INT NOT NULL DEFAULT 0,
+    ExpiresOn DATETIMEOFFSET(5) NOT NULL,
+    UsedOn DATETIMEOFFSET(5) NULL DEFAULT NULL,
+    CreatedOn DATETIMEOFFSET(5) NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    CONSTRAINT MfaChallenges_Uniq_Jti UNIQUE (Jti),
+    CONSTRAINT MfaChallenges_FK_Users FOREIGN KEY (UserId) REFERENCES Auth.Users(Id) ON DELETE CASCADE
+);
+GO
+
+CREATE INDEX MfaChallenges_Index_UserId ON Auth.MfaChallenges (UserId);
+GO
@@ -0,0 +1,94 @@
+-- Redefine Auth.DeleteUser so the placeholder amounts it leaves on shared transactions keep the currency of their transaction
+-- Drop the stored procedure if it already exists
+IF EXISTS (
+SELECT *
+    FROM INFORMATION_SCHEMA.ROUTINES
+WHERE SPECIFIC_SCHEMA = N'Auth'
+    AND SPECIFIC_NAME = N'DeleteUser'
+)
+DROP PROCEDURE Auth.DeleteUser
+GO
+-- Delete a user and everything they own
+-- TransactionAmounts_FK_Accounts is ON DELETE NO ACTION, so amounts pointing at the user's accounts have to be removed
+-- before the Accounts cascade from Auth.Users can run
+-- Transactions that only involve the user's own accounts are deleted completely
+-- Transactions shared with other users are kept, the user's share is folded into a single placeholder amount
+-- named after the user so friends keep their history (same as Account_Delete_TransactionAmountUpdate does for a single account)
+-- Friends and FriendRequests are cleaned up by tr_DeleteFriend, tokens and recovery codes by their cascades
+-- Placeholders take the currency of the transaction, like every amount without an account their exchange rate is 1
+CREATE PROCEDURE Auth.DeleteUser
+    @Id INT
+AS
+BEGIN
+    SET NOCOUNT ON;
+
+    DECLARE @Username NVARCHAR(255) = (SELECT Username FROM Auth.Users WHERE Id = @Id);
+
+    -- Transactions nobody else has access to
+    DELETE t
+    FROM Finance.Transactions t
+    WHERE EXISTS (
+        SELECT 1
+        FROM Finance.TransactionAmounts amt
+        INNER JOIN Finance.Accounts a ON amt.AccountId = a.Id
+        WHERE amt.TransactionId = t.Id AND a.UserId = @Id
+    ) AND NOT EXISTS (
+        SELECT 1
+        FROM Finance.TransactionAmounts amt
+        INNER JOIN Finance.Accounts a ON amt.AccountId = a.Id
+        WHERE amt.TransactionId = t.Id AND a.UserId <> @Id
+    );
+
+    -- The user's share of every remaining (shared) transaction
+    SELECT amt.TransactionId,
+           MAX(amt.Currency) AS Currency,
+           SUM(amt.AmountToPay) AS AmountToPay,
+           SUM(amt.AmountPaid) AS AmountPaid
+    INTO #Shares
+    FROM Finance.TransactionAmounts amt
+    INNER JOIN Finance.Accounts a ON amt.AccountId = a.Id
+    WHERE a.UserId = @Id
+    GROUP BY amt.TransactionId;
+
+    DELETE amt
+    FROM Finance.TransactionAmounts amt
+    INNER JOIN Finance.Accounts a ON amt.AccountId = a.Id
+    WHERE a.UserId = @Id;
+
+    -- Merge into an existing placeholder with the same name, otherwise create one
+    UPDATE amt
+    SET AmountToPay = amt.AmountToPay + s.AmountToPay,
+        AmountPaid = amt.AmountPaid + s.AmountPaid
+    FROM Finance.TransactionAmounts amt
+    INNER JOIN #Shares s ON amt.TransactionId = s.TransactionId
+    WHERE amt.AccountId IS NULL AND amt.AccountName = @Username;
+
+    INSERT INTO Finance.TransactionAmounts (TransactionId, AccountId, AccountName, AmountToPay, AmountPaid, Currency, ExchangeRate, CreatedOn)
+    SELECT s.TransactionId, NULL, @Username, s.AmountToPay, s.AmountPaid, s.Currency, 1, SYSDATETIMEOFFSET()
+    FROM #Shares s
+    WHERE NOT EXISTS (
+        SELECT 1
+        FROM Finance.TransactionAmounts amt
+        WHERE amt.TransactionId = s.TransactionId AND amt.AccountId IS NULL AND amt.AccountName = @Username
+    );
+
+    DROP TABLE #Shares;
+
+    DELETE FROM Auth.Users
+    WHERE Id = @Id;
+END
+GO
+
+-- Placeholders left by earlier deletions got the default currency, give them the currency of the rest of their transaction
+UPDATE ta
+SET ta.Currency = TransactionCurrency.Currency,
+    ta.ExchangeRate = 1
+FROM Finance.TransactionAmounts ta
+INNER JOIN (
+    SELECT TransactionId, MAX(Currency) AS Currency
+    FROM Finance.TransactionAmounts
+    WHERE AccountId IS NOT NULL
+    GROUP BY TransactionId
+) TransactionCurrency ON ta.TransactionId = TransactionCurrency.TransactionId
+WHERE ta.AccountId IS NULL AND ta.Currency <> TransactionCurrency.Currency;
+GO
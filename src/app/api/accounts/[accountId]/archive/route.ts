@@ -0,0 +1,15 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { Account } from "@/models/accounts.model";
+import { response } from "@/utils/response.util";
+
+export const POST = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ accountId: string }>}
+)=>{
+    const {accountId} = await params;
+    const numericAccountId = parseInt(accountId);
+    if (isNaN(numericAccountId)) {
+        throw new StatusError('Account ID must be a number', 400);
+    }
+    return response(await Account.archiveAccount(req.user.Id, numericAccountId), 200);
+}, 'accounts:write'));
@@ -0,0 +1,32 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { Account, IBalanceHistoryFilters } from "@/models/accounts.model";
+import { UserPreferences } from "@/models/preferences.model";
+import { DateInterval, parseDateFilter } from "@/utils/date.util";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ accountId: string }>}
+)=>{
+    const {accountId} = await params;
+    const numericAccountId = parseInt(accountId);
+    if (isNaN(numericAccountId)) {
+        throw new StatusError('Account ID must be a number', 400);
+    }
+
+    // Dates without a time are whole days in the user's time zone
+    const url = new URL(req.url);
+    const { timezone } = await UserPreferences.get(req.user.Id);
+    const filters: IBalanceHistoryFilters = {};
+
+    const from = url.searchParams.get('from');
+    if (from) filters.from = parseDateFilter(from, timezone);
+
+    const to = url.searchParams.get('to');
+    if (to) filters.to = parseDateFilter(to, timezone, true);
+
+    const interval = url.searchParams.get('interval');
+    if (interval) filters.interval = interval as DateInterval;
+
+    return response(await Account.getBalanceHistory(req.user.Id, numericAccountId, filters), 200);
+}, 'accounts:read'));
@@ -0,0 +1,39 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { Interest, ISetInterestRule } from "@/models/interest.model";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ accountId: string }>}
+)=>{
+    const {accountId} = await params;
+    const numericAccountId = parseInt(accountId);
+    if (isNaN(numericAccountId)) {
+        throw new StatusError('Account ID must be a number', 400);
+    }
+    return response(await Interest.getRule(req.user.Id, numericAccountId), 200);
+}, 'accounts:read'));
+
+export const PUT = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ accountId: string }>}
+)=>{
+    const {accountId} = await params;
+    const numericAccountId = parseInt(accountId);
+    if (isNaN(numericAccountId)) {
+        throw new StatusError('Account ID must be a number', 400);
+    }
+    const body = await req.json() as ISetInterestRule;
+    return response(await Interest.setRule(req.user.Id, numericAccountId, body), 200);
+}, 'accounts:write'));
+
+export const DELETE = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ accountId: string }>}
+)=>{
+    const {accountId} = await params;
+    const numericAccountId = parseInt(accountId);
+    if (isNaN(numericAccountId)) {
+        throw new StatusError('Account ID must be a number', 400);
+    }
+    await Interest.deleteRule(req.user.Id, numericAccountId);
+    return response({message: "Interest rule deleted successfully"}, 200);
+}, 'accounts:write'));
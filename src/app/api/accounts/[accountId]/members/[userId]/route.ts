@@ -0,0 +1,37 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { AccountMember } from "@/models/accountMembers.model";
+import { AccountMemberRole } from "@/utils/accountTypes.util";
+import { response } from "@/utils/response.util";
+
+export const PUT = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ accountId: string, userId: string }>}
+)=>{
+    const {accountId, userId} = await params;
+    const numericAccountId = parseInt(accountId);
+    if (isNaN(numericAccountId)) {
+        throw new StatusError('Account ID must be a number', 400);
+    }
+    const numericUserId = parseInt(userId);
+    if (isNaN(numericUserId)) {
+        throw new StatusError('User ID must be a number', 400);
+    }
+    const body = await req.json() as { role: AccountMemberRole };
+    return response(await AccountMember.updateMemberRole(req.user.Id, numericAccountId, numericUserId, body.role), 200);
+}, 'accounts:write'));
+
+export const DELETE = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ accountId: string, userId: string }>}
+)=>{
+    const {accountId, userId} = await params;
+    const numericAccountId = parseInt(accountId);
+    if (isNaN(numericAccountId)) {
+        throw new StatusError('Account ID must be a number', 400);
+    }
+    const numericUserId = parseInt(userId);
+    if (isNaN(numericUserId)) {
+        throw new StatusError('User ID must be a number', 400);
+    }
+    await AccountMember.removeMember(req.user.Id, numericAccountId, numericUserId);
+    return response({message: "Member removed successfully"}, 200);
+}, 'accounts:write'));
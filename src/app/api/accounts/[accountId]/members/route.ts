@@ -0,0 +1,27 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { AccountMember, INewAccountMember } from "@/models/accountMembers.model";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ accountId: string }>}
+)=>{
+    const {accountId} = await params;
+    const numericAccountId = parseInt(accountId);
+    if (isNaN(numericAccountId)) {
+        throw new StatusError('Account ID must be a number', 400);
+    }
+    return response(await AccountMember.getMembers(req.user.Id, numericAccountId), 200);
+}, 'accounts:read'));
+
+export const POST = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ accountId: string }>}
+)=>{
+    const {accountId} = await params;
+    const numericAccountId = parseInt(accountId);
+    if (isNaN(numericAccountId)) {
+        throw new StatusError('Account ID must be a number', 400);
+    }
+    const body = await req.json() as INewAccountMember;
+    return response(await AccountMember.addMember(req.user.Id, numericAccountId, body), 201);
+}, 'accounts:write'));
@@ -0,0 +1,16 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { Reconciliation } from "@/models/reconciliation.model";
+import { response } from "@/utils/response.util";
+
+export const POST = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ accountId: string }>}
+)=>{
+    const {accountId} = await params;
+    const numericAccountId = parseInt(accountId);
+    if (isNaN(numericAccountId)) {
+        throw new StatusError('Account ID must be a number', 400);
+    }
+    const body = await req.json() as { statementBalance: number };
+    return response(await Reconciliation.reconcileToStatement(req.user.Id, numericAccountId, body.statementBalance), 200);
+}, 'accounts:write'));
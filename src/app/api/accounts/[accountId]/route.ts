@@ -1,6 +1,9 @@
 import { withAuth } from "@/middleware/auth.middleware";
 import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
 import { Account, IEditAccount } from "@/models/accounts.model";
+import { UserPreferences } from "@/models/preferences.model";
+import { parseDateFilter } from "@/utils/date.util";
+import { getClientDevice } from "@/utils/request.util";
 import { response } from "@/utils/response.util";
 
 export const GET = withErrorHandling(withAuth(async (req,
@@ -11,12 +14,15 @@ export const GET = withErrorHandling(withAuth(async (req,
     if (isNaN(numericAccountId)) {
         throw new StatusError('Account ID must be a number', 400);
     }
-    const account = await Account.getAccount(req.user.Id, numericAccountId);
+    // Balance at the end of asOf when it is a date without a time, in the user's time zone
+    const asOf = new URL(req.url).searchParams.get('asOf');
+    const asOfDate = asOf ? parseDateFilter(asOf, (await UserPreferences.get(req.user.Id)).timezone, true) : undefined;
+    const account = await Account.getAccount(req.user.Id, numericAccountId, asOfDate);
     if (!account) {
         throw new StatusError('Account not found', 404);
     }
     return response(account, 200);
-}));
+}, 'accounts:read'));
 
 export const PUT = withErrorHandling(withAuth(async (req,
     {params}: { params: Promise<{ accountId: string }>}
@@ -29,7 +35,7 @@ export const PUT = withErrorHandling(withAuth(async (req,
     const body = await req.json() as IEditAccount;
     const updatedAccount = await Account.editAccount(req.user.Id, numericAccountId, body);
     return response(updatedAccount, 200);
-}));
+}, 'accounts:write'));
 
 export const DELETE = withErrorHandling(withAuth(async (req,
     {params}: { params: Promise<{ accountId: string }>}
@@ -39,7 +45,7 @@ export const DELETE = withErrorHandling(withAuth(async (req,
     if (isNaN(numericAccountId)) {
         throw new StatusError('Account ID must be a number', 400);
     }
-    await Account.deleteAccount(req.user.Id, numericAccountId);
+    await Account.deleteAccount(req.user.Id, numericAccountId, getClientDevice(req));
     return response({message: "Account deleted successfully"}, 200);
-}
+}, 'accounts:write'
 ));
\ No newline at end of file
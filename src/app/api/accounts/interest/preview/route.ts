@@ -0,0 +1,14 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { Interest } from "@/models/interest.model";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (req)=>{
+    const url = new URL(req.url);
+    const periods = url.searchParams.get('periods');
+    const numericPeriods = periods ? parseInt(periods) : undefined;
+    if (numericPeriods !== undefined && isNaN(numericPeriods)) {
+        throw new StatusError('Periods must be a number', 400);
+    }
+    return response(await Interest.previewPostings(req.user.Id, numericPeriods), 200);
+}, 'accounts:read'));
@@ -0,0 +1,8 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { Account } from "@/models/accounts.model";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (req)=>{
+    return response(await Account.getNetWorth(req.user.Id), 200);
+}, 'accounts:read'))
@@ -0,0 +1,8 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { Reconciliation } from "@/models/reconciliation.model";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (req)=>{
+    return response(await Reconciliation.getUserReconciliation(req.user.Id), 200);
+}, 'accounts:read'))
@@ -4,10 +4,11 @@ import { Account, INewAccount } from "@/models/accounts.model";
 import { response } from "@/utils/response.util";
 
 export const GET = withErrorHandling(withAuth(async (req)=>{
-    return response(await Account.getUserAccounts(req.user.Id), 200);
-}))
+    const includeArchived = new URL(req.url).searchParams.get('includeArchived') === 'true';
+    return response(await Account.getUserAccounts(req.user.Id, includeArchived), 200);
+}, 'accounts:read'))
 
 export const POST = withErrorHandling(withAuth(async (req)=>{
     const body = await req.json() as INewAccount;
     return response(await Account.createAccount(req.user.Id, body), 201);
-}))
\ No newline at end of file
+}, 'accounts:write'))
\ No newline at end of file
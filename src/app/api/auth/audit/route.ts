@@ -0,0 +1,20 @@
+import { AuditEvent, IAuditEventFilters } from "@/models/auditEvents.model";
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (request): Promise<Response> => {
+    const url = new URL(request.url);
+    const filters: IAuditEventFilters = {};
+
+    const page = url.searchParams.get('page');
+    if (page) filters.page = parseInt(page);
+
+    const limit = url.searchParams.get('limit');
+    if (limit) filters.limit = parseInt(limit);
+
+    const type = url.searchParams.get('type');
+    if (type) filters.type = type;
+
+    return response(await AuditEvent.getUserEvents(request.user.Id, filters), 200);
+}))
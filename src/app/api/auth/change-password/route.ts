@@ -1,7 +1,8 @@
 import { User } from "@/models/users.model";
 import { withAuth } from "@/middleware/auth.middleware";
 import { withErrorHandling } from "@/middleware/errorHandler.middleware";
-import { response } from "@/utils/response.util";
+import { getClientDevice } from "@/utils/request.util";
+import { sessionResponse } from "@/utils/session.util";
 
 export const PUT = withErrorHandling(withAuth(async (request): Promise<Response> => {
     const user = request.user;
@@ -10,8 +11,8 @@ export const PUT = withErrorHandling(withAuth(async (request): Promise<Response>
         userId: user.Id,
         currentPassword,
         newPassword
-    })
-    return response({
+    }, getClientDevice(request))
+    return sessionResponse(request, {
         message: "Password has been updated successfully",
         token: newToken,
         refreshToken: newRefreshToken
@@ -0,0 +1,19 @@
+import { User } from "@/models/users.model";
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { getClientDevice } from "@/utils/request.util";
+import { sessionResponse } from "@/utils/session.util";
+
+export const PUT = withErrorHandling(withAuth(async (request): Promise<Response> => {
+    const user = request.user;
+    const {email, password} = await request.json();
+    const result = await User.changeEmail({
+        userId: user.Id,
+        email,
+        password
+    }, getClientDevice(request))
+    return sessionResponse(request, {
+        message: "Email has been updated successfully",
+        ...result
+    }, 200)
+}))
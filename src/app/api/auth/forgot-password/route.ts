@@ -0,0 +1,10 @@
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { IForgotPassword, User } from "@/models/users.model";
+import { getClientDevice } from "@/utils/request.util";
+import { response } from "@/utils/response.util";
+
+export const POST = withErrorHandling(async (request: Request): Promise<Response> => {
+    const body = await request.json() as IForgotPassword;
+    await User.forgotPassword(body, getClientDevice(request));
+    return response({ message: "If an account exists for this email, a password reset link has been sent" }, 200);
+})
@@ -0,0 +1,9 @@
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { getPublicJwks } from "@/utils/jwtKeys.util";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(async (): Promise<Response> => {
+    return response(await getPublicJwks(), 200, {
+        'Cache-Control': 'public, max-age=300'
+    });
+})
@@ -0,0 +1,9 @@
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { IUserLoginMfa, User } from "@/models/users.model";
+import { getClientDevice } from "@/utils/request.util";
+import { sessionResponse } from "@/utils/session.util";
+
+export const POST = withErrorHandling(async (request: Request): Promise<Response> => {
+    const body = await request.json() as IUserLoginMfa;
+    return sessionResponse(request, await User.loginMfa(body, getClientDevice(request)), 200);
+})
@@ -1,8 +1,14 @@
 import { withErrorHandling } from "@/middleware/errorHandler.middleware";
 import { IUserLogin, User } from "@/models/users.model";
+import { getClientDevice } from "@/utils/request.util";
 import { response } from "@/utils/response.util";
+import { sessionResponse } from "@/utils/session.util";
 
 export const POST = withErrorHandling(async (request: Request): Promise<Response> => {
     const body = await request.json() as IUserLogin;
-    return response(await User.login(body), 200);
-})
\ No newline at end of file
+    const result = await User.login(body, getClientDevice(request));
+    if ("mfaRequired" in result) {
+        return response(result, 200);
+    }
+    return sessionResponse(request, result, 200);
+})
@@ -0,0 +1,12 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { User } from "@/models/users.model";
+import { getClientDevice } from "@/utils/request.util";
+import { response } from "@/utils/response.util";
+import { clearSessionCookies, isCookieSession } from "@/utils/session.util";
+
+export const POST = withErrorHandling(withAuth(async (request): Promise<Response> => {
+    await User.logoutAll(request.user.Id, getClientDevice(request));
+    const result = response({ message: "Logged out of all sessions successfully" }, 200);
+    return isCookieSession(request) ? clearSessionCookies(result) : result;
+}))
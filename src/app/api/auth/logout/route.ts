@@ -0,0 +1,21 @@
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { IUserRefresh, User } from "@/models/users.model";
+import { getClientDevice } from "@/utils/request.util";
+import { response } from "@/utils/response.util";
+import { clearSessionCookies, getRefreshTokenCookie } from "@/utils/session.util";
+
+export const POST = withErrorHandling(async (request: Request): Promise<Response> => {
+    const refreshToken = getRefreshTokenCookie(request);
+    if (refreshToken === undefined) {
+        // Cookie sessions whose refresh cookie is already gone send no body, their other cookies still have to be cleared
+        const body = await request.json().catch(() => null) as IUserRefresh | null;
+        if (body !== null) {
+            await User.logout(body, getClientDevice(request));
+        }
+        return clearSessionCookies(response({ message: "Logged out successfully" }, 200));
+    }
+
+    // The cookies are cleared even if the session was already revoked or expired
+    await User.logout({ refreshToken }, getClientDevice(request)).catch(() => undefined);
+    return clearSessionCookies(response({ message: "Logged out successfully" }, 200));
+})
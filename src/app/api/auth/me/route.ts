@@ -0,0 +1,25 @@
+import { User } from "@/models/users.model";
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { getClientDevice } from "@/utils/request.util";
+import { response } from "@/utils/response.util";
+import { clearSessionCookies, isCookieSession } from "@/utils/session.util";
+
+export const GET = withErrorHandling(withAuth(async (request): Promise<Response> => {
+    return response(request.user, 200);
+}))
+
+export const DELETE = withErrorHandling(withAuth(async (request): Promise<Response> => {
+    const user = request.user;
+    const {password, code} = await request.json();
+    const dataExport = await User.deleteUser({
+        userId: user.Id,
+        password,
+        code
+    }, getClientDevice(request));
+    const fileName = `fastmoney-${user.Username}-${new Date().toISOString().slice(0, 10)}.json`;
+    const result = response(dataExport, 200, {
+        'Content-Disposition': `attachment; filename="${fileName}"`
+    });
+    return isCookieSession(request) ? clearSessionCookies(result) : result;
+}))
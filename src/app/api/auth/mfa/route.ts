@@ -0,0 +1,35 @@
+import { User } from "@/models/users.model";
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { getClientDevice } from "@/utils/request.util";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (request): Promise<Response> => {
+    return response(await User.getTwoFactorStatus(request.user.Id), 200);
+}))
+
+export const POST = withErrorHandling(withAuth(async (request): Promise<Response> => {
+    return response(await User.setupTwoFactor(request.user.Id), 200);
+}))
+
+export const PUT = withErrorHandling(withAuth(async (request): Promise<Response> => {
+    const {code} = await request.json();
+    const result = await User.confirmTwoFactor({
+        userId: request.user.Id,
+        code
+    }, getClientDevice(request));
+    return response({
+        message: "Two-factor authentication has been enabled",
+        ...result
+    }, 200);
+}))
+
+export const DELETE = withErrorHandling(withAuth(async (request): Promise<Response> => {
+    const {password, code} = await request.json();
+    await User.disableTwoFactor({
+        userId: request.user.Id,
+        password,
+        code
+    }, getClientDevice(request));
+    return response({message: "Two-factor authentication has been disabled"}, 200);
+}))
@@ -0,0 +1,18 @@
+import { IUserPreferencesUpdate, UserPreferences } from "@/models/preferences.model";
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (request): Promise<Response> => {
+    return response(await UserPreferences.get(request.user.Id), 200);
+}))
+
+export const PUT = withErrorHandling(withAuth(async (request): Promise<Response> => {
+    const {currency, timezone, locale, weekStart} = await request.json() as IUserPreferencesUpdate;
+    return response(await UserPreferences.update(request.user.Id, {
+        currency,
+        timezone,
+        locale,
+        weekStart
+    }), 200);
+}))
@@ -1,8 +1,10 @@
 import { withErrorHandling } from "@/middleware/errorHandler.middleware";
 import { IUserRefresh, User } from "@/models/users.model";
-import { response } from "@/utils/response.util";
+import { getClientDevice } from "@/utils/request.util";
+import { getRefreshTokenCookie, sessionResponse } from "@/utils/session.util";
 
 export const POST = withErrorHandling(async (request: Request): Promise<Response> => {
-    const body = await request.json() as IUserRefresh;
-    return response(await User.refresh(body), 200);
-})
\ No newline at end of file
+    const refreshToken = getRefreshTokenCookie(request);
+    const body = refreshToken !== undefined ? { refreshToken } : await request.json() as IUserRefresh;
+    return sessionResponse(request, await User.refresh(body, getClientDevice(request)), 200);
+})
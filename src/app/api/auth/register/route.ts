@@ -1,8 +1,9 @@
 import { withErrorHandling } from "@/middleware/errorHandler.middleware";
 import { IUserRegistration, User } from "@/models/users.model";
-import { response } from "@/utils/response.util";
+import { getClientDevice } from "@/utils/request.util";
+import { sessionResponse } from "@/utils/session.util";
 
 export const POST = withErrorHandling(async (request: Request): Promise<Response> => {
     const body = await request.json() as IUserRegistration;
-    return response(await User.register(body), 200);
-})
\ No newline at end of file
+    return sessionResponse(request, await User.register(body, getClientDevice(request)), 200);
+})
@@ -0,0 +1,10 @@
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { IResetPassword, User } from "@/models/users.model";
+import { getClientDevice } from "@/utils/request.util";
+import { response } from "@/utils/response.util";
+
+export const POST = withErrorHandling(async (request: Request): Promise<Response> => {
+    const body = await request.json() as IResetPassword;
+    await User.resetPassword(body, getClientDevice(request));
+    return response({ message: "Password has been reset successfully" }, 200);
+})
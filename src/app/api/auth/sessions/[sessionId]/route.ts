@@ -0,0 +1,13 @@
+import { Session } from "@/models/sessions.model";
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { getClientDevice } from "@/utils/request.util";
+import { response } from "@/utils/response.util";
+
+export const DELETE = withErrorHandling(withAuth(async (request,
+    {params}: { params: Promise<{ sessionId: string }>}
+): Promise<Response> => {
+    const {sessionId} = await params;
+    await Session.revoke(request.user.Id, sessionId, getClientDevice(request));
+    return response({message: "Session has been signed out"}, 200);
+}))
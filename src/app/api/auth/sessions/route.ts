@@ -0,0 +1,8 @@
+import { Session } from "@/models/sessions.model";
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (request): Promise<Response> => {
+    return response(await Session.getUserSessions(request.user.Id, request.sessionId), 200);
+}))
@@ -0,0 +1,17 @@
+import { PersonalAccessToken } from "@/models/personalAccessTokens.model";
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { getClientDevice } from "@/utils/request.util";
+import { response } from "@/utils/response.util";
+
+export const DELETE = withErrorHandling(withAuth(async (request,
+    {params}: { params: Promise<{ tokenId: string }>}
+): Promise<Response> => {
+    const {tokenId} = await params;
+    const numericTokenId = parseInt(tokenId);
+    if (isNaN(numericTokenId)) {
+        throw new StatusError('Token ID must be a number', 400);
+    }
+    await PersonalAccessToken.revoke(request.user.Id, numericTokenId, getClientDevice(request));
+    return response({message: "Token has been revoked"}, 200);
+}))
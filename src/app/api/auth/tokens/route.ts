@@ -0,0 +1,14 @@
+import { INewPersonalAccessToken, PersonalAccessToken } from "@/models/personalAccessTokens.model";
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { getClientDevice } from "@/utils/request.util";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (request): Promise<Response> => {
+    return response(await PersonalAccessToken.getUserTokens(request.user.Id), 200);
+}))
+
+export const POST = withErrorHandling(withAuth(async (request): Promise<Response> => {
+    const body = await request.json() as INewPersonalAccessToken;
+    return response(await PersonalAccessToken.create(request.user.Id, body, getClientDevice(request)), 201);
+}))
@@ -0,0 +1,19 @@
+import { User } from "@/models/users.model";
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { getClientDevice } from "@/utils/request.util";
+import { sessionResponse } from "@/utils/session.util";
+
+export const PUT = withErrorHandling(withAuth(async (request): Promise<Response> => {
+    const user = request.user;
+    const {username, password} = await request.json();
+    const result = await User.changeUsername({
+        userId: user.Id,
+        username,
+        password
+    }, getClientDevice(request))
+    return sessionResponse(request, {
+        message: "Username has been updated successfully",
+        ...result
+    }, 200)
+}))
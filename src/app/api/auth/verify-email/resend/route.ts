@@ -0,0 +1,9 @@
+import { User } from "@/models/users.model";
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { response } from "@/utils/response.util";
+
+export const POST = withErrorHandling(withAuth(async (request): Promise<Response> => {
+    await User.resendEmailVerification(request.user.Id);
+    return response({message: "Verification email has been sent"}, 200);
+}))
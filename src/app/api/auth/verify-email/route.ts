@@ -0,0 +1,10 @@
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { IVerifyEmail, User } from "@/models/users.model";
+import { getClientDevice } from "@/utils/request.util";
+import { response } from "@/utils/response.util";
+
+export const POST = withErrorHandling(async (request: Request): Promise<Response> => {
+    const body = await request.json() as IVerifyEmail;
+    await User.verifyEmail(body, getClientDevice(request));
+    return response({message: "Email has been verified"}, 200);
+})
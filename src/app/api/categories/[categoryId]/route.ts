@@ -0,0 +1,39 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { Category, IEditCategory } from "@/models/categories.model";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ categoryId: string }>}
+)=>{
+    const {categoryId} = await params;
+    const numericCategoryId = parseInt(categoryId);
+    if (isNaN(numericCategoryId)) {
+        throw new StatusError('Category ID must be a number', 400);
+    }
+    return response(await Category.getCategory(req.user.Id, numericCategoryId), 200);
+}, 'transactions:read'));
+
+export const PUT = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ categoryId: string }>}
+)=>{
+    const {categoryId} = await params;
+    const numericCategoryId = parseInt(categoryId);
+    if (isNaN(numericCategoryId)) {
+        throw new StatusError('Category ID must be a number', 400);
+    }
+    const body = await req.json() as IEditCategory;
+    return response(await Category.editCategory(req.user.Id, numericCategoryId, body), 200);
+}, 'transactions:write'));
+
+export const DELETE = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ categoryId: string }>}
+)=>{
+    const {categoryId} = await params;
+    const numericCategoryId = parseInt(categoryId);
+    if (isNaN(numericCategoryId)) {
+        throw new StatusError('Category ID must be a number', 400);
+    }
+    await Category.deleteCategory(req.user.Id, numericCategoryId);
+    return response({message: "Category deleted successfully"}, 200);
+}, 'transactions:write'));
@@ -0,0 +1,14 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { Category, CategoryKind, INewCategory } from "@/models/categories.model";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (req)=>{
+    const kind = new URL(req.url).searchParams.get('kind') ?? undefined;
+    return response(await Category.getCategories(req.user.Id, kind as CategoryKind | undefined), 200);
+}, 'transactions:read'))
+
+export const POST = withErrorHandling(withAuth(async (req)=>{
+    const body = await req.json() as INewCategory;
+    return response(await Category.createCategory(req.user.Id, body), 201);
+}, 'transactions:write'))
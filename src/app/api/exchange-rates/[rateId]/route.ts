@@ -0,0 +1,16 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { ExchangeRate } from "@/models/exchangeRates.model";
+import { response } from "@/utils/response.util";
+
+export const DELETE = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ rateId: string }>}
+) => {
+    const {rateId} = await params;
+    const numericRateId = parseInt(rateId);
+    if (isNaN(numericRateId)) {
+        throw new StatusError('Exchange rate ID must be a number', 400);
+    }
+    await ExchangeRate.deleteRate(req.user.Id, numericRateId);
+    return response({message: "Exchange rate deleted successfully"}, 200);
+}, 'transactions:write'));
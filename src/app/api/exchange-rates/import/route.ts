@@ -0,0 +1,19 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { ExchangeRate } from "@/models/exchangeRates.model";
+import { response } from "@/utils/response.util";
+
+// Accepts the CSV file either as a multipart form upload in the "file" field or as a text/csv body
+export const POST = withErrorHandling(withAuth(async (req) => {
+    let csv: string;
+    if (req.headers.get('content-type')?.startsWith('multipart/form-data')) {
+        const file = (await req.formData()).get('file');
+        if (!(file instanceof Blob)) {
+            throw new StatusError('file: A CSV file is required');
+        }
+        csv = await file.text();
+    } else {
+        csv = await req.text();
+    }
+    return response(await ExchangeRate.importRates(req.user.Id, csv), 201);
+}, 'transactions:write'));
@@ -0,0 +1,22 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { ExchangeRate, IExchangeRateFilters, INewExchangeRate } from "@/models/exchangeRates.model";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (req) => {
+    const url = new URL(req.url);
+    const filters: IExchangeRateFilters = {};
+
+    const baseCurrency = url.searchParams.get('baseCurrency');
+    if (baseCurrency) filters.baseCurrency = baseCurrency;
+
+    const quoteCurrency = url.searchParams.get('quoteCurrency');
+    if (quoteCurrency) filters.quoteCurrency = quoteCurrency;
+
+    return response(await ExchangeRate.getRates(req.user.Id, filters), 200);
+}, 'transactions:read'));
+
+export const POST = withErrorHandling(withAuth(async (req) => {
+    const body = await req.json() as INewExchangeRate;
+    return response(await ExchangeRate.setRate(req.user.Id, body), 201);
+}, 'transactions:write'));
@@ -18,4 +18,4 @@ export const PUT = withErrorHandling(withAuth(async (req,
     } else {
         return response({message: "Friend Request Rejected successfully"}, 200);
     }
-}));
\ No newline at end of file
+}, 'friends:write'));
\ No newline at end of file
@@ -5,10 +5,10 @@ import { response } from "@/utils/response.util";
 
 export const GET = withErrorHandling(withAuth(async (req)=>{
     return response(await Friend.getFriendRequests(req.user.Id), 200);
-}))
+}, 'friends:read'))
 
 export const POST = withErrorHandling(withAuth(async (req)=>{
     const body = await req.json() as IFriendRequestSend;
     await Friend.sendFriendRequest(req.user.Id, body)
     return response({message: "Friend request sent successfully"}, 201);
-}))
\ No newline at end of file
+}, 'friends:write'))
\ No newline at end of file
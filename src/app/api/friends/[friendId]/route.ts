@@ -1,6 +1,7 @@
 import { withAuth } from "@/middleware/auth.middleware";
 import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
 import { Friend } from "@/models/friends.model";
+import { getClientDevice } from "@/utils/request.util";
 import { response } from "@/utils/response.util";
 
 export const GET = withErrorHandling(withAuth(async (req,
@@ -13,7 +14,7 @@ export const GET = withErrorHandling(withAuth(async (req,
     }
     const friend = await Friend.getFriendAccounts(req.user.Id, numericFriendId);
     return response(friend, 200);
-}));
+}, 'friends:read'));
 
 export const DELETE = withErrorHandling(withAuth(async (req,
     {params}: { params: Promise<{ friendId: string }>}
@@ -23,7 +24,7 @@ export const DELETE = withErrorHandling(withAuth(async (req,
     if (isNaN(numericFriendId)) {
         throw new StatusError('Friend ID must be a number', 400);
     }
-    await Friend.removeFriend(req.user.Id, numericFriendId);
+    await Friend.removeFriend(req.user.Id, numericFriendId, getClientDevice(req));
     return response({message: "Friend Removed successfully"}, 200);
-}
+}, 'friends:write'
 ));
\ No newline at end of file
@@ -5,4 +5,4 @@ import { response } from "@/utils/response.util";
 
 export const GET = withErrorHandling(withAuth(async (req)=>{
     return response(await Friend.getFriends(req.user.Id), 200);
-}))
\ No newline at end of file
+}, 'friends:read'))
\ No newline at end of file
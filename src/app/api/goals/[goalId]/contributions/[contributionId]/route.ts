@@ -0,0 +1,20 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { Goal } from "@/models/goals.model";
+import { response } from "@/utils/response.util";
+
+export const DELETE = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ goalId: string, contributionId: string }>}
+)=>{
+    const {goalId, contributionId} = await params;
+    const numericGoalId = parseInt(goalId);
+    if (isNaN(numericGoalId)) {
+        throw new StatusError('Goal ID must be a number', 400);
+    }
+    const numericContributionId = parseInt(contributionId);
+    if (isNaN(numericContributionId)) {
+        throw new StatusError('Contribution ID must be a number', 400);
+    }
+    await Goal.deleteContribution(req.user.Id, numericGoalId, numericContributionId);
+    return response({message: "Contribution deleted successfully"}, 200);
+}, 'accounts:write'));
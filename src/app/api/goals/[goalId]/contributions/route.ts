@@ -0,0 +1,27 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { Goal, INewGoalContribution } from "@/models/goals.model";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ goalId: string }>}
+)=>{
+    const {goalId} = await params;
+    const numericGoalId = parseInt(goalId);
+    if (isNaN(numericGoalId)) {
+        throw new StatusError('Goal ID must be a number', 400);
+    }
+    return response(await Goal.getContributions(req.user.Id, numericGoalId), 200);
+}, 'accounts:read'));
+
+export const POST = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ goalId: string }>}
+)=>{
+    const {goalId} = await params;
+    const numericGoalId = parseInt(goalId);
+    if (isNaN(numericGoalId)) {
+        throw new StatusError('Goal ID must be a number', 400);
+    }
+    const body = await req.json() as INewGoalContribution;
+    return response(await Goal.addContribution(req.user.Id, numericGoalId, body), 201);
+}, 'accounts:write'));
@@ -0,0 +1,39 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { Goal, IEditGoal } from "@/models/goals.model";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ goalId: string }>}
+)=>{
+    const {goalId} = await params;
+    const numericGoalId = parseInt(goalId);
+    if (isNaN(numericGoalId)) {
+        throw new StatusError('Goal ID must be a number', 400);
+    }
+    return response(await Goal.getGoal(req.user.Id, numericGoalId), 200);
+}, 'accounts:read'));
+
+export const PUT = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ goalId: string }>}
+)=>{
+    const {goalId} = await params;
+    const numericGoalId = parseInt(goalId);
+    if (isNaN(numericGoalId)) {
+        throw new StatusError('Goal ID must be a number', 400);
+    }
+    const body = await req.json() as IEditGoal;
+    return response(await Goal.editGoal(req.user.Id, numericGoalId, body), 200);
+}, 'accounts:write'));
+
+export const DELETE = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ goalId: string }>}
+)=>{
+    const {goalId} = await params;
+    const numericGoalId = parseInt(goalId);
+    if (isNaN(numericGoalId)) {
+        throw new StatusError('Goal ID must be a number', 400);
+    }
+    await Goal.deleteGoal(req.user.Id, numericGoalId);
+    return response({message: "Goal deleted successfully"}, 200);
+}, 'accounts:write'));
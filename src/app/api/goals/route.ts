@@ -0,0 +1,13 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { Goal, INewGoal } from "@/models/goals.model";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (req)=>{
+    return response(await Goal.getGoals(req.user.Id), 200);
+}, 'accounts:read'))
+
+export const POST = withErrorHandling(withAuth(async (req)=>{
+    const body = await req.json() as INewGoal;
+    return response(await Goal.createGoal(req.user.Id, body), 201);
+}, 'accounts:write'))
@@ -0,0 +1,15 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { RecurringTransaction } from "@/models/recurringTransactions.model";
+import { response } from "@/utils/response.util";
+
+export const POST = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ recurringId: string }>}
+)=>{
+    const {recurringId} = await params;
+    const numericRecurringId = parseInt(recurringId);
+    if (isNaN(numericRecurringId)) {
+        throw new StatusError('Recurring transaction ID must be a number', 400);
+    }
+    return response(await RecurringTransaction.pauseRecurringTransaction(req.user.Id, numericRecurringId), 200);
+}, 'transactions:write'));
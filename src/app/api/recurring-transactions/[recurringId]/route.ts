@@ -0,0 +1,39 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { IEditRecurringTransaction, RecurringTransaction } from "@/models/recurringTransactions.model";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ recurringId: string }>}
+)=>{
+    const {recurringId} = await params;
+    const numericRecurringId = parseInt(recurringId);
+    if (isNaN(numericRecurringId)) {
+        throw new StatusError('Recurring transaction ID must be a number', 400);
+    }
+    return response(await RecurringTransaction.getRecurringTransaction(req.user.Id, numericRecurringId), 200);
+}, 'transactions:read'));
+
+export const PUT = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ recurringId: string }>}
+)=>{
+    const {recurringId} = await params;
+    const numericRecurringId = parseInt(recurringId);
+    if (isNaN(numericRecurringId)) {
+        throw new StatusError('Recurring transaction ID must be a number', 400);
+    }
+    const body = await req.json() as IEditRecurringTransaction;
+    return response(await RecurringTransaction.editRecurringTransaction(req.user.Id, numericRecurringId, body), 200);
+}, 'transactions:write'));
+
+export const DELETE = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ recurringId: string }>}
+)=>{
+    const {recurringId} = await params;
+    const numericRecurringId = parseInt(recurringId);
+    if (isNaN(numericRecurringId)) {
+        throw new StatusError('Recurring transaction ID must be a number', 400);
+    }
+    await RecurringTransaction.deleteRecurringTransaction(req.user.Id, numericRecurringId);
+    return response({message: "Recurring transaction deleted successfully"}, 200);
+}, 'transactions:write'));
@@ -0,0 +1,13 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { INewRecurringTransaction, RecurringTransaction } from "@/models/recurringTransactions.model";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (req)=>{
+    return response(await RecurringTransaction.getRecurringTransactions(req.user.Id), 200);
+}, 'transactions:read'))
+
+export const POST = withErrorHandling(withAuth(async (req)=>{
+    const body = await req.json() as INewRecurringTransaction;
+    return response(await RecurringTransaction.createRecurringTransaction(req.user.Id, body), 201);
+}, 'transactions:write'))
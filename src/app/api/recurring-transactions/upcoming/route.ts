@@ -0,0 +1,14 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { RecurringTransaction } from "@/models/recurringTransactions.model";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (req)=>{
+    const url = new URL(req.url);
+    const days = url.searchParams.get('days');
+    const numericDays = days ? parseInt(days) : undefined;
+    if (numericDays !== undefined && isNaN(numericDays)) {
+        throw new StatusError('Days must be a number', 400);
+    }
+    return response(await RecurringTransaction.getUpcoming(req.user.Id, numericDays), 200);
+}, 'transactions:read'));
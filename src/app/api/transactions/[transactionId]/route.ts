@@ -19,4 +19,4 @@ export const PUT = withErrorHandling(withAuth(async (req,
     return response(updatedTransaction ?? {
         message: "Transaction deleted successfully"
     }, 200);
-}));
\ No newline at end of file
+}, 'transactions:write'));
\ No newline at end of file
@@ -19,4 +19,4 @@ export const DELETE = withErrorHandling(withAuth(async (req,
     
     await Transaction.removeTransactionTag(req.user.Id, numericTransactionId, numericTagId);
     return response({message: "Tag removed successfully"}, 200);
-}));
\ No newline at end of file
+}, 'transactions:write'));
\ No newline at end of file
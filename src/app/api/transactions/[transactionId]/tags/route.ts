@@ -14,7 +14,7 @@ export const GET = withErrorHandling(withAuth(async (req,
     
     const tags = await Transaction.getTransactionTags(req.user.Id, numericTransactionId);
     return response(tags, 200);
-}));
+}, 'transactions:read'));
 
 export const POST = withErrorHandling(withAuth(async (req,
     {params}: { params: Promise<{ transactionId: string }>}
@@ -28,4 +28,4 @@ export const POST = withErrorHandling(withAuth(async (req,
     const body = await req.json() as INewTransactionTag;
     const tag = await Transaction.addTransactionTag(req.user.Id, numericTransactionId, body);
     return response(tag, 201);
-}));
\ No newline at end of file
+}, 'transactions:write'));
\ No newline at end of file
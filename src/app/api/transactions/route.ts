@@ -1,6 +1,8 @@
 import { withAuth } from "@/middleware/auth.middleware";
-import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { UserPreferences } from "@/models/preferences.model";
 import { Transaction, INewTransaction, ITransactionFilters } from "@/models/transactions.model";
+import { DatePeriod, datePeriods, getPeriodRange, parseDateFilter } from "@/utils/date.util";
 import { response } from "@/utils/response.util";
 
 export const GET = withErrorHandling(withAuth(async (req) => {
@@ -15,16 +17,29 @@ export const GET = withErrorHandling(withAuth(async (req) => {
     const limit = url.searchParams.get('limit');
     if (limit) filters.limit = parseInt(limit);
     
-    // Extract date range parameters
+    // Extract date range parameters, dates without a time are whole days in the user's time zone
+    const { timezone, weekStart } = await UserPreferences.get(req.user.Id);
+
+    const period = url.searchParams.get('period');
+    if (period) {
+        if (!datePeriods.includes(period as DatePeriod)) {
+            throw new StatusError(`period: Must be one of ${datePeriods.join(', ')}`);
+        }
+        Object.assign(filters, getPeriodRange(period as DatePeriod, timezone, weekStart));
+    }
+
     const startDate = url.searchParams.get('startDate');
-    if (startDate) filters.startDate = new Date(startDate);
+    if (startDate) filters.startDate = parseDateFilter(startDate, timezone);
     
     const endDate = url.searchParams.get('endDate');
-    if (endDate) filters.endDate = new Date(endDate);
+    if (endDate) filters.endDate = parseDateFilter(endDate, timezone, true);
     
     // Extract category filter
     const category = url.searchParams.get('category');
     if (category) filters.category = category;
+
+    const categoryId = url.searchParams.get('categoryId');
+    if (categoryId) filters.categoryId = parseInt(categoryId);
     
     // Extract tags filter (could be multiple)
     const tags = url.searchParams.getAll('tags');
@@ -35,10 +50,10 @@ export const GET = withErrorHandling(withAuth(async (req) => {
     if (accountId) filters.accountId = parseInt(accountId);
     
     return response(await Transaction.getUserTransactions(req.user.Id, filters), 200);
-}));
+}, 'transactions:read'));
 
 export const POST = withErrorHandling(withAuth(async (req) => {
     const body = await req.json() as INewTransaction;
     const transaction = await Transaction.createTransaction(req.user.Id, body);
     return response(transaction, 201);
-}));
\ No newline at end of file
+}, 'transactions:write'));
\ No newline at end of file
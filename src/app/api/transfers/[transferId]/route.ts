@@ -0,0 +1,27 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { StatusError, withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { Transfer } from "@/models/transfers.model";
+import { response } from "@/utils/response.util";
+
+export const GET = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ transferId: string }>}
+)=>{
+    const {transferId} = await params;
+    const numericTransferId = parseInt(transferId);
+    if (isNaN(numericTransferId)) {
+        throw new StatusError('Transfer ID must be a number', 400);
+    }
+    return response(await Transfer.getTransfer(req.user.Id, numericTransferId), 200);
+}, 'transactions:read'));
+
+export const DELETE = withErrorHandling(withAuth(async (req,
+    {params}: { params: Promise<{ transferId: string }>}
+)=>{
+    const {transferId} = await params;
+    const numericTransferId = parseInt(transferId);
+    if (isNaN(numericTransferId)) {
+        throw new StatusError('Transfer ID must be a number', 400);
+    }
+    await Transfer.deleteTransfer(req.user.Id, numericTransferId);
+    return response({message: "Transfer deleted successfully"}, 200);
+}, 'transactions:write'));
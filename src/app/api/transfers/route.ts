@@ -0,0 +1,9 @@
+import { withAuth } from "@/middleware/auth.middleware";
+import { withErrorHandling } from "@/middleware/errorHandler.middleware";
+import { INewTransfer, Transfer } from "@/models/transfers.model";
+import { response } from "@/utils/response.util";
+
+export const POST = withErrorHandling(withAuth(async (req)=>{
+    const body = await req.json() as INewTransfer;
+    return response(await Transfer.createTransfer(req.user.Id, body), 201);
+}, 'transactions:write'))
@@ -3,6 +3,7 @@
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import Navigation from '@/components/Navigation';
+import { authFetch, getAccountDetails } from '@/middleware/clientAuth.middleware';
 
 interface Friend {
   userId: number;
@@ -27,22 +28,19 @@ export default function FriendsPage() {
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
 
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (!token) {
-      router.push('/login');
-    } else {
-      fetchFriends();
-      fetchFriendRequests();
-    }
+    getAccountDetails().then((account) => {
+      if (!account) {
+        router.push('/login');
+      } else {
+        fetchFriends();
+        fetchFriendRequests();
+      }
+    });
   }, [router]);
 
   const fetchFriends = async () => {
     try {
-      const response = await fetch('/api/friends', {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
+      const response = await authFetch('/api/friends');
       if (response.ok) {
         const data = await response.json();
         setFriends(data);
@@ -56,11 +54,7 @@ export default function FriendsPage() {
 
   const fetchFriendRequests = async () => {
     try {
-      const response = await fetch('/api/friend-requests', {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
+      const response = await authFetch('/api/friend-requests');
       if (response.ok) {
         const data = await response.json();
         setFriendRequests(data);
@@ -75,11 +69,10 @@ export default function FriendsPage() {
     setSuccessMessage('');
 
     try {
-      const response = await fetch('/api/friend-requests', {
+      const response = await authFetch('/api/friend-requests', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
         },
         body: JSON.stringify({ friendIdentifier: newFriendIdentifier })
       });
@@ -98,11 +91,10 @@ export default function FriendsPage() {
 
   const handleFriendRequest = async (userId: number, action: 'accept' | 'reject') => {
     try {
-      const response = await fetch(`/api/friend-requests/${userId}`, {
+      const response = await authFetch(`/api/friend-requests/${userId}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
         },
         body: JSON.stringify({ action })
       });
@@ -120,11 +112,8 @@ export default function FriendsPage() {
 
   const handleUnfriend = async (friend: Friend) => {
     try {
-      const response = await fetch(`/api/friends/${friend.userId}`, {
+      const response = await authFetch(`/api/friends/${friend.userId}`, {
         method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
       });
 
       if (response.ok) {
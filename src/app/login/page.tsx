@@ -3,7 +3,7 @@
 import { FormEvent, useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
-import { getAccountDetails } from "@/middleware/clientAuth.middleware";
+import { cookieSessionHeaders, getAccountDetails } from "@/middleware/clientAuth.middleware";
 
 export default function LoginPage() {
   const router = useRouter();
@@ -11,9 +11,16 @@ export default function LoginPage() {
     usernameOrEmail: "",
     password: "",
   });
+  const [mfaToken, setMfaToken] = useState("");
+  const [mfaCode, setMfaCode] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
 
+  const redirectToDashboard = () => {
+    // The session cookies are set by the server, force navigation to dashboard
+    window.location.href = "/";
+  };
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -24,6 +31,7 @@ export default function LoginPage() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...cookieSessionHeaders,
         },
         body: JSON.stringify(formData),
       });
@@ -34,12 +42,12 @@ export default function LoginPage() {
         throw new Error(data.error || "Invalid credentials");
       }
 
-      // Store tokens
-      localStorage.setItem("token", data.token);
-      localStorage.setItem("refreshToken", data.refreshToken);
+      if (data.mfaRequired) {
+        setMfaToken(data.mfaToken);
+        return;
+      }
 
-      // Force navigation to dashboard
-      window.location.href = "/";
+      redirectToDashboard();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Invalid credentials");
     } finally {
@@ -47,6 +55,39 @@ export default function LoginPage() {
     }
   };
 
+  const handleMfaSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/auth/login/mfa", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...cookieSessionHeaders,
+        },
+        body: JSON.stringify({ mfaToken, code: mfaCode }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (response.status === 401 && data.error?.includes("log in again")) {
+          setMfaToken("");
+          setMfaCode("");
+        }
+        throw new Error(data.error || "Invalid authentication code");
+      }
+
+      redirectToDashboard();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid authentication code");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   useEffect(() => {
     // Check if already logged in
     getAccountDetails().then((account) => {
@@ -69,64 +110,109 @@ export default function LoginPage() {
             </p>
           </div>
 
-          <form onSubmit={handleSubmit} className="space-y-4">
-            {error && (
-              <div className="bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 text-sm p-3 rounded">
-                {error}
+          {mfaToken ? (
+            <form onSubmit={handleMfaSubmit} className="space-y-4">
+              {error && (
+                <div className="bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 text-sm p-3 rounded">
+                  {error}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <label
+                  htmlFor="mfaCode"
+                  className="text-sm font-medium text-gray-700 dark:text-gray-200"
+                >
+                  Authentication Code
+                </label>
+                <input
+                  id="mfaCode"
+                  type="text"
+                  autoComplete="one-time-code"
+                  required
+                  placeholder="6-digit code or recovery code"
+                  className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  value={mfaCode}
+                  onChange={(e) => setMfaCode(e.target.value)}
+                />
               </div>
-            )}
 
-            <div className="space-y-2">
-              <label
-                htmlFor="usernameOrEmail"
-                className="text-sm font-medium text-gray-700 dark:text-gray-200"
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium p-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
-                Username or Email
-              </label>
-              <input
-                id="usernameOrEmail"
-                type="text"
-                required
-                className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                value={formData.usernameOrEmail}
-                onChange={(e) =>
-                  setFormData((prev) => ({
-                    ...prev,
-                    usernameOrEmail: e.target.value,
-                  }))
-                }
-              />
-            </div>
+                {isLoading ? "Verifying..." : "Verify"}
+              </button>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 text-sm p-3 rounded">
+                  {error}
+                </div>
+              )}
 
-            <div className="space-y-2">
-              <label
-                htmlFor="password"
-                className="text-sm font-medium text-gray-700 dark:text-gray-200"
-              >
-                Password
-              </label>
-              <input
-                id="password"
-                type="password"
-                required
-                className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                value={formData.password}
-                onChange={(e) =>
-                  setFormData((prev) => ({ ...prev, password: e.target.value }))
-                }
-              />
-            </div>
+              <div className="space-y-2">
+                <label
+                  htmlFor="usernameOrEmail"
+                  className="text-sm font-medium text-gray-700 dark:text-gray-200"
+                >
+                  Username or Email
+                </label>
+                <input
+                  id="usernameOrEmail"
+                  type="text"
+                  required
+                  className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  value={formData.usernameOrEmail}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      usernameOrEmail: e.target.value,
+                    }))
+                  }
+                />
+              </div>
 
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium p-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              {isLoading ? "Signing in..." : "Sign in"}
-            </button>
-          </form>
+              <div className="space-y-2">
+                <label
+                  htmlFor="password"
+                  className="text-sm font-medium text-gray-700 dark:text-gray-200"
+                >
+                  Password
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  required
+                  className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  value={formData.password}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, password: e.target.value }))
+                  }
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium p-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isLoading ? "Signing in..." : "Sign in"}
+              </button>
+            </form>
+          )}
 
           <div className="space-y-4 text-center text-sm">
+            <div>
+              <Link
+                href="/forgot-password"
+                className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                Forgot your password?
+              </Link>
+            </div>
             <div className="text-gray-500 dark:text-gray-400">
               Don&apos;t have an account?{" "}
               <Link
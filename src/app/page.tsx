@@ -8,11 +8,36 @@ import {
   faPlus,
   faPenToSquare,
   faTrash,
+  faScaleBalanced,
+  faBoxArchive,
+  faBoxOpen,
+  faUserGroup,
+  faRightFromBracket,
+  faBullseye,
+  faCoins,
+  faRepeat,
+  faForward,
   faChevronUp,
   faChevronDown,
 } from "@fortawesome/free-solid-svg-icons";
 import { IAccount } from "@/models/accounts.model";
-import { getAccountDetails } from "@/middleware/clientAuth.middleware";
+import { authFetch, getAccountDetails, getPreferences } from "@/middleware/clientAuth.middleware";
+import { IUserPreferences } from "@/models/preferences.model";
+import { defaultPreferences, formatAmount, formatDate, formatDateTime } from "@/utils/format.util";
+import {
+  accountMemberRoles,
+  accountRoleLabels,
+  AccountType,
+  accountTypeLabels,
+  accountTypes,
+  interestAccountTypes,
+  isLiabilityAccount,
+} from "@/utils/accountTypes.util";
+import { INetWorth } from "@/models/accounts.model";
+import { IAccountMember } from "@/models/accountMembers.model";
+import { IGoal } from "@/models/goals.model";
+import { IUpcomingOccurrence } from "@/models/recurringTransactions.model";
+import { IFriend } from "@/models/friends.model";
 import SweetAlert from "sweetalert2";
 import {
   ITransaction,
@@ -20,19 +45,35 @@ import {
   ITransactionTag,
 } from "@/models/transactions.model";
 
-type APIAccount = Omit<IAccount, "CreatedOn" | "Balance"> & {
+type APIAccount = Omit<IAccount, "CreatedOn" | "ArchivedOn" | "Balance" | "OpeningBalance"> & {
   CreatedOn: string;
+  ArchivedOn: string | null;
   Balance: number | null;
+  OpeningBalance: number | null;
+};
+
+type AccountFormValues = {
+  name: string;
+  type: AccountType;
+  currency?: string;
+  creditLimit: number | null;
+  statementDay: number | null;
+  interestRate: number | null;
 };
 
 type APITags = Omit<ITransactionTag, "createdOn"> & {
   createdOn: string;
 };
+type APIGoal = Omit<IGoal, "createdOn"> & {
+  createdOn: string;
+};
+
 type APIAmount = Omit<ITransactionAmount, "createdOn"> & {
   createdOn: string;
 };
 
-type APITransaction = Omit<ITransaction, "createdOn" | "amounts" | "tags"> & {
+type APITransaction = Omit<ITransaction, "occurredOn" | "createdOn" | "amounts" | "tags"> & {
+  occurredOn: string;
   createdOn: string;
   amounts: APIAmount[];
   tags?: APITags[];
@@ -41,9 +82,19 @@ export default function Home() {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(true);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
   const [accounts, setAccounts] = useState<APIAccount[]>([]); // State to hold account data
   const [error, setError] = useState<string | null>(null);
-  const [balance, setBalance] = useState(0);
+  const [netWorth, setNetWorth] = useState<INetWorth>({
+    currency: defaultPreferences.currency,
+    assets: 0,
+    liabilities: 0,
+    netWorth: 0,
+    missingRates: [],
+    sharedAccounts: [],
+  });
+  const [goals, setGoals] = useState<APIGoal[]>([]);
+  const [upcoming, setUpcoming] = useState<IUpcomingOccurrence[]>([]);
   const [transactionSettings, setTransactionSettings] = useState<{
     limit: number;
     page: number;
@@ -57,41 +108,86 @@ export default function Home() {
   const [accountNames, setAccountNames] = useState<{ [key: number]: string }>({});
   const [accountOwners, setAccountOwners] = useState<{[key: number]: number;}>({});
   const [userNames, setUserNames] = useState<{ [key: number]: string }>({});
+  const [preferences, setPreferences] = useState<IUserPreferences>(defaultPreferences);
 
-  async function addAccountClicked() {
-    const result = await SweetAlert.fire({
+  function showAccountForm(title: string, confirmButtonText: string, account?: APIAccount) {
+    const numberOrNull = (id: string) => {
+      const value = (document.getElementById(id) as HTMLInputElement).value;
+      return value === "" ? null : Number(value);
+    };
+    return SweetAlert.fire<AccountFormValues>({
       theme: "dark",
-      title: "Add Account",
-      input: "text",
-      inputLabel: "Account Name",
-      inputPlaceholder: "Enter account name",
+      title,
+      html: `
+        <input id="account-name" class="swal2-input" placeholder="Account name">
+        ${account ? "" : `<input id="account-currency" class="swal2-input" maxlength="3" placeholder="Currency, e.g. ${preferences.currency}">`}
+        <select id="account-type" class="swal2-select">
+          ${accountTypes.map((type) => `<option value="${type}">${accountTypeLabels[type]}</option>`).join("")}
+        </select>
+        <input id="account-credit-limit" class="swal2-input" type="number" min="0" step="0.01" placeholder="Credit limit">
+        <input id="account-statement-day" class="swal2-input" type="number" min="1" max="31" placeholder="Statement day (1-31)">
+        <input id="account-interest-rate" class="swal2-input" type="number" min="0" max="100" step="0.01" placeholder="Interest rate (APR %)">
+      `,
+      focusConfirm: false,
       showCancelButton: true,
-      confirmButtonText: "Add",
+      confirmButtonText,
       cancelButtonText: "Cancel",
-      preConfirm: (accountName) => {
-        if (!accountName) {
+      didOpen: () => {
+        const typeSelect = document.getElementById("account-type") as HTMLSelectElement;
+        const showTypeFields = () => {
+          const type = typeSelect.value as AccountType;
+          document.getElementById("account-credit-limit")!.hidden = type !== "credit_card";
+          document.getElementById("account-statement-day")!.hidden = type !== "credit_card";
+          document.getElementById("account-interest-rate")!.hidden = !interestAccountTypes.includes(type);
+        };
+        (document.getElementById("account-name") as HTMLInputElement).value = account?.Name ?? "";
+        if (!account) {
+          (document.getElementById("account-currency") as HTMLInputElement).value = preferences.currency;
+        }
+        typeSelect.value = account?.Type ?? "cash";
+        (document.getElementById("account-credit-limit") as HTMLInputElement).value = account?.CreditLimit?.toString() ?? "";
+        (document.getElementById("account-statement-day") as HTMLInputElement).value = account?.StatementDay?.toString() ?? "";
+        (document.getElementById("account-interest-rate") as HTMLInputElement).value = account?.InterestRate?.toString() ?? "";
+        typeSelect.addEventListener("change", showTypeFields);
+        showTypeFields();
+      },
+      preConfirm: () => {
+        const name = (document.getElementById("account-name") as HTMLInputElement).value;
+        const type = (document.getElementById("account-type") as HTMLSelectElement).value as AccountType;
+        if (!name) {
           SweetAlert.showValidationMessage("Please enter an account name");
+          return false;
         }
-        return accountName;
+        return {
+          name,
+          type,
+          currency: account
+            ? undefined
+            : (document.getElementById("account-currency") as HTMLInputElement).value.toUpperCase() || undefined,
+          creditLimit: type === "credit_card" ? numberOrNull("account-credit-limit") : null,
+          statementDay: type === "credit_card" ? numberOrNull("account-statement-day") : null,
+          interestRate: interestAccountTypes.includes(type) ? numberOrNull("account-interest-rate") : null,
+        };
       },
     });
-    if (result.isConfirmed) {
-      const accountName = result.value;
+  }
+
+  async function addAccountClicked() {
+    const result = await showAccountForm("Add Account", "Add");
+    if (result.isConfirmed && result.value) {
+      const accountName = result.value.name;
       const account = await getAccountDetails();
       if (!account) {
         router.push("/login");
         return;
       }
-      const token = localStorage.getItem("token");
-
-      const response = await fetch("/api/accounts", {
+      const response = await authFetch("/api/accounts", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify({
-          name: accountName,
+          ...result.value,
           initialBalance: 0,
         }),
       });
@@ -103,6 +199,7 @@ export default function Home() {
       } else {
         const newAccount = await response.json();
         setAccounts((prevAccounts) => [newAccount, ...prevAccounts]);
+        await fetchNetWorth();
         setAccountNames((prevNames) => ({
           ...prevNames,
           [newAccount.Id]: newAccount.Name,
@@ -148,13 +245,8 @@ export default function Home() {
       router.push("/login");
       return;
     }
-    const token = localStorage.getItem("token");
-
-    const response = await fetch(`/api/accounts/${account.Id}`, {
+    const response = await authFetch(`/api/accounts/${account.Id}`, {
       method: "DELETE",
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
     });
 
     if (!response.ok) {
@@ -173,28 +265,13 @@ export default function Home() {
       setAccounts((prevAccounts) =>
         prevAccounts.filter((thisAccount) => thisAccount.Id !== account.Id)
       );
+      await fetchNetWorth();
     }
   }
 
   async function editAccountClicked(account: APIAccount) {
-    const result = await SweetAlert.fire({
-      theme: "dark",
-      title: "Edit Account",
-      input: "text",
-      inputLabel: "Account Name",
-      inputValue: account.Name,
-      inputPlaceholder: "Enter new account name",
-      showCancelButton: true,
-      confirmButtonText: "Save",
-      cancelButtonText: "Cancel",
-      preConfirm: (accountName) => {
-        if (!accountName) {
-          SweetAlert.showValidationMessage("Please enter an account name");
-        }
-        return accountName;
-      },
-    });
-    if (!result.isConfirmed) {
+    const result = await showAccountForm("Edit Account", "Save", account);
+    if (!result.isConfirmed || !result.value) {
       return; // User canceled the edit
     }
 
@@ -209,23 +286,18 @@ export default function Home() {
       allowOutsideClick: () => !SweetAlert.isLoading(),
     });
 
-    const accountName = result.value;
+    const accountName = result.value.name;
     const acc = await getAccountDetails();
     if (!acc) {
       router.push("/login");
       return;
     }
-    const token = localStorage.getItem("token");
-
-    const response = await fetch(`/api/accounts/${account.Id}`, {
+    const response = await authFetch(`/api/accounts/${account.Id}`, {
       method: "PUT",
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`,
       },
-      body: JSON.stringify({
-        name: accountName,
-      }),
+      body: JSON.stringify(result.value),
     });
     if (!response.ok) {
       const errorData = await response.json();
@@ -244,6 +316,7 @@ export default function Home() {
           thisAccount.Id === updatedAccount.Id ? updatedAccount : thisAccount
         )
       );
+      await fetchNetWorth();
       setAccountNames((prevNames) => ({
         ...prevNames,
         [updatedAccount.Id]: updatedAccount.Name,
@@ -257,6 +330,458 @@ export default function Home() {
     }
   }
 
+  async function archiveAccountClicked(account: APIAccount, archive: boolean) {
+    const action = archive ? "archive" : "restore";
+    const acc = await getAccountDetails();
+    if (!acc) {
+      router.push("/login");
+      return;
+    }
+    const response = await authFetch(`/api/accounts/${account.Id}/${action}`, {
+      method: "POST",
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      SweetAlert.fire({
+        theme: "dark",
+        icon: "error",
+        title: "Error",
+        text: `Failed to ${action} account: ${
+          errorData.message || response.statusText
+        }`,
+      });
+    } else {
+      const updatedAccount = await response.json();
+      setAccounts((prevAccounts) =>
+        prevAccounts.map((thisAccount) =>
+          thisAccount.Id === updatedAccount.Id ? updatedAccount : thisAccount
+        )
+      );
+      SweetAlert.fire({
+        theme: "dark",
+        icon: "success",
+        title: archive ? "Account Archived" : "Account Restored",
+        text: archive
+          ? `Account "${account.Name}" is hidden from your accounts but stays in your history.`
+          : `Account "${account.Name}" can be used again.`,
+      });
+    }
+  }
+
+  async function reconcileAccountClicked(account: APIAccount) {
+    const result = await SweetAlert.fire({
+      theme: "dark",
+      title: "Reconcile Account",
+      text: `Enter the balance your statement shows for "${account.Name}" in ${account.Currency}. The difference is recorded as a balance adjustment.`,
+      input: "number",
+      inputValue: account.Balance ?? 0,
+      inputAttributes: { step: "0.01" },
+      showCancelButton: true,
+      confirmButtonText: "Reconcile",
+      cancelButtonText: "Cancel",
+      reverseButtons: true,
+      inputValidator: (value) =>
+        value === "" || isNaN(Number(value)) ? "Enter the statement balance" : null,
+    });
+    if (!result.isConfirmed) {
+      return; // User canceled the reconciliation
+    }
+
+    const acc = await getAccountDetails();
+    if (!acc) {
+      router.push("/login");
+      return;
+    }
+    const response = await authFetch(`/api/accounts/${account.Id}/reconcile`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ statementBalance: Number(result.value) }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      SweetAlert.fire({
+        theme: "dark",
+        icon: "error",
+        title: "Error",
+        text: `Failed to reconcile account: ${
+          errorData.message || response.statusText
+        }`,
+      });
+    } else {
+      const reconciliation = await response.json();
+      setAccounts((prevAccounts) =>
+        prevAccounts.map((thisAccount) =>
+          thisAccount.Id === reconciliation.account.Id ? reconciliation.account : thisAccount
+        )
+      );
+      await fetchNetWorth();
+      if (reconciliation.adjustment) {
+        await fetchTransactions();
+      }
+      SweetAlert.fire({
+        theme: "dark",
+        icon: "success",
+        title: "Account Reconciled",
+        text: reconciliation.adjustment
+          ? `An adjustment of ${formatAmount(reconciliation.adjustment.amounts[0].amountPaid, preferences, account.Currency)} has been recorded.`
+          : "The balance already matches the statement.",
+      });
+    }
+  }
+
+  async function membersClicked(account: APIAccount) {
+    const acc = await getAccountDetails();
+    if (!acc) {
+      router.push("/login");
+      return;
+    }
+    const membersResponse = await authFetch(`/api/accounts/${account.Id}/members`);
+    if (!membersResponse.ok) {
+      const errorData = await membersResponse.json();
+      SweetAlert.fire({
+        theme: "dark",
+        icon: "error",
+        title: "Error",
+        text: `Failed to load members: ${
+          errorData.message || membersResponse.statusText
+        }`,
+      });
+      return;
+    }
+    const members: IAccountMember[] = await membersResponse.json();
+    const memberList = members
+      .map((member) => `<li>${member.username} · ${accountRoleLabels[member.role]}</li>`)
+      .join("");
+
+    if (account.Role !== "owner") {
+      SweetAlert.fire({
+        theme: "dark",
+        title: `Members of "${account.Name}"`,
+        html: `<ul>${memberList}</ul>`,
+      });
+      return;
+    }
+
+    // The owner picks a friend and gives them a role, or takes their access away
+    const friendsResponse = await authFetch("/api/friends");
+    const friends: IFriend[] = friendsResponse.ok ? await friendsResponse.json() : [];
+    const result = await SweetAlert.fire<{ userId: number; role: string }>({
+      theme: "dark",
+      title: `Members of "${account.Name}"`,
+      html: `
+        <ul>${memberList}</ul>
+        <select id="member-friend" class="swal2-select">
+          ${friends.map((friend) => `<option value="${friend.userId}">${friend.username}</option>`).join("")}
+        </select>
+        <select id="member-role" class="swal2-select">
+          ${accountMemberRoles.map((role) => `<option value="${role}">${accountRoleLabels[role]}</option>`).join("")}
+          <option value="remove">Remove access</option>
+        </select>
+      `,
+      focusConfirm: false,
+      showCancelButton: true,
+      confirmButtonText: "Save",
+      cancelButtonText: "Close",
+      preConfirm: () => {
+        const userId = Number((document.getElementById("member-friend") as HTMLSelectElement).value);
+        if (!userId) {
+          SweetAlert.showValidationMessage("Add a friend first to share the account with them");
+          return false;
+        }
+        return {
+          userId,
+          role: (document.getElementById("member-role") as HTMLSelectElement).value,
+        };
+      },
+    });
+    if (!result.isConfirmed || !result.value) {
+      return;
+    }
+
+    const { userId, role } = result.value;
+    const isMember = members.some((member) => member.userId === userId);
+    let response: Response;
+    if (role === "remove") {
+      response = await authFetch(`/api/accounts/${account.Id}/members/${userId}`, {
+        method: "DELETE",
+      });
+    } else {
+      response = await authFetch(
+        isMember ? `/api/accounts/${account.Id}/members/${userId}` : `/api/accounts/${account.Id}/members`,
+        {
+          method: isMember ? "PUT" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(isMember ? { role } : { userId, role }),
+        }
+      );
+    }
+    if (!response.ok) {
+      const errorData = await response.json();
+      SweetAlert.fire({
+        theme: "dark",
+        icon: "error",
+        title: "Error",
+        text: `Failed to update members: ${
+          errorData.message || response.statusText
+        }`,
+      });
+    } else {
+      SweetAlert.fire({
+        theme: "dark",
+        icon: "success",
+        title: "Members Updated",
+        text: `The members of "${account.Name}" have been updated.`,
+      });
+    }
+  }
+
+  async function leaveAccountClicked(account: APIAccount) {
+    const result = await SweetAlert.fire({
+      theme: "dark",
+      title: "Leave Account",
+      text: `Are you sure you want to leave the account "${account.Name}"? Its owner can share it with you again.`,
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonText: "Leave",
+      cancelButtonText: "Cancel",
+      reverseButtons: true,
+    });
+    if (!result.isConfirmed) {
+      return; // User canceled leaving the account
+    }
+
+    const acc = await getAccountDetails();
+    if (!acc) {
+      router.push("/login");
+      return;
+    }
+    const response = await authFetch(`/api/accounts/${account.Id}/members/${acc.userId}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      SweetAlert.fire({
+        theme: "dark",
+        icon: "error",
+        title: "Error",
+        text: `Failed to leave account: ${
+          errorData.message || response.statusText
+        }`,
+      });
+    } else {
+      setAccounts((prevAccounts) =>
+        prevAccounts.filter((thisAccount) => thisAccount.Id !== account.Id)
+      );
+      await fetchNetWorth();
+      await fetchTransactions();
+      SweetAlert.fire({
+        theme: "dark",
+        icon: "success",
+        title: "Account Left",
+        text: `You are no longer a member of "${account.Name}".`,
+      });
+    }
+  }
+
+  async function addGoalClicked() {
+    const goalAccounts = accounts.filter((account) => !account.ArchivedOn);
+    const result = await SweetAlert.fire<{
+      name: string;
+      targetAmount: number;
+      currency: string;
+      deadline?: string;
+      accountIds: number[];
+    }>({
+      theme: "dark",
+      title: "Add Goal",
+      html: `
+        <input id="goal-name" class="swal2-input" placeholder="What are you saving for?">
+        <input id="goal-target" class="swal2-input" type="number" min="0" step="0.01" placeholder="Target amount">
+        <input id="goal-currency" class="swal2-input" maxlength="3" value="${preferences.currency}" placeholder="Currency, e.g. ${preferences.currency}">
+        <input id="goal-deadline" class="swal2-input" type="date" title="Deadline (optional)">
+        <select id="goal-accounts" class="swal2-select" multiple title="Accounts saved in (optional)">
+          ${goalAccounts.map((account) => `<option value="${account.Id}">${account.Name}</option>`).join("")}
+        </select>
+      `,
+      focusConfirm: false,
+      showCancelButton: true,
+      confirmButtonText: "Add",
+      cancelButtonText: "Cancel",
+      preConfirm: () => {
+        const name = (document.getElementById("goal-name") as HTMLInputElement).value;
+        const targetAmount = Number((document.getElementById("goal-target") as HTMLInputElement).value);
+        if (!name) {
+          SweetAlert.showValidationMessage("Please enter a goal name");
+          return false;
+        }
+        if (!(targetAmount > 0)) {
+          SweetAlert.showValidationMessage("Please enter a target amount");
+          return false;
+        }
+        return {
+          name,
+          targetAmount,
+          currency: (document.getElementById("goal-currency") as HTMLInputElement).value.toUpperCase(),
+          deadline: (document.getElementById("goal-deadline") as HTMLInputElement).value || undefined,
+          accountIds: Array.from((document.getElementById("goal-accounts") as HTMLSelectElement).selectedOptions)
+            .map((option) => Number(option.value)),
+        };
+      },
+    });
+    if (!result.isConfirmed || !result.value) {
+      return; // User canceled adding the goal
+    }
+
+    const acc = await getAccountDetails();
+    if (!acc) {
+      router.push("/login");
+      return;
+    }
+    const response = await authFetch("/api/goals", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(result.value),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      SweetAlert.fire({
+        theme: "dark",
+        icon: "error",
+        title: "Error",
+        text: `Failed to add goal: ${errorData.message || response.statusText}`,
+      });
+    } else {
+      await fetchGoals();
+      SweetAlert.fire({
+        theme: "dark",
+        icon: "success",
+        title: "Goal Added",
+        text: `Goal "${result.value.name}" has been added successfully.`,
+      });
+    }
+  }
+
+  async function contributeToGoalClicked(goal: APIGoal) {
+    const result = await SweetAlert.fire({
+      theme: "dark",
+      title: "Add Contribution",
+      text: `How much did you put towards "${goal.name}" in ${goal.currency}? Use a negative amount to take money out.`,
+      input: "number",
+      inputAttributes: { step: "0.01" },
+      showCancelButton: true,
+      confirmButtonText: "Add",
+      cancelButtonText: "Cancel",
+      reverseButtons: true,
+      inputValidator: (value) =>
+        value === "" || isNaN(Number(value)) || Number(value) === 0 ? "Enter an amount" : null,
+    });
+    if (!result.isConfirmed) {
+      return; // User canceled the contribution
+    }
+
+    const acc = await getAccountDetails();
+    if (!acc) {
+      router.push("/login");
+      return;
+    }
+    const response = await authFetch(`/api/goals/${goal.id}/contributions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ amount: Number(result.value) }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      SweetAlert.fire({
+        theme: "dark",
+        icon: "error",
+        title: "Error",
+        text: `Failed to add contribution: ${errorData.message || response.statusText}`,
+      });
+    } else {
+      await fetchGoals();
+    }
+  }
+
+  async function deleteGoalClicked(goal: APIGoal) {
+    const result = await SweetAlert.fire({
+      theme: "dark",
+      title: "Delete Goal",
+      text: `Are you sure you want to delete the goal "${goal.name}"? Its accounts are not touched.`,
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonText: "Delete",
+      cancelButtonText: "Cancel",
+      reverseButtons: true,
+    });
+    if (!result.isConfirmed) {
+      return; // User canceled the deletion
+    }
+
+    const acc = await getAccountDetails();
+    if (!acc) {
+      router.push("/login");
+      return;
+    }
+    const response = await authFetch(`/api/goals/${goal.id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      SweetAlert.fire({
+        theme: "dark",
+        icon: "error",
+        title: "Error",
+        text: `Failed to delete goal: ${errorData.message || response.statusText}`,
+      });
+    } else {
+      setGoals((prevGoals) => prevGoals.filter((thisGoal) => thisGoal.id !== goal.id));
+    }
+  }
+
+  async function skipOccurrenceClicked(occurrence: IUpcomingOccurrence) {
+    const result = await SweetAlert.fire({
+      theme: "dark",
+      title: "Skip Occurrence",
+      text: `Skip "${occurrence.description}" on ${formatDate(occurrence.occursOn, preferences)}? It will not be posted.`,
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonText: "Skip",
+      cancelButtonText: "Cancel",
+      reverseButtons: true,
+    });
+    if (!result.isConfirmed) {
+      return;
+    }
+
+    const acc = await getAccountDetails();
+    if (!acc) {
+      router.push("/login");
+      return;
+    }
+    const response = await authFetch(`/api/recurring-transactions/${occurrence.recurringTransactionId}/skip`, {
+      method: "POST",
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      SweetAlert.fire({
+        theme: "dark",
+        icon: "error",
+        title: "Error",
+        text: `Failed to skip occurrence: ${errorData.message || response.statusText}`,
+      });
+    } else {
+      await fetchUpcoming();
+    }
+  }
+
   async function deleteTransaction(transaction: APITransaction) {
     const result = await SweetAlert.fire({
       theme: "dark",
@@ -283,13 +808,8 @@ export default function Home() {
       allowOutsideClick: () => !SweetAlert.isLoading(),
     });
 
-    const token = localStorage.getItem("token");
-
-    const response = await fetch(`/api/transactions/${transaction.id}`, {
+    const response = await authFetch(`/api/transactions/${transaction.id}`, {
       method: "PUT",
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
       body: JSON.stringify({
         amounts: []
       })
@@ -323,6 +843,27 @@ export default function Home() {
     }));
   }
 
+  const fetchNetWorth = useCallback(async () => {
+    const response = await authFetch("/api/accounts/net-worth");
+    if (response.ok) {
+      setNetWorth(await response.json());
+    }
+  }, []);
+
+  const fetchGoals = useCallback(async () => {
+    const response = await authFetch("/api/goals");
+    if (response.ok) {
+      setGoals(await response.json());
+    }
+  }, []);
+
+  const fetchUpcoming = useCallback(async () => {
+    const response = await authFetch("/api/recurring-transactions/upcoming?days=30");
+    if (response.ok) {
+      setUpcoming(await response.json());
+    }
+  }, []);
+
   const fetchTransactions = useCallback(async () => {
     SweetAlert.fire({
       theme: "dark",
@@ -334,16 +875,7 @@ export default function Home() {
       },
       allowOutsideClick: () => !SweetAlert.isLoading(),
     });
-    const token = localStorage.getItem("token");
-
-    const response = await fetch(
-      `/api/transactions?limit=${transactionSettings.limit}&page=${transactionSettings.page}`,
-      {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      }
-    );
+    const response = await authFetch(`/api/transactions?limit=${transactionSettings.limit}&page=${transactionSettings.page}`);
     SweetAlert.close();
     if (!response.ok) {
       const errorData = await response.json();
@@ -367,14 +899,7 @@ export default function Home() {
       for (const transaction of transactionsData.transactions) {
         for (const amount of transaction.amounts) {
           if (amount.accountId && !accountNames[amount.accountId]) {
-            const accountResponse = await fetch(
-              `/api/accounts/${amount.accountId}`,
-              {
-                headers: {
-                  Authorization: `Bearer ${token}`,
-                },
-              }
-            );
+            const accountResponse = await authFetch(`/api/accounts/${amount.accountId}`);
             if (accountResponse.ok) {
               const accountData: APIAccount = await accountResponse.json();
               setAccountNames((prevNames) => ({
@@ -387,14 +912,7 @@ export default function Home() {
                   [accountData.Id]: accountData.UserId,
                 }));
                 if (!userNames[accountData.UserId]) {
-                  const userResponse = await fetch(
-                    `/api/friends/${accountData.UserId}`,
-                    {
-                      headers: {
-                        Authorization: `Bearer ${token}`,
-                      },
-                    }
-                  );
+                  const userResponse = await authFetch(`/api/friends/${accountData.UserId}`);
                   if (userResponse.ok) {
                     const userData: {
                       userId: number,
@@ -424,14 +942,10 @@ export default function Home() {
           router.push("/login");
           return;
         }
-        const token = localStorage.getItem("token");
-
+        setPreferences(await getPreferences());
         // Fetch accounts data
-        const response = await fetch("/api/accounts", {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
+        // Archived accounts are fetched too so their names show up in the transaction history
+        const response = await authFetch("/api/accounts?includeArchived=true");
 
         if (!response.ok) {
           const errorData = await response.json();
@@ -447,20 +961,26 @@ export default function Home() {
           const accountNamesMap: { [key: number]: string } = accountNames;
           const userNamesMap: { [key: number]: string } = userNames;
           const accountOwnersMap: { [key: number]: number } = accountOwners;
-          let balance = 0;
           let userId: number | null = null;
-          accountsData.forEach((account: APIAccount) => {
+          for (const account of accountsData as APIAccount[]) {
             accountNamesMap[account.Id] = account.Name;
-            userNamesMap[account.UserId] = acc.userName;
             accountOwnersMap[account.Id] = account.UserId;
-            if (account.Balance !== null && account.Balance !== undefined) {
-              balance += account.Balance;
+            if (account.Role === "owner") {
+              userNamesMap[account.UserId] = acc.userName;
+            } else if (!userNamesMap[account.UserId]) {
+              // Accounts shared with the user belong to one of their friends
+              const userResponse = await authFetch(`/api/friends/${account.UserId}`);
+              if (userResponse.ok) {
+                userNamesMap[account.UserId] = (await userResponse.json()).username;
+              }
             }
             if (account.UserId !== userId) {
               userId = account.UserId;
             }
-          });
-          setBalance(balance);
+          }
+          await fetchNetWorth();
+          await fetchGoals();
+          await fetchUpcoming();
           setAccountNames(accountNamesMap);
           setUserNames(userNamesMap);
           setAccountOwners(accountOwnersMap);
@@ -480,7 +1000,7 @@ export default function Home() {
     };
 
     checkAuthAndFetchData();
-  }, [router, fetchTransactions]);
+  }, [router, fetchTransactions, fetchNetWorth, fetchGoals, fetchUpcoming]);
 
   const toggleDropdown = () => {
     setIsDropdownOpen(!isDropdownOpen);
@@ -519,14 +1039,166 @@ export default function Home() {
           {/* Balance Card */}
           <div className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-lg mb-6 cursor-pointer-area hover:shadow-xl transition-shadow">
             <p className="text-gray-500 dark:text-gray-400 text-sm">
-              Total Balance
+              Net Worth
             </p>
             <h2 className="text-3xl font-bold text-gray-900 dark:text-white mt-1">
-              Rs. {balance.toLocaleString("en-PK")}{" "}
-              {/* This will eventually be calculated from accounts */}
+              {formatAmount(netWorth.netWorth, preferences, netWorth.currency)}
             </h2>
+            {netWorth.liabilities > 0 && (
+              <p className="text-gray-500 dark:text-gray-400 text-sm mt-1">
+                Assets {formatAmount(netWorth.assets, preferences, netWorth.currency)} · Liabilities{" "}
+                {formatAmount(netWorth.liabilities, preferences, netWorth.currency)}
+              </p>
+            )}
+            {netWorth.missingRates.length > 0 && (
+              <p className="text-yellow-600 dark:text-yellow-400 text-sm mt-1">
+                Accounts in {netWorth.missingRates.join(", ")} are left out, add an exchange rate to{" "}
+                {netWorth.currency} to include them
+              </p>
+            )}
+            {netWorth.sharedAccounts.length > 0 && (
+              <p className="text-gray-500 dark:text-gray-400 text-sm mt-1">
+                Not counted, shared with you:{" "}
+                {netWorth.sharedAccounts
+                  .map((account) => `${account.name} ${formatAmount(account.balance, preferences, account.currency)}`)
+                  .join(" · ")}
+              </p>
+            )}
           </div>
 
+          {/* Goals */}
+          <div className="mb-6">
+            <div className="bg-white dark:bg-gray-800 rounded-xl p-4 shadow-md flex items-center justify-between">
+              <span className="text-gray-900 dark:text-white font-semibold">
+                Savings Goals
+              </span>
+              <button
+                className="text-green-500 hover:text-green-600 focus:outline-none cursor-pointer"
+                title="Add goal"
+                onClick={() => {
+                  addGoalClicked();
+                }}
+              >
+                <FontAwesomeIcon icon={faPlus} className="w-5 h-5" />
+              </button>
+            </div>
+            {goals.length > 0 && (
+              <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-2">
+                {goals.map((goal) => (
+                  <div
+                    key={goal.id}
+                    className="bg-white dark:bg-gray-700 rounded-lg p-4 shadow-sm hover:shadow-md transition-shadow"
+                  >
+                    <div className="flex items-center justify-between">
+                      <h4 className="text-lg font-semibold text-gray-900 dark:text-white">
+                        <FontAwesomeIcon icon={faBullseye} className="w-4 h-4 mr-2 text-blue-500" />
+                        {goal.name}
+                      </h4>
+                      <div className="flex items-center" style={{ gap: "25px" }}>
+                        <button
+                          className="text-green-500 hover:text-green-600 focus:outline-none cursor-pointer"
+                          title="Add contribution"
+                          onClick={() => {
+                            contributeToGoalClicked(goal);
+                          }}
+                        >
+                          <FontAwesomeIcon icon={faCoins} className="w-4 h-4" />
+                        </button>
+                        <button
+                          className="text-red-500 hover:text-red-600 focus:outline-none cursor-pointer"
+                          title="Delete goal"
+                          onClick={() => {
+                            deleteGoalClicked(goal);
+                          }}
+                        >
+                          <FontAwesomeIcon icon={faTrash} className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                    <p className="text-gray-500 dark:text-gray-400 text-sm mt-1">
+                      {formatAmount(goal.progress.saved, preferences, goal.currency)} of{" "}
+                      {formatAmount(goal.targetAmount, preferences, goal.currency)}
+                      {goal.deadline && ` by ${formatDate(goal.deadline, preferences)}`}
+                    </p>
+                    <div className="w-full bg-gray-200 dark:bg-gray-600 rounded-full h-2 mt-2">
+                      <div
+                        className={`${goal.progress.achieved ? "bg-green-500" : "bg-blue-500"} h-2 rounded-full`}
+                        style={{ width: `${goal.progress.percent}%` }}
+                      />
+                    </div>
+                    <p className="text-gray-500 dark:text-gray-400 text-sm mt-2">
+                      {goal.progress.achieved
+                        ? "Goal reached"
+                        : goal.progress.projectedCompletion
+                          ? `At ${formatAmount(goal.progress.monthlyRate, preferences, goal.currency)} a month, reached on ${formatDate(goal.progress.projectedCompletion, preferences)}`
+                          : "Nothing saved in the last 90 days"}
+                    </p>
+                    {goal.progress.onTrack === false && (
+                      <p className="text-yellow-600 dark:text-yellow-400 text-sm mt-1">
+                        {goal.progress.requiredMonthly !== null
+                          ? `Behind, save ${formatAmount(goal.progress.requiredMonthly, preferences, goal.currency)} a month to make the deadline`
+                          : "The deadline has passed"}
+                      </p>
+                    )}
+                    {goal.progress.missingRates.length > 0 && (
+                      <p className="text-yellow-600 dark:text-yellow-400 text-sm mt-1">
+                        Accounts in {goal.progress.missingRates.join(", ")} are left out, add an exchange rate to{" "}
+                        {goal.currency} to include them
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Upcoming recurring transactions */}
+          {upcoming.length > 0 && (
+            <div className="mb-6">
+              <div className="bg-white dark:bg-gray-800 rounded-xl p-4 shadow-md">
+                <span className="text-gray-900 dark:text-white font-semibold">
+                  Upcoming in the next 30 days
+                </span>
+              </div>
+              <div className="mt-2 space-y-2">
+                {upcoming.map((occurrence, index) => (
+                  <div
+                    key={`${occurrence.recurringTransactionId}-${occurrence.occursOn}`}
+                    className="bg-white dark:bg-gray-700 rounded-lg p-4 shadow-sm flex items-center justify-between"
+                  >
+                    <div>
+                      <h4 className="text-gray-900 dark:text-white font-semibold">
+                        <FontAwesomeIcon icon={faRepeat} className="w-4 h-4 mr-2 text-blue-500" />
+                        {occurrence.description}
+                      </h4>
+                      <p className="text-gray-500 dark:text-gray-400 text-sm">
+                        {formatDate(occurrence.occursOn, preferences)} · {occurrence.category}
+                      </p>
+                    </div>
+                    <div className="flex items-center" style={{ gap: "25px" }}>
+                      <span className={occurrence.isIncome ? "text-green-500" : "text-red-500"}>
+                        {occurrence.isIncome ? "+" : "-"}
+                        {formatAmount(occurrence.amount, preferences, occurrence.currency)}
+                      </span>
+                      {/* Only the next occurrence of a recurring transaction can be skipped */}
+                      {upcoming.findIndex((other) => other.recurringTransactionId === occurrence.recurringTransactionId) === index && (
+                        <button
+                          className="text-gray-500 hover:text-gray-600 dark:text-gray-400 focus:outline-none cursor-pointer"
+                          title="Skip this occurrence"
+                          onClick={() => {
+                            skipOccurrenceClicked(occurrence);
+                          }}
+                        >
+                          <FontAwesomeIcon icon={faForward} className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Dropdown */}
           <div className="mb-6">
             <div className="bg-white dark:bg-gray-800 rounded-xl p-4 shadow-md cursor-pointer-area hover:shadow-xl transition-shadow flex items-center justify-between">
@@ -534,6 +1206,17 @@ export default function Home() {
                 Your Accounts
               </span>
               <div className="flex items-center" style={{ gap: "25px" }}>
+                <button
+                  className={`${
+                    showArchived ? "text-blue-500" : "text-gray-500 dark:text-gray-400"
+                  } hover:text-blue-600 focus:outline-none cursor-pointer`}
+                  title={showArchived ? "Hide archived accounts" : "Show archived accounts"}
+                  onClick={() => {
+                    setShowArchived(!showArchived);
+                  }}
+                >
+                  <FontAwesomeIcon icon={faBoxArchive} className="w-5 h-5" />
+                </button>
                 <button
                   className="text-green-500 hover:text-green-600 focus:outline-none cursor-pointer"
                   onClick={() => {
@@ -562,8 +1245,8 @@ export default function Home() {
                 isDropdownOpen ? "max-h-[500px]" : "max-h-0" // Adjust max-h as needed
               }`}
             >
-              {accounts.length > 0 ? (
-                accounts.map((account) => (
+              {accounts.some((account) => showArchived || !account.ArchivedOn) ? (
+                accounts.filter((account) => showArchived || !account.ArchivedOn).map((account) => (
                   <div
                     key={account.Id}
                     className="bg-white dark:bg-gray-700 rounded-lg p-4 shadow-sm cursor-pointer-area hover:shadow-md transition-shadow flex items-center justify-between"
@@ -572,35 +1255,104 @@ export default function Home() {
                       <h4 className="text-lg font-semibold text-gray-900 dark:text-white">
                         {account.Name}
                       </h4>
+                      <p className="text-gray-500 dark:text-gray-400 text-sm">
+                        {accountTypeLabels[account.Type]}
+                        {account.ArchivedOn && " · Archived"}
+                        {account.Role && account.Role !== "owner" && ` · Shared by ${userNames[account.UserId] ?? "a friend"} (${accountRoleLabels[account.Role]})`}
+                        {account.InterestRate !== null && ` · ${account.InterestRate}% APR`}
+                        {account.StatementDay !== null && ` · Statement on day ${account.StatementDay}`}
+                      </p>
                       <p className="text-gray-500 dark:text-gray-400 text-sm">
                         Created On:{" "}
-                        {new Date(account.CreatedOn).toLocaleString("en-PK")}
+                        {formatDateTime(account.CreatedOn, preferences)}
                       </p>
                       <p className="text-gray-500 dark:text-gray-400 text-sm">
-                        Balance: Rs.{" "}
-                        {account.Balance?.toLocaleString("en-IN") || "0.00"}
+                        {isLiabilityAccount(account.Type) && (account.Balance ?? 0) < 0 ? (
+                          <>Owed: {formatAmount(-(account.Balance ?? 0), preferences, account.Currency)}</>
+                        ) : (
+                          <>Balance: {formatAmount(account.Balance ?? 0, preferences, account.Currency)}</>
+                        )}
+                        {account.CreditLimit !== null && (
+                          <> of {formatAmount(account.CreditLimit, preferences, account.Currency)} limit</>
+                        )}
                       </p>
                     </div>
                     <div className="flex items-center" style={{ gap: "25px" }}>
                       <button
                         className="text-blue-500 hover:text-blue-600 focus:outline-none cursor-pointer"
+                        title="Members"
                         onClick={() => {
-                          editAccountClicked(account);
-                        }}
-                      >
-                        <FontAwesomeIcon
-                          icon={faPenToSquare}
-                          className="w-4 h-4"
-                        />
-                      </button>
-                      <button
-                        className="text-red-500 hover:text-red-600 focus:outline-none cursor-pointer"
-                        onClick={() => {
-                          deleteAccountClicked(account);
+                          membersClicked(account);
                         }}
                       >
-                        <FontAwesomeIcon icon={faTrash} className="w-4 h-4" />
+                        <FontAwesomeIcon icon={faUserGroup} className="w-4 h-4" />
                       </button>
+                      {account.Role !== "owner" ? (
+                        <button
+                          className="text-red-500 hover:text-red-600 focus:outline-none cursor-pointer"
+                          title="Leave account"
+                          onClick={() => {
+                            leaveAccountClicked(account);
+                          }}
+                        >
+                          <FontAwesomeIcon icon={faRightFromBracket} className="w-4 h-4" />
+                        </button>
+                      ) : account.ArchivedOn ? (
+                        <button
+                          className="text-green-500 hover:text-green-600 focus:outline-none cursor-pointer"
+                          title="Restore account"
+                          onClick={() => {
+                            archiveAccountClicked(account, false);
+                          }}
+                        >
+                          <FontAwesomeIcon icon={faBoxOpen} className="w-4 h-4" />
+                        </button>
+                      ) : (
+                        <>
+                          <button
+                            className="text-green-500 hover:text-green-600 focus:outline-none cursor-pointer"
+                            title="Reconcile to statement"
+                            onClick={() => {
+                              reconcileAccountClicked(account);
+                            }}
+                          >
+                            <FontAwesomeIcon
+                              icon={faScaleBalanced}
+                              className="w-4 h-4"
+                            />
+                          </button>
+                          <button
+                            className="text-blue-500 hover:text-blue-600 focus:outline-none cursor-pointer"
+                            onClick={() => {
+                              editAccountClicked(account);
+                            }}
+                          >
+                            <FontAwesomeIcon
+                              icon={faPenToSquare}
+                              className="w-4 h-4"
+                            />
+                          </button>
+                          <button
+                            className="text-gray-500 hover:text-gray-600 dark:text-gray-400 focus:outline-none cursor-pointer"
+                            title="Archive account"
+                            onClick={() => {
+                              archiveAccountClicked(account, true);
+                            }}
+                          >
+                            <FontAwesomeIcon icon={faBoxArchive} className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                      {account.Role === "owner" && (
+                        <button
+                          className="text-red-500 hover:text-red-600 focus:outline-none cursor-pointer"
+                          onClick={() => {
+                            deleteAccountClicked(account);
+                          }}
+                        >
+                          <FontAwesomeIcon icon={faTrash} className="w-4 h-4" />
+                        </button>
+                      )}
                     </div>
                   </div>
                 ))
@@ -640,9 +1392,7 @@ export default function Home() {
                           )}
                           <p className="text-gray-500 dark:text-gray-400 text-sm">
                             Created On:{" "}
-                            {new Date(transaction.createdOn).toLocaleString(
-                              "en-PK"
-                            )}
+                            {formatDateTime(transaction.occurredOn, preferences)}
                           </p>
                           <p className="text-gray-500 dark:text-gray-400 text-sm">
                             Category: {transaction.category}
@@ -672,8 +1422,8 @@ export default function Home() {
                                     {amount.accountId && (
                                       <>Owner: {userNames[accountOwners[amount.accountId]]} -{" "}</>
                                     )}
-                                    Amount: Rs.{" "}
-                                    {amount.amountPaid.toLocaleString("en-IN")}/{amount.amountToPay.toLocaleString("en-IN")}
+                                    Amount:{" "}
+                                    {formatAmount(amount.amountPaid, preferences, amount.currency)}/{formatAmount(amount.amountToPay, preferences, amount.currency)}
                                   </p>
                                 ))}
                               </div>
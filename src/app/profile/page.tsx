@@ -3,7 +3,76 @@
 import { FormEvent, useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Navigation from '@/components/Navigation';
-import { getAccountDetails } from '@/middleware/clientAuth.middleware';
+import { authFetch, getAccountDetails, getPreferences, logout } from '@/middleware/clientAuth.middleware';
+import { IUserPreferences } from '@/models/preferences.model';
+import { defaultPreferences, formatAmount, formatDate, formatDateTime } from '@/utils/format.util';
+
+interface DeviceSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdOn: string;
+  lastSeenOn: string;
+  current: boolean;
+}
+
+interface ApiToken {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresOn: string | null;
+  lastUsedOn: string | null;
+  createdOn: string;
+}
+
+interface AuditEvent {
+  id: number;
+  type: string;
+  actorId: number | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  metadata: Record<string, unknown> | null;
+  createdOn: string;
+}
+
+const auditEventLabels: Record<string, string> = {
+  'user.registered': 'Account created',
+  'user.login': 'Signed in',
+  'user.login_failed': 'Failed sign in',
+  'user.mfa_failed': 'Failed two-factor code',
+  'user.locked': 'Sign in locked after failed attempts',
+  'user.refresh': 'Session refreshed',
+  'user.refresh_reused': 'Reused session token, session signed out',
+  'user.logout': 'Signed out',
+  'user.logout_all': 'Signed out everywhere',
+  'user.password_changed': 'Password changed',
+  'user.password_reset_requested': 'Password reset requested',
+  'user.password_reset': 'Password reset',
+  'user.username_changed': 'Username changed',
+  'user.email_changed': 'Email changed',
+  'user.email_verified': 'Email verified',
+  'user.mfa_enabled': 'Two-factor authentication enabled',
+  'user.mfa_disabled': 'Two-factor authentication disabled',
+  'session.revoked': 'Device signed out',
+  'token.created': 'API token created',
+  'token.revoked': 'API token revoked',
+  'friend.removed': 'Friend removed',
+  'account.deleted': 'Account deleted'
+};
+
+const auditPageSize = 10;
+
+const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const tokenScopes = [
+  'accounts:read',
+  'accounts:write',
+  'transactions:read',
+  'transactions:write',
+  'friends:read',
+  'friends:write'
+];
 
 interface AccountSettingsForm {
   username: string;
@@ -16,7 +85,7 @@ interface AccountSettingsForm {
 export default function AccountSettings() {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(true);
-  const [activeForm, setActiveForm] = useState<'username' | 'email' | 'password' | null>(null);
+  const [activeForm, setActiveForm] = useState<'username' | 'email' | 'password' | 'preferences' | 'twoFactor' | 'apiToken' | 'delete' | null>(null);
   const [formData, setFormData] = useState<AccountSettingsForm>({
     username: '',
     email: '',
@@ -24,7 +93,21 @@ export default function AccountSettings() {
     newPassword: '',
     confirmPassword: ''
   });
+  const [currentUser, setCurrentUser] = useState({ username: '', email: '' });
+  const [emailVerified, setEmailVerified] = useState(true);
   const [message, setMessage] = useState({ type: '', text: '' });
+  const [twoFactor, setTwoFactor] = useState({ enabled: false, recoveryCodesRemaining: 0 });
+  const [twoFactorSetup, setTwoFactorSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [apiTokens, setApiTokens] = useState<ApiToken[]>([]);
+  const [newApiToken, setNewApiToken] = useState({ name: '', scopes: [] as string[], expiresOn: '' });
+  const [createdApiToken, setCreatedApiToken] = useState('');
+  const [auditEvents, setAuditEvents] = useState<AuditEvent[]>([]);
+  const [auditPage, setAuditPage] = useState({ page: 0, total: 0 });
+  const [preferences, setPreferences] = useState<IUserPreferences>(defaultPreferences);
+  const [preferencesForm, setPreferencesForm] = useState<IUserPreferences>(defaultPreferences);
 
   useEffect(() => {
     getAccountDetails().then((account) => {
@@ -36,22 +119,278 @@ export default function AccountSettings() {
           username: account.userName,
           email: account.email
         }));
+        setCurrentUser({ username: account.userName, email: account.email });
+        fetchEmailVerified();
+        getPreferences().then((saved) => {
+          setPreferences(saved);
+          setPreferencesForm(saved);
+        });
+        fetchTwoFactorStatus();
+        fetchSessions();
+        fetchApiTokens();
+        fetchAuditEvents(1);
         setIsLoading(false);
       }
     });
   }, [router]);
 
-  const handleSubmit = async (e: FormEvent, type: 'password') => {
+  const fetchTwoFactorStatus = async () => {
+    try {
+      const response = await authFetch('/api/auth/mfa');
+      if (response.ok) {
+        setTwoFactor(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching two-factor status:', error);
+    }
+  };
+
+  const fetchEmailVerified = async () => {
+    try {
+      const response = await authFetch('/api/auth/me');
+      if (response.ok) {
+        const user = await response.json();
+        setEmailVerified(user.EmailVerified);
+      }
+    } catch (error) {
+      console.error('Error fetching email verification status:', error);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    setMessage({ type: '', text: '' });
+
+    try {
+      const response = await authFetch('/api/auth/verify-email/resend', {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send verification email');
+      }
+
+      setMessage({ type: 'success', text: data.message });
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to send verification email'
+      });
+    }
+  };
+
+  const handleUpdatePreferences = async (e: FormEvent) => {
+    e.preventDefault();
+    setMessage({ type: '', text: '' });
+
+    try {
+      const response = await authFetch('/api/auth/preferences', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(preferencesForm),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update preferences');
+      }
+
+      setPreferences(data);
+      setPreferencesForm(data);
+      setActiveForm(null);
+      setMessage({ type: 'success', text: 'Preferences updated successfully' });
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to update preferences'
+      });
+    }
+  };
+
+  const fetchSessions = async () => {
+    try {
+      const response = await authFetch('/api/auth/sessions');
+      if (response.ok) {
+        setSessions(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+    }
+  };
+
+  const fetchAuditEvents = async (page: number) => {
+    try {
+      const response = await authFetch(`/api/auth/audit?page=${page}&limit=${auditPageSize}`);
+      if (response.ok) {
+        const data = await response.json();
+        setAuditEvents(prev => page === 1 ? data.events : [...prev, ...data.events]);
+        setAuditPage({ page: data.page, total: data.total });
+      }
+    } catch (error) {
+      console.error('Error fetching security activity:', error);
+    }
+  };
+
+  const handleRevokeSession = async (session: DeviceSession) => {
+    setMessage({ type: '', text: '' });
+
+    try {
+      const response = await authFetch(`/api/auth/sessions/${session.id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to sign out device');
+      }
+
+      if (session.current) {
+        await logout();
+        router.push('/login');
+        return;
+      }
+
+      setMessage({ type: 'success', text: data.message });
+      await fetchSessions();
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to sign out device'
+      });
+    }
+  };
+
+  const fetchApiTokens = async () => {
+    try {
+      const response = await authFetch('/api/auth/tokens');
+      if (response.ok) {
+        setApiTokens(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching API tokens:', error);
+    }
+  };
+
+  const handleCreateApiToken = async (e: FormEvent) => {
+    e.preventDefault();
+    setMessage({ type: '', text: '' });
+
+    try {
+      const response = await authFetch('/api/auth/tokens', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: newApiToken.name,
+          scopes: newApiToken.scopes,
+          expiresOn: newApiToken.expiresOn ? new Date(newApiToken.expiresOn).toISOString() : undefined
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create API token');
+      }
+
+      setCreatedApiToken(data.token);
+      setNewApiToken({ name: '', scopes: [], expiresOn: '' });
+      setActiveForm(null);
+      await fetchApiTokens();
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to create API token'
+      });
+    }
+  };
+
+  const handleRevokeApiToken = async (apiToken: ApiToken) => {
+    setMessage({ type: '', text: '' });
+
+    try {
+      const response = await authFetch(`/api/auth/tokens/${apiToken.id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke API token');
+      }
+
+      setMessage({ type: 'success', text: data.message });
+      await fetchApiTokens();
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to revoke API token'
+      });
+    }
+  };
+
+  const handleTwoFactor = async (e: FormEvent | null, action: 'setup' | 'confirm' | 'disable') => {
+    e?.preventDefault();
+    setMessage({ type: '', text: '' });
+
+    try {
+      const response = await authFetch('/api/auth/mfa', {
+        method: action === 'setup' ? 'POST' : action === 'confirm' ? 'PUT' : 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: action === 'setup'
+          ? undefined
+          : JSON.stringify(
+            action === 'confirm'
+              ? { code: twoFactorCode }
+              : { password: formData.currentPassword, code: twoFactorCode }
+          ),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update two-factor authentication');
+      }
+
+      setTwoFactorCode('');
+      if (action === 'setup') {
+        setTwoFactorSetup(data);
+        setActiveForm('twoFactor');
+        return;
+      }
+
+      setTwoFactorSetup(null);
+      setActiveForm(null);
+      setFormData(prev => ({ ...prev, currentPassword: '' }));
+      setRecoveryCodes(data.recoveryCodes ?? []);
+      setMessage({ type: 'success', text: data.message });
+      await fetchTwoFactorStatus();
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to update two-factor authentication'
+      });
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent, type: 'username' | 'email' | 'password') => {
     e.preventDefault();
     setMessage({ type: '', text: '' });
 
     try {
       const endpoint = `/api/auth/${type == 'password' ? 'change-password' : type}`;
-      const response = await fetch(endpoint, {
+      const response = await authFetch(endpoint, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
         },
         body: JSON.stringify(
           type === 'password' 
@@ -59,7 +398,10 @@ export default function AccountSettings() {
                 currentPassword: formData.currentPassword,
                 newPassword: formData.newPassword 
               }
-            : { [type]: formData[type] }
+            : {
+                [type]: formData[type],
+                password: formData.currentPassword
+              }
         ),
       });
 
@@ -71,11 +413,14 @@ export default function AccountSettings() {
 
       setMessage({ type: 'success', text: `${type} updated successfully` });
       setActiveForm(null);
-      
-      // Update token if provided
-      if (data.token) {
-        localStorage.setItem('token', data.token);
+      setFormData(prev => ({ ...prev, currentPassword: '', newPassword: '' }));
+
+      if (data.user) {
+        setCurrentUser({ username: data.user.Username, email: data.user.Email });
+        setEmailVerified(data.user.EmailVerified);
+        setFormData(prev => ({ ...prev, username: data.user.Username, email: data.user.Email }));
       }
+
     } catch (error) {
       setMessage({ 
         type: 'error', 
@@ -84,6 +429,68 @@ export default function AccountSettings() {
     }
   };
 
+  const handleLogoutAll = async () => {
+    setMessage({ type: '', text: '' });
+
+    try {
+      const response = await authFetch('/api/auth/logout-all', {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to sign out of all devices');
+      }
+
+      router.push('/login');
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to sign out of all devices'
+      });
+    }
+  };
+
+  const handleDeleteAccount = async (e: FormEvent) => {
+    e.preventDefault();
+    setMessage({ type: '', text: '' });
+
+    try {
+      const response = await authFetch('/api/auth/me', {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          password: formData.currentPassword,
+          code: twoFactor.enabled ? twoFactorCode : undefined
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete account');
+      }
+
+      // Download the data export before leaving the page
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? 'fastmoney-export.json';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      router.push('/login');
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to delete account'
+      });
+    }
+  };
+
   if (isLoading) {
     return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
   }
@@ -103,9 +510,41 @@ export default function AccountSettings() {
                 <div className="flex justify-between items-center mb-4">
                   <div>
                     <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Username</h2>
-                    <p className="text-gray-500 dark:text-gray-400">{formData.username}</p>
+                    <p className="text-gray-500 dark:text-gray-400">{currentUser.username}</p>
                   </div>
+                  <button
+                    onClick={() => setActiveForm(activeForm === 'username' ? null : 'username')}
+                    className="text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                  >
+                    Change
+                  </button>
                 </div>
+                {activeForm === 'username' && (
+                  <form onSubmit={(e) => handleSubmit(e, 'username')} className="space-y-4">
+                    <input
+                      type="text"
+                      value={formData.username}
+                      onChange={(e) => setFormData(prev => ({ ...prev, username: e.target.value }))}
+                      className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-700 dark:text-white"
+                      placeholder="New username"
+                      required
+                    />
+                    <input
+                      type="password"
+                      value={formData.currentPassword}
+                      onChange={(e) => setFormData(prev => ({ ...prev, currentPassword: e.target.value }))}
+                      className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-700 dark:text-white"
+                      placeholder="Current password"
+                      required
+                    />
+                    <button
+                      type="submit"
+                      className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                    >
+                      Update Username
+                    </button>
+                  </form>
+                )}
               </div>
 
               {/* Email Section */}
@@ -113,9 +552,49 @@ export default function AccountSettings() {
                 <div className="flex justify-between items-center mb-4">
                   <div>
                     <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Email</h2>
-                    <p className="text-gray-500 dark:text-gray-400">{formData.email}</p>
+                    <p className="text-gray-500 dark:text-gray-400">{currentUser.email}</p>
+                    {!emailVerified && (
+                      <p className="text-sm text-yellow-600 dark:text-yellow-400">
+                        Not verified ·{' '}
+                        <button onClick={handleResendVerification} className="underline hover:no-underline">
+                          Resend verification email
+                        </button>
+                      </p>
+                    )}
                   </div>
+                  <button
+                    onClick={() => setActiveForm(activeForm === 'email' ? null : 'email')}
+                    className="text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                  >
+                    Change
+                  </button>
                 </div>
+                {activeForm === 'email' && (
+                  <form onSubmit={(e) => handleSubmit(e, 'email')} className="space-y-4">
+                    <input
+                      type="email"
+                      value={formData.email}
+                      onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                      className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-700 dark:text-white"
+                      placeholder="New email"
+                      required
+                    />
+                    <input
+                      type="password"
+                      value={formData.currentPassword}
+                      onChange={(e) => setFormData(prev => ({ ...prev, currentPassword: e.target.value }))}
+                      className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-700 dark:text-white"
+                      placeholder="Current password"
+                      required
+                    />
+                    <button
+                      type="submit"
+                      className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                    >
+                      Update Email
+                    </button>
+                  </form>
+                )}
               </div>
 
               {/* Password Section */}
@@ -160,6 +639,376 @@ export default function AccountSettings() {
                 )}
               </div>
 
+              {/* Preferences Section */}
+              <div className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-lg">
+                <div className="flex justify-between items-center mb-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Preferences</h2>
+                    <p className="text-gray-500 dark:text-gray-400">
+                      {formatAmount(1234.5, preferences)} · {preferences.timezone} · Weeks start on {weekdays[preferences.weekStart]}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => {
+                      setPreferencesForm(preferences);
+                      setActiveForm(activeForm === 'preferences' ? null : 'preferences');
+                    }}
+                    className="text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                  >
+                    Change
+                  </button>
+                </div>
+                {activeForm === 'preferences' && (
+                  <form onSubmit={handleUpdatePreferences} className="space-y-4">
+                    <input
+                      type="text"
+                      value={preferencesForm.currency}
+                      onChange={(e) => setPreferencesForm(prev => ({ ...prev, currency: e.target.value.toUpperCase() }))}
+                      className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-700 dark:text-white"
+                      placeholder="Currency code, e.g. PKR"
+                      maxLength={3}
+                      required
+                    />
+                    <select
+                      value={preferencesForm.timezone}
+                      onChange={(e) => setPreferencesForm(prev => ({ ...prev, timezone: e.target.value }))}
+                      className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-700 dark:text-white"
+                    >
+                      {[...new Set([preferencesForm.timezone, ...Intl.supportedValuesOf('timeZone')])].map((timeZone) => (
+                        <option key={timeZone} value={timeZone}>{timeZone}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={preferencesForm.locale}
+                      onChange={(e) => setPreferencesForm(prev => ({ ...prev, locale: e.target.value }))}
+                      className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-700 dark:text-white"
+                      placeholder="Number and date format, e.g. en-PK"
+                      required
+                    />
+                    <select
+                      value={preferencesForm.weekStart}
+                      onChange={(e) => setPreferencesForm(prev => ({ ...prev, weekStart: parseInt(e.target.value) }))}
+                      className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-700 dark:text-white"
+                    >
+                      {weekdays.map((day, index) => (
+                        <option key={day} value={index}>Weeks start on {day}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="submit"
+                      className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                    >
+                      Update Preferences
+                    </button>
+                  </form>
+                )}
+              </div>
+
+              {/* Two-Factor Authentication Section */}
+              <div className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-lg">
+                <div className="flex justify-between items-center mb-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Two-Factor Authentication</h2>
+                    <p className="text-gray-500 dark:text-gray-400">
+                      {twoFactor.enabled
+                        ? `Enabled (${twoFactor.recoveryCodesRemaining} recovery codes left)`
+                        : 'Disabled'}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => {
+                      if (activeForm === 'twoFactor') {
+                        setActiveForm(null);
+                      } else if (twoFactor.enabled) {
+                        setActiveForm('twoFactor');
+                      } else {
+                        handleTwoFactor(null, 'setup');
+                      }
+                    }}
+                    className="text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                  >
+                    {twoFactor.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                </div>
+                {activeForm === 'twoFactor' && !twoFactor.enabled && twoFactorSetup && (
+                  <form onSubmit={(e) => handleTwoFactor(e, 'confirm')} className="space-y-4">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      Add this key to your authenticator app, then enter the 6-digit code it shows.
+                    </p>
+                    <p className="font-mono text-sm break-all text-gray-900 dark:text-white">{twoFactorSetup.secret}</p>
+                    <a href={twoFactorSetup.otpauthUrl} className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400">
+                      Open in authenticator app
+                    </a>
+                    <input
+                      type="text"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                      className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-700 dark:text-white"
+                      placeholder="Authentication code"
+                      autoComplete="one-time-code"
+                      required
+                    />
+                    <button
+                      type="submit"
+                      className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                    >
+                      Enable Two-Factor Authentication
+                    </button>
+                  </form>
+                )}
+                {activeForm === 'twoFactor' && twoFactor.enabled && (
+                  <form onSubmit={(e) => handleTwoFactor(e, 'disable')} className="space-y-4">
+                    <input
+                      type="password"
+                      value={formData.currentPassword}
+                      onChange={(e) => setFormData(prev => ({ ...prev, currentPassword: e.target.value }))}
+                      className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-700 dark:text-white"
+                      placeholder="Current password"
+                      required
+                    />
+                    <input
+                      type="text"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                      className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-700 dark:text-white"
+                      placeholder="Authentication or recovery code"
+                      autoComplete="one-time-code"
+                      required
+                    />
+                    <button
+                      type="submit"
+                      className="w-full px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+                    >
+                      Disable Two-Factor Authentication
+                    </button>
+                  </form>
+                )}
+                {recoveryCodes.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      Save these recovery codes somewhere safe. Each can be used once if you lose your authenticator, and they will not be shown again.
+                    </p>
+                    <div className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 dark:text-white">
+                      {recoveryCodes.map((code) => (
+                        <span key={code}>{code}</span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Devices Section */}
+              <div className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-lg">
+                <div className="flex justify-between items-center mb-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Devices</h2>
+                    <p className="text-gray-500 dark:text-gray-400">Devices you are logged in on</p>
+                  </div>
+                  <button
+                    onClick={handleLogoutAll}
+                    className="text-red-600 hover:text-red-700 dark:text-red-400"
+                  >
+                    Sign out everywhere
+                  </button>
+                </div>
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {sessions.map((session) => (
+                    <li key={session.id} className="flex justify-between items-center py-3 gap-4">
+                      <div className="min-w-0">
+                        <p className="text-gray-900 dark:text-white truncate" title={session.userAgent ?? undefined}>
+                          {session.userAgent ?? 'Unknown device'}
+                          {session.current && (
+                            <span className="ml-2 text-xs text-green-600 dark:text-green-400">This device</span>
+                          )}
+                        </p>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          {session.ipAddress ?? 'Unknown IP'} · Last active {formatDateTime(session.lastSeenOn, preferences)}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleRevokeSession(session)}
+                        className="text-red-600 hover:text-red-700 dark:text-red-400 shrink-0"
+                      >
+                        Sign out
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {/* API Tokens Section */}
+              <div className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-lg">
+                <div className="flex justify-between items-center mb-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-white">API Tokens</h2>
+                    <p className="text-gray-500 dark:text-gray-400">Personal access tokens for scripts and integrations</p>
+                  </div>
+                  <button
+                    onClick={() => setActiveForm(activeForm === 'apiToken' ? null : 'apiToken')}
+                    className="text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                  >
+                    New token
+                  </button>
+                </div>
+                {activeForm === 'apiToken' && (
+                  <form onSubmit={handleCreateApiToken} className="space-y-4 mb-4">
+                    <input
+                      type="text"
+                      value={newApiToken.name}
+                      onChange={(e) => setNewApiToken(prev => ({ ...prev, name: e.target.value }))}
+                      className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-700 dark:text-white"
+                      placeholder="Token name"
+                      required
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                      {tokenScopes.map((scope) => (
+                        <label key={scope} className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+                          <input
+                            type="checkbox"
+                            checked={newApiToken.scopes.includes(scope)}
+                            onChange={(e) => setNewApiToken(prev => ({
+                              ...prev,
+                              scopes: e.target.checked
+                                ? [...prev.scopes, scope]
+                                : prev.scopes.filter((s) => s !== scope)
+                            }))}
+                          />
+                          {scope}
+                        </label>
+                      ))}
+                    </div>
+                    <label className="block text-sm text-gray-500 dark:text-gray-400">
+                      Expires on (optional)
+                      <input
+                        type="date"
+                        value={newApiToken.expiresOn}
+                        onChange={(e) => setNewApiToken(prev => ({ ...prev, expiresOn: e.target.value }))}
+                        className="w-full mt-1 px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-700 dark:text-white"
+                      />
+                    </label>
+                    <button
+                      type="submit"
+                      className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                    >
+                      Create Token
+                    </button>
+                  </form>
+                )}
+                {createdApiToken && (
+                  <div className="mb-4 p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/30">
+                    <p className="text-sm text-gray-900 dark:text-white mb-2">
+                      Copy your new token now, it will not be shown again:
+                    </p>
+                    <code className="block break-all font-mono text-sm text-gray-900 dark:text-white">{createdApiToken}</code>
+                  </div>
+                )}
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {apiTokens.map((apiToken) => (
+                    <li key={apiToken.id} className="flex justify-between items-center py-3 gap-4">
+                      <div className="min-w-0">
+                        <p className="text-gray-900 dark:text-white">
+                          {apiToken.name} <span className="font-mono text-sm text-gray-500 dark:text-gray-400">{apiToken.prefix}…</span>
+                        </p>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">{apiToken.scopes.join(', ')}</p>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          {apiToken.expiresOn ? `Expires ${formatDate(apiToken.expiresOn, preferences)}` : 'Never expires'}
+                          {' · '}
+                          {apiToken.lastUsedOn ? `Last used ${formatDateTime(apiToken.lastUsedOn, preferences)}` : 'Never used'}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleRevokeApiToken(apiToken)}
+                        className="text-red-600 hover:text-red-700 dark:text-red-400 shrink-0"
+                      >
+                        Revoke
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {/* Security Activity Section */}
+              <div className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-lg">
+                <div className="mb-4">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Security Activity</h2>
+                  <p className="text-gray-500 dark:text-gray-400">Sign ins and changes to your account</p>
+                </div>
+                {auditEvents.length === 0 ? (
+                  <p className="text-gray-500 dark:text-gray-400">No activity recorded yet</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {auditEvents.map((event) => (
+                      <li key={event.id} className="py-3">
+                        <p className="text-gray-900 dark:text-white">
+                          {auditEventLabels[event.type] ?? event.type}
+                        </p>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 truncate" title={event.userAgent ?? undefined}>
+                          {formatDateTime(event.createdOn, preferences)}
+                          {event.ipAddress && ` · ${event.ipAddress}`}
+                          {event.userAgent && ` · ${event.userAgent}`}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {auditEvents.length < auditPage.total && (
+                  <button
+                    onClick={() => fetchAuditEvents(auditPage.page + 1)}
+                    className="mt-4 text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                  >
+                    Show more
+                  </button>
+                )}
+              </div>
+
+              {/* Delete Account Section */}
+              <div className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-lg">
+                <div className="flex justify-between items-center mb-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Delete Account</h2>
+                    <p className="text-gray-500 dark:text-gray-400">Download your data and permanently delete your account</p>
+                  </div>
+                  <button
+                    onClick={() => setActiveForm(activeForm === 'delete' ? null : 'delete')}
+                    className="text-red-600 hover:text-red-700 dark:text-red-400"
+                  >
+                    Delete
+                  </button>
+                </div>
+                {activeForm === 'delete' && (
+                  <form onSubmit={handleDeleteAccount} className="space-y-4">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      Your accounts and transactions will be deleted. Transactions shared with friends stay in their history under your username.
+                    </p>
+                    <input
+                      type="password"
+                      value={formData.currentPassword}
+                      onChange={(e) => setFormData(prev => ({ ...prev, currentPassword: e.target.value }))}
+                      className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-700 dark:text-white"
+                      placeholder="Current password"
+                      required
+                    />
+                    {twoFactor.enabled && (
+                      <input
+                        type="text"
+                        value={twoFactorCode}
+                        onChange={(e) => setTwoFactorCode(e.target.value)}
+                        className="w-full px-3 py-2 border rounded-lg dark:border-gray-700 dark:bg-gray-700 dark:text-white"
+                        placeholder="Authentication or recovery code"
+                        required
+                      />
+                    )}
+                    <button
+                      type="submit"
+                      className="w-full px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+                    >
+                      Delete My Account
+                    </button>
+                  </form>
+                )}
+              </div>
+
               {/* Message Display */}
               {message.text && (
                 <div className={`p-4 rounded-lg ${
@@ -3,7 +3,7 @@
 import { FormEvent, useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { getAccountDetails } from '@/middleware/clientAuth.middleware';
+import { cookieSessionHeaders, getAccountDetails } from '@/middleware/clientAuth.middleware';
 
 export default function RegisterPage() {
   const router = useRouter();
@@ -40,6 +40,7 @@ export default function RegisterPage() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...cookieSessionHeaders,
         },
         body: JSON.stringify({
           username: formData.username,
@@ -54,9 +55,7 @@ export default function RegisterPage() {
         throw new Error(data.error || 'Failed to register');
       }
 
-      // Store tokens and redirect
-      localStorage.setItem('token', data.token);
-      localStorage.setItem('refreshToken', data.refreshToken);
+      // The session cookies are set by the server
       router.push('/');
       
     } catch (err) {
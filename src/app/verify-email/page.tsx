@@ -0,0 +1,79 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+export default function VerifyEmailPage() {
+  const [status, setStatus] = useState<"verifying" | "verified" | "error">("verifying");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("token");
+    if (!token) {
+      setStatus("error");
+      setError("Verification link is invalid, please request a new one");
+      return;
+    }
+
+    fetch("/api/auth/verify-email", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ token }),
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to verify email");
+        }
+        setStatus("verified");
+      })
+      .catch((err) => {
+        setStatus("error");
+        setError(err instanceof Error ? err.message : "Failed to verify email");
+      });
+  }, []);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gray-50 dark:bg-gray-900">
+      <div className="w-full max-w-md">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 space-y-6">
+          <div className="space-y-2 text-center">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+              Verify Email
+            </h1>
+            <p className="text-gray-500 dark:text-gray-400">
+              {status === "verifying" && "Verifying your email address..."}
+              {status === "verified" && "Your email address has been verified"}
+            </p>
+          </div>
+
+          {status === "error" && (
+            <div className="bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 text-sm p-3 rounded">
+              {error}
+            </div>
+          )}
+
+          <div className="text-center text-sm text-gray-500 dark:text-gray-400">
+            {status === "error" ? (
+              <Link
+                href="/profile"
+                className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                Request a new link from your profile
+              </Link>
+            ) : (
+              <Link
+                href="/"
+                className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                Continue to FASTMoney
+              </Link>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,8 +3,9 @@
 import Link from "next/link";
 import { useState, useRef, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { getAccountDetails } from "@/middleware/clientAuth.middleware";
+import { authFetch, getAccountDetails, logout } from "@/middleware/clientAuth.middleware";
 import { IAccount } from "@/models/accounts.model";
+import { ICategory } from "@/models/categories.model";
 import SweetAlert from "sweetalert2";
 
 type TransactionData = {
@@ -12,6 +13,7 @@ type TransactionData = {
   category: string;
   description: string;
   notes?: string;
+  occurredOn?: string;
   isIncome: boolean;
   amounts: {
     accountId?: number;
@@ -21,8 +23,23 @@ type TransactionData = {
   }[];
 };
 
+type TransferData = {
+  fromAccountId: number;
+  toAccountId: number;
+  amount: number;
+  fee?: number;
+  description?: string;
+  notes?: string;
+};
+
 type APIAccount = Omit<IAccount, "CreatedOn" | "Balance">;
 
+const transactionTypeLabels = {
+  income: "Income",
+  expense: "Expense",
+  transfer: "Transfer",
+};
+
 type APIFriendsResponse = {
   userId: number;
   username: string;
@@ -37,7 +54,7 @@ export default function Navigation() {
   const [showDropdown, setShowDropdown] = useState(false);
   const [showTransactionModal, setShowTransactionModal] = useState(false);
   const [transactionType, setTransactionType] = useState<
-    "income" | "expense" | null
+    "income" | "expense" | "transfer" | null
   >(null);
   const [showHelpMessage, setShowHelpMessage] = useState(false);
   const [username, setUsername] = useState("");
@@ -45,12 +62,12 @@ export default function Navigation() {
   const [friends, setFriends] = useState<{ [key: number]: APIFriendDetails }>(
     {}
   );
+  const [categories, setCategories] = useState<ICategory[]>([]);
   const router = useRouter();
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  const handleLogout = () => {
-    localStorage.removeItem("token");
-    localStorage.removeItem("refreshToken");
+  const handleLogout = async () => {
+    await logout();
     router.push("/login");
   };
 
@@ -346,11 +363,6 @@ export default function Navigation() {
       router.push("/login");
       return;
     }
-    const token = localStorage.getItem("token");
-    if (!token) {
-      router.push("/login");
-      return;
-    }
     SweetAlert.fire({
       theme: "dark",
       title: "Creating Transaction",
@@ -361,11 +373,10 @@ export default function Navigation() {
       },
     });
 
-    const response = await fetch("/api/transactions", {
+    const response = await authFetch("/api/transactions", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`,
       },
       body: JSON.stringify(data)
     });
@@ -388,6 +399,59 @@ export default function Navigation() {
     location.reload();
   };
 
+  const processAddTransfer = async (data: TransferData) => {
+    if (data.fromAccountId === data.toAccountId) {
+      SweetAlert.fire({
+        theme: "dark",
+        icon: "error",
+        title: "Invalid Accounts",
+        text: "Choose two different accounts.",
+      });
+      return;
+    }
+
+    const acc = await getAccountDetails();
+    if (!acc) {
+      router.push("/login");
+      return;
+    }
+    SweetAlert.fire({
+      theme: "dark",
+      title: "Creating Transfer",
+      text: "Please wait...",
+      allowOutsideClick: false,
+      didOpen: () => {
+        SweetAlert.showLoading();
+      },
+    });
+
+    const response = await authFetch("/api/transfers", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(data)
+    });
+    SweetAlert.close();
+    if (!response.ok) {
+      const errorData = await response.json();
+      SweetAlert.fire({
+        theme: "dark",
+        icon: "error",
+        title: "Error",
+        text: `Failed to create transfer: ${errorData.message || response.statusText}`,
+      });
+      return;
+    }
+    await SweetAlert.fire({
+      theme: "dark",
+      icon: "success",
+      title: "Success",
+      text: "Transfer created successfully.",
+    });
+    location.reload();
+  };
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (
@@ -406,37 +470,22 @@ export default function Navigation() {
 
   useEffect(() => {
     async function getAccounts() {
-      const token = localStorage.getItem("token");
-      if (!token) {
-        router.push("/login");
-        return;
-      }
-      const response = await fetch("/api/accounts", {
+      const response = await authFetch("/api/accounts", {
         method: "GET",
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
       });
 
       if (!response.ok) {
         console.error("Failed to fetch accounts");
         return;
       }
-      const accountsData = await response.json();
-      setAccounts([...accountsData]);
+      const accountsData: APIAccount[] = await response.json();
+      // Viewers of a shared account cannot record transactions on it
+      setAccounts(accountsData.filter((account) => account.Role !== "viewer"));
     }
 
     async function getFriends() {
-      const token = localStorage.getItem("token");
-      if (!token) {
-        router.push("/login");
-        return;
-      }
-      const response = await fetch("/api/friends", {
+      const response = await authFetch("/api/friends", {
         method: "GET",
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
       });
 
       if (!response.ok) {
@@ -446,11 +495,8 @@ export default function Navigation() {
       const friendsData: APIFriendsResponse = await response.json();
       const friendsDetails: { [key: number]: APIFriendDetails } = {};
       for (const friend of friendsData) {
-        const accountResponse = await fetch(`/api/friends/${friend.userId}`, {
+        const accountResponse = await authFetch(`/api/friends/${friend.userId}`, {
           method: "GET",
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
         });
 
         if (!accountResponse.ok) {
@@ -465,11 +511,24 @@ export default function Navigation() {
       setFriends(friendsDetails);
     }
 
+    async function getCategories() {
+      const response = await authFetch("/api/categories", {
+        method: "GET",
+      });
+
+      if (!response.ok) {
+        console.error("Failed to fetch categories");
+        return;
+      }
+      setCategories(await response.json());
+    }
+
     getAccountDetails().then((account) => {
       if (account) {
         setUsername(account.userName || "User");
         getAccounts();
         getFriends();
+        getCategories();
       } else {
         router.push("/login");
       }
@@ -669,7 +728,7 @@ export default function Navigation() {
                     </svg>
                   </button>
                 </div>
-                <div className="grid grid-cols-2 gap-4">
+                <div className="grid grid-cols-3 gap-4">
                   <button
                     onClick={() => setTransactionType("income")}
                     className="p-4 border-2 border-green-500 rounded-lg text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20"
@@ -708,6 +767,27 @@ export default function Navigation() {
                     </svg>
                     Expense
                   </button>
+                  <button
+                    onClick={() => setTransactionType("transfer")}
+                    disabled={accounts.length < 2}
+                    title={accounts.length < 2 ? "You need at least two accounts to transfer between" : undefined}
+                    className="p-4 border-2 border-blue-500 rounded-lg text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <svg
+                      className="w-8 h-8 mx-auto mb-2"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4"
+                      />
+                    </svg>
+                    Transfer
+                  </button>
                 </div>
               </div>
             ) : (
@@ -715,7 +795,7 @@ export default function Navigation() {
               <div className="p-6 space-y-6">
                 <div className="flex justify-between items-center">
                   <h3 className="text-xl font-semibold text-gray-900 dark:text-white">
-                    Add {transactionType === "income" ? "Income" : "Expense"}
+                    Add {transactionTypeLabels[transactionType]}
                   </h3>
                   <button
                     onClick={() => setTransactionType(null)}
@@ -724,95 +804,239 @@ export default function Navigation() {
                     Back
                   </button>
                 </div>
-                {/* Add your transaction form here */}
-                <form
-                  className="space-y-4"
-                  onSubmit={(e) => {
-                    e.preventDefault();
-                    const formData = new FormData(e.target as HTMLFormElement);
-                    const data: TransactionData = {
-                      amount: parseFloat(formData.get("amount")!.toString()),
-                      category: formData.get("category")!.toString(),
-                      description: formData.get("description")!.toString(),
-                      notes: formData.get("notes")?.toString(),
-                      isIncome: transactionType === "income",
-                      amounts: [],
-                    };
-                    if (data.notes == "") {
-                      data.notes = undefined;
-                    }
-                    processAddTransaction(data);
-                  }}
-                >
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
-                      Amount
-                    </label>
-                    <input
-                      type="number"
-                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="Enter amount"
-                      name="amount"
-                      min="0.01"
-                      step="0.01"
-                      required
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
-                      Category
-                    </label>
-                    <input
-                      required
-                      type="text"
-                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="Enter category"
-                      name="category"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
-                      Description
-                    </label>
-                    <input
-                      type="text"
-                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="Enter description"
-                      required
-                      name="description"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
-                      Notes
-                    </label>
-                    <textarea
-                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="Enter notes"
-                      name="notes"
-                      rows={3}
-                    ></textarea>
-                  </div>
-                  <div className="flex justify-end space-x-3">
-                    <button
-                      type="button"
-                      onClick={() => setShowTransactionModal(false)}
-                      className="px-4 py-2 text-gray-700 hover:text-gray-900 dark:text-gray-300 dark:hover:text-gray-100"
-                    >
-                      Cancel
-                    </button>
-                    <button
-                      type="submit"
-                      className={`px-4 py-2 rounded-md text-white ${
-                        transactionType === "income"
-                          ? "bg-green-600 hover:bg-green-700"
-                          : "bg-red-600 hover:bg-red-700"
-                      }`}
-                    >
-                      Add {transactionType === "income" ? "Income" : "Expense"}
-                    </button>
-                  </div>
-                </form>
+                {transactionType === "transfer" ? (
+                  <form
+                    className="space-y-4"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      const formData = new FormData(e.target as HTMLFormElement);
+                      const fee = parseFloat(formData.get("fee")?.toString() || "0");
+                      const data: TransferData = {
+                        fromAccountId: parseInt(formData.get("fromAccountId")!.toString()),
+                        toAccountId: parseInt(formData.get("toAccountId")!.toString()),
+                        amount: parseFloat(formData.get("amount")!.toString()),
+                        fee: fee > 0 ? fee : undefined,
+                        description: formData.get("description")?.toString() || undefined,
+                        notes: formData.get("notes")?.toString() || undefined,
+                      };
+                      processAddTransfer(data);
+                    }}
+                  >
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+                        From Account
+                      </label>
+                      <select
+                        required
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        name="fromAccountId"
+                        defaultValue={accounts[0]?.Id}
+                      >
+                        {accounts.map((account) => (
+                          <option key={account.Id} value={account.Id}>
+                            {account.Name} ({account.Currency})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+                        To Account
+                      </label>
+                      <select
+                        required
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        name="toAccountId"
+                        defaultValue={accounts[1]?.Id}
+                      >
+                        {accounts.map((account) => (
+                          <option key={account.Id} value={account.Id}>
+                            {account.Name} ({account.Currency})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+                        Amount
+                      </label>
+                      <input
+                        type="number"
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Enter amount in the source account's currency"
+                        name="amount"
+                        min="0.01"
+                        step="0.01"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+                        Fee
+                      </label>
+                      <input
+                        type="number"
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Optional, taken from the source account"
+                        name="fee"
+                        min="0"
+                        step="0.01"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+                        Description
+                      </label>
+                      <input
+                        type="text"
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Optional"
+                        name="description"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+                        Notes
+                      </label>
+                      <textarea
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Enter notes"
+                        name="notes"
+                        rows={3}
+                      ></textarea>
+                    </div>
+                    <div className="flex justify-end space-x-3">
+                      <button
+                        type="button"
+                        onClick={() => setShowTransactionModal(false)}
+                        className="px-4 py-2 text-gray-700 hover:text-gray-900 dark:text-gray-300 dark:hover:text-gray-100"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        className="px-4 py-2 rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                      >
+                        Add Transfer
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <form
+                    className="space-y-4"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      const formData = new FormData(e.target as HTMLFormElement);
+                      const data: TransactionData = {
+                        amount: parseFloat(formData.get("amount")!.toString()),
+                        category: formData.get("category")!.toString(),
+                        description: formData.get("description")!.toString(),
+                        notes: formData.get("notes")?.toString(),
+                        isIncome: transactionType === "income",
+                        amounts: [],
+                      };
+                      if (data.notes == "") {
+                        data.notes = undefined;
+                      }
+                      // Past days are sent as midday so they stay on the same day in nearby time zones, today is left to default to now
+                      const occurredOn = formData.get("occurredOn")?.toString();
+                      if (occurredOn && occurredOn !== new Date().toLocaleDateString("en-CA")) {
+                        data.occurredOn = new Date(`${occurredOn}T12:00:00`).toISOString();
+                      }
+                      processAddTransaction(data);
+                    }}
+                  >
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+                        Amount
+                      </label>
+                      <input
+                        type="number"
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Enter amount"
+                        name="amount"
+                        min="0.01"
+                        step="0.01"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+                        Category
+                      </label>
+                      <input
+                        required
+                        type="text"
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Enter category"
+                        name="category"
+                        list="category-options"
+                      />
+                      {/* Suggests the user's categories of the chosen kind, any other name is added as a new category */}
+                      <datalist id="category-options">
+                        {categories
+                          .filter((category) => category.kind === transactionType)
+                          .map((category) => (
+                            <option key={category.id} value={category.name} />
+                          ))}
+                      </datalist>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+                        Description
+                      </label>
+                      <input
+                        type="text"
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Enter description"
+                        required
+                        name="description"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+                        Date
+                      </label>
+                      <input
+                        type="date"
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        name="occurredOn"
+                        defaultValue={new Date().toLocaleDateString("en-CA")}
+                        max={new Date().toLocaleDateString("en-CA")}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+                        Notes
+                      </label>
+                      <textarea
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Enter notes"
+                        name="notes"
+                        rows={3}
+                      ></textarea>
+                    </div>
+                    <div className="flex justify-end space-x-3">
+                      <button
+                        type="button"
+                        onClick={() => setShowTransactionModal(false)}
+                        className="px-4 py-2 text-gray-700 hover:text-gray-900 dark:text-gray-300 dark:hover:text-gray-100"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        className={`px-4 py-2 rounded-md text-white ${
+                          transactionType === "income"
+                            ? "bg-green-600 hover:bg-green-700"
+                            : "bg-red-600 hover:bg-red-700"
+                        }`}
+                      >
+                        Add {transactionTypeLabels[transactionType]}
+                      </button>
+                    </div>
+                  </form>
+                )}
               </div>
             )}
           </div>
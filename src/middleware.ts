@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
 
-const publicRoutes = ['/login', '/register', '/forgot-password']
+const publicRoutes = ['/login', '/register', '/forgot-password', '/reset-password', '/verify-email']
 
 export function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl
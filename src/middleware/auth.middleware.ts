@@ -1,20 +1,40 @@
 import { IUser, User } from '@/models/users.model';
-import { getSession } from "@/utils/session.util";
-import { StatusError } from './errorHandler.middleware';
+import { Session } from '@/models/sessions.model';
+import { isPersonalAccessToken, PersonalAccessToken, TokenScope } from '@/models/personalAccessTokens.model';
+import { getBearerToken, getSession } from "@/utils/session.util";
+import { StatusError } from '@/utils/error.util';
 import { NextRequest } from 'next/server';
 
 export interface AuthenticatedRequest extends NextRequest {
   user: IUser;
+  sessionId?: string;
+  // Only set for personal access tokens, session tokens have every scope
+  scopes?: TokenScope[];
 }
 
 /**
  * Authentication middleware for API routes
- * Verifies the JWT token and attaches the user to the request
+ * Verifies the JWT token or personal access token and attaches the user to the request
  * @param request The incoming request
  * @returns Either the authenticated request or an error response
  */
 export async function authenticate(request: Request): Promise<AuthenticatedRequest | Response> {
   try {
+    const bearerToken = getBearerToken(request);
+    if (bearerToken && isPersonalAccessToken(bearerToken)) {
+      const accessToken = await PersonalAccessToken.verify(bearerToken);
+
+      const user = await User.getUserById(accessToken.userId);
+      if (!user) {
+        throw new StatusError('User not found', 401);
+      }
+
+      (request as AuthenticatedRequest).user = user;
+      (request as AuthenticatedRequest).scopes = accessToken.scopes;
+
+      return request as AuthenticatedRequest;
+    }
+
     const session = await getSession(request);
     
     // Verify user still exists and hasn't been deleted
@@ -27,8 +47,13 @@ export async function authenticate(request: Request): Promise<AuthenticatedReque
       throw new StatusError('User data has changed, please log in again', 401);
     }
 
+    if (!(await Session.isActive(user.Id, session.sid))) {
+      throw new StatusError('Session has been revoked, please log in again', 401);
+    }
+
     // Extend the request with the user session
     (request as AuthenticatedRequest).user = user;
+    (request as AuthenticatedRequest).sessionId = session.sid;
     
     return request as AuthenticatedRequest;
   } catch (error) {
@@ -45,10 +70,12 @@ export async function authenticate(request: Request): Promise<AuthenticatedReque
 /**
  * Higher-order function that wraps an API handler with authentication
  * @param handler The API handler function to wrap
+ * @param scope Scope a personal access token needs for this handler, handlers without a scope only accept session tokens
  * @returns A new handler function that includes authentication
  */
 export function withAuth<T extends unknown[]>(
-  handler: (req: AuthenticatedRequest, ...args: T) => Promise<Response> | Response
+  handler: (req: AuthenticatedRequest, ...args: T) => Promise<Response> | Response,
+  scope?: TokenScope
 ) {
   return async (request: Request | NextRequest, ...args: T) => {
     const authResult = await authenticate(request);
@@ -57,6 +84,15 @@ export function withAuth<T extends unknown[]>(
       // Authentication failed, return the error response
       return authResult;
     }
+
+    if (authResult.scopes) {
+      if (!scope) {
+        throw new StatusError('Personal access tokens cannot be used for this endpoint', 403);
+      }
+      if (!authResult.scopes.includes(scope)) {
+        throw new StatusError(`Token is missing the ${scope} scope`, 403);
+      }
+    }
     
     // Authentication successful, call the handler with the authenticated request
     return handler(authResult, ...args);
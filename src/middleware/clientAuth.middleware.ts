@@ -1,47 +1,130 @@
 "use client"
 
-export async function getAccountDetails(): Promise<{ userName: string, email: string, exp: number } | null> {
-    const token = localStorage.getItem('token');
+import type { IUserPreferences } from "@/models/preferences.model";
+import { defaultPreferences } from "@/utils/format.util";
+
+// Keep in sync with the cookie and header names in session.util.ts
+const csrfCookieName = 'fm_csrf';
+const csrfHeaderName = 'X-CSRF-Token';
+
+/**
+ * Headers that make the auth endpoints set HttpOnly session cookies instead of returning the tokens
+ */
+export const cookieSessionHeaders = { 'X-Session-Mode': 'cookie' };
+
+// Tabs share the session cookies, so only one tab at a time may use the refresh token
+const refreshLockName = 'fm_refresh';
+const refreshedAtKey = 'fm_refreshed_at';
+
+let refreshing: Promise<boolean> | null = null;
+
+function getCsrfToken(): string | null {
+    const cookie = document.cookie.split(';').map((part) => part.trim()).find((part) => part.startsWith(`${csrfCookieName}=`));
+    return cookie ? decodeURIComponent(cookie.slice(csrfCookieName.length + 1)) : null;
+}
+
+function getRefreshedAt(): number {
     try {
-        if (!token) {
-            throw new Error('No token found');
+        return Number(localStorage.getItem(refreshedAtKey) ?? 0);
+    } catch {
+        return 0;
+    }
+}
+
+async function postRefresh(): Promise<boolean> {
+    const response = await fetch('/api/auth/refresh', {
+        method: 'POST',
+        headers: {
+            ...cookieSessionHeaders,
+            [csrfHeaderName]: getCsrfToken() ?? ''
         }
-        const [, payloadBase64] = token.split('.');
-        const payload = JSON.parse(atob(payloadBase64));
-        if (payload.exp * 1000 < Date.now()) {
-            localStorage.removeItem('token');
-            throw new Error('Token expired');
+    });
+    if (response.ok) {
+        try {
+            localStorage.setItem(refreshedAtKey, Date.now().toString());
+        } catch {
+            // Without storage other tabs only miss the shortcut, the lock still keeps them apart
         }
-        if (!payload.userName || !payload.email) {
-            localStorage.removeItem('token');
-            throw new Error('Invalid token payload');
+    }
+    return response.ok;
+}
+
+/**
+ * Rotate the session cookies using the refresh token cookie
+ * Concurrent callers share one refresh, since a refresh token can only be used once.
+ * Other tabs are kept out with a Web Lock, and a tab that waited for the lock
+ * uses the cookies another tab refreshed in the meantime instead of refreshing again
+ * @returns True if the session was refreshed
+ */
+export function refreshSession(): Promise<boolean> {
+    if (!refreshing) {
+        const requestedAt = Date.now();
+        const refresh = () => getRefreshedAt() >= requestedAt ? Promise.resolve(true) : postRefresh();
+        refreshing = (navigator.locks ? navigator.locks.request(refreshLockName, refresh) : refresh())
+            .catch(() => false)
+            .finally(() => {
+                refreshing = null;
+            });
+    }
+    return refreshing;
+}
+
+/**
+ * Fetch an API route with the session cookies
+ * Adds the CSRF token and refreshes the session once if the auth token has expired
+ * @param input Request URL
+ * @param init Request options
+ * @returns Response of the request
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+    const send = () => {
+        const headers = new Headers(init.headers);
+        const csrfToken = getCsrfToken();
+        if (csrfToken) {
+            headers.set(csrfHeaderName, csrfToken);
         }
-        return payload;
+        return fetch(input, { ...init, headers, credentials: 'same-origin' });
+    };
+
+    const response = await send();
+    if (response.status !== 401 || !(await refreshSession())) {
+        return response;
+    }
+    return send();
+}
+
+/**
+ * End the session on the server, which also clears the session cookies
+ */
+export async function logout(): Promise<void> {
+    await authFetch('/api/auth/logout', { method: 'POST' }).catch(() => null);
+}
+
+export async function getAccountDetails(): Promise<{ userId: number, userName: string, email: string } | null> {
+    try {
+        const response = await authFetch('/api/auth/me');
+        if (!response.ok) {
+            return null;
+        }
+        const user = await response.json();
+        return { userId: user.Id, userName: user.Username, email: user.Email };
     } catch {
-        const refreshToken = localStorage.getItem('refreshToken');
-        if (refreshToken) {
-            const response = await fetch('/api/auth/refresh', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({ refreshToken })
-            })
-            if (!response.ok) {
-                localStorage.removeItem('token');
-                localStorage.removeItem('refreshToken');
-                return null;
-            }
-            try {
-                const data = await response.json();
-                localStorage.setItem('token', data.token);
-                const newPayload = JSON.parse(atob(data.token.split('.')[1]));
-                return newPayload;
-            } catch {
-                localStorage.removeItem('token');
-                localStorage.removeItem('refreshToken');
-            }
+        return null;
+    }
+}
+
+/**
+ * Get the currency, time zone, locale and week start amounts and dates are shown with
+ * @returns Preferences of the user, or the defaults if they cannot be loaded
+ */
+export async function getPreferences(): Promise<IUserPreferences> {
+    try {
+        const response = await authFetch('/api/auth/preferences');
+        if (!response.ok) {
+            return defaultPreferences;
         }
-        return null
+        return await response.json();
+    } catch {
+        return defaultPreferences;
     }
-}
\ No newline at end of file
+}
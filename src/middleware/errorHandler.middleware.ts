@@ -1,19 +1,7 @@
+import { StatusError } from "@/utils/error.util";
 import { errorResponse } from "@/utils/response.util";
 
-export class StatusError extends Error {
-    status: number;
-    constructor(message: string | Error, status: number = 400) {
-        if (message instanceof Error) {
-            super(message.message, { cause: message.cause});
-            const message_lines =  (this.message.match(/\n/g)||[]).length + 1
-            this.stack = this.stack?.split('\n').slice(0, message_lines+1).join('\n') + '\n' +
-            message?.stack
-        } else {
-            super(message);
-        }
-        this.status = status;
-    }
-};
+export { StatusError };
 
 export function withErrorHandling<T extends unknown[]>(
     handler: (...args: T) => Promise<Response> | Response
@@ -26,7 +14,7 @@ export function withErrorHandling<T extends unknown[]>(
                 console.error("Error in API handler:", error);
             }
             if (error instanceof StatusError) {
-                return errorResponse(error.message, error.status);
+                return errorResponse(error.message, error.status, error.headers);
             }
             if (error instanceof Error || typeof error === 'string') {
                 return errorResponse(error, 400);
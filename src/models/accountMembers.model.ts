@@ -0,0 +1,265 @@
+import db from '@/services/db.service';
+import { z } from 'zod';
+import { StatusError } from '@/utils/error.util';
+import { AccountMemberRole, accountMemberRoles, AccountRole } from '@/utils/accountTypes.util';
+import { customValidators, validateObject } from '@/utils/validator.util';
+import { Account } from './accounts.model';
+import { Friend } from './friends.model';
+
+export interface IAccountMemberSQL {
+    AccountId: string;
+    UserId: number;
+    Username: string;
+    Role: AccountRole;
+    CreatedOn: Date;
+}
+
+export interface IAccountMember {
+    accountId: number;
+    userId: number;
+    username: string;
+    role: AccountRole;
+    // When the member was added, or when the account was created for its owner
+    addedOn: Date;
+}
+
+export interface INewAccountMember {
+    // Has to be a friend of the owner
+    userId: number;
+    role: AccountMemberRole;
+}
+
+export class AccountMember {
+    /**
+     * Get the owner and members of an account
+     * @param userId User ID who owns or is a member of the account
+     * @param accountId Account to get the members of
+     * @returns Owner first, then the members in the order they were added
+     */
+    public static async getMembers(userId: number, accountId: number): Promise<IAccountMember[]> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, accountId }, {
+            userId: customValidators.id,
+            accountId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, accountId: validAccountId } = validatedDataOrErrors;
+
+        if (!(await Account.getAccountRole(validUserId, validAccountId))) {
+            throw new StatusError('Account not found or does not belong to user', 404);
+        }
+
+        const query = `
+            SELECT a.Id AS AccountId, a.UserId, u.Username, 'owner' AS Role, a.CreatedOn
+            FROM Finance.Accounts a
+            INNER JOIN Auth.Users u ON a.UserId = u.Id
+            WHERE a.Id = @accountId
+            UNION ALL
+            SELECT m.AccountId, m.UserId, u.Username, m.Role, m.CreatedOn
+            FROM Finance.AccountMembers m
+            INNER JOIN Auth.Users u ON m.UserId = u.Id
+            WHERE m.AccountId = @accountId
+            ORDER BY CreatedOn
+        `;
+
+        const result = await db.executeQuery<IAccountMemberSQL[]>(query, { accountId: validAccountId });
+
+        return result.map(member => this.toClient(member));
+    }
+
+    /**
+     * Share an account with a friend
+     * @param userId User ID who owns the account
+     * @param accountId Account to share
+     * @param memberData Friend to share the account with and their role
+     * @returns Added member
+     */
+    public static async addMember(userId: number, accountId: number, memberData: INewAccountMember): Promise<IAccountMember> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            accountId,
+            memberId: memberData.userId,
+            role: memberData.role
+        }, {
+            userId: customValidators.id,
+            accountId: customValidators.id,
+            memberId: customValidators.id,
+            role: z.enum(accountMemberRoles)
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, accountId: validAccountId, memberId, role } = validatedDataOrErrors;
+
+        await this.verifyOwner(validUserId, validAccountId);
+
+        if (memberId === validUserId) {
+            throw new StatusError('userId: You already own this account');
+        }
+        if (!(await Friend.isFriend(validUserId, memberId))) {
+            throw new StatusError('This user is not in your friend list', 403);
+        }
+        if (await Account.getAccountRole(memberId, validAccountId)) {
+            throw new StatusError('This user is already a member of the account', 409);
+        }
+
+        const query = `
+            INSERT INTO Finance.AccountMembers (AccountId, UserId, Role)
+            VALUES (@accountId, @memberId, @role)
+        `;
+
+        await db.executeQuery(query, {
+            accountId: validAccountId,
+            memberId,
+            role
+        });
+
+        const member = await this.findMember(validAccountId, memberId);
+        if (!member) {
+            throw new StatusError('Failed to add member');
+        }
+
+        return this.toClient(member);
+    }
+
+    /**
+     * Change the role of a member of an account
+     * @param userId User ID who owns the account
+     * @param accountId Account the member belongs to
+     * @param memberId User ID of the member
+     * @param role New role
+     * @returns Updated member
+     */
+    public static async updateMemberRole(userId: number, accountId: number, memberId: number, role: AccountMemberRole): Promise<IAccountMember> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, accountId, memberId, role }, {
+            userId: customValidators.id,
+            accountId: customValidators.id,
+            memberId: customValidators.id,
+            role: z.enum(accountMemberRoles)
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, accountId: validAccountId, memberId: validMemberId, role: validRole } = validatedDataOrErrors;
+
+        await this.verifyOwner(validUserId, validAccountId);
+
+        const query = `
+            UPDATE Finance.AccountMembers
+            SET Role = @role
+            WHERE AccountId = @accountId AND UserId = @memberId
+        `;
+
+        await db.executeQuery(query, {
+            accountId: validAccountId,
+            memberId: validMemberId,
+            role: validRole
+        });
+
+        const member = await this.findMember(validAccountId, validMemberId);
+        if (!member) {
+            throw new StatusError('Member not found', 404);
+        }
+
+        return this.toClient(member);
+    }
+
+    /**
+     * Stop sharing an account with a member
+     * The owner can remove any member, members can remove themselves to leave the account
+     * Transactions already recorded on the account are kept
+     * @param userId User ID who owns the account or is the member leaving it
+     * @param accountId Account the member belongs to
+     * @param memberId User ID of the member
+     */
+    public static async removeMember(userId: number, accountId: number, memberId: number): Promise<void> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, accountId, memberId }, {
+            userId: customValidators.id,
+            accountId: customValidators.id,
+            memberId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, accountId: validAccountId, memberId: validMemberId } = validatedDataOrErrors;
+
+        if (validMemberId !== validUserId) {
+            await this.verifyOwner(validUserId, validAccountId);
+        }
+
+        const query = `
+            DELETE FROM Finance.AccountMembers
+            OUTPUT DELETED.AccountId
+            WHERE AccountId = @accountId AND UserId = @memberId
+        `;
+
+        const result = await db.executeQuery<{ AccountId: string }[]>(query, {
+            accountId: validAccountId,
+            memberId: validMemberId
+        });
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Member not found', 404);
+        }
+    }
+
+    /**
+     * Get a member of an account
+     * @param accountId Account the member belongs to
+     * @param memberId User ID of the member
+     * @returns Database row or null if the user is not a member of the account
+     */
+    private static async findMember(accountId: number, memberId: number): Promise<IAccountMemberSQL | null> {
+        const result = await db.executeQuery<IAccountMemberSQL[]>(`
+            SELECT m.AccountId, m.UserId, u.Username, m.Role, m.CreatedOn
+            FROM Finance.AccountMembers m
+            INNER JOIN Auth.Users u ON m.UserId = u.Id
+            WHERE m.AccountId = @accountId AND m.UserId = @memberId
+        `, { accountId, memberId });
+
+        return result.length > 0 ? result[0] : null;
+    }
+
+    /**
+     * Make sure a user owns an account, only owners can manage its members
+     * @param userId User ID to check
+     * @param accountId Account to check
+     */
+    private static async verifyOwner(userId: number, accountId: number): Promise<void> {
+        const role = await Account.getAccountRole(userId, accountId);
+        if (!role) {
+            throw new StatusError('Account not found or does not belong to user', 404);
+        }
+        if (role !== 'owner') {
+            throw new StatusError('Only the owner of the account can manage its members', 403);
+        }
+    }
+
+    /**
+     * Map a database row to the client format
+     * @param member Database row
+     * @returns Account member
+     */
+    private static toClient(member: IAccountMemberSQL): IAccountMember {
+        return {
+            accountId: parseInt(member.AccountId),
+            userId: member.UserId,
+            username: member.Username,
+            role: member.Role,
+            addedOn: member.CreatedOn
+        };
+    }
+}
@@ -1,26 +1,127 @@
-import db from '@/services/db.service';
+import db, { commitTransaction, rollbackTransaction, startTransaction } from '@/services/db.service';
+import { Transaction } from 'mssql';
+import { z } from 'zod';
+import { AccountMemberRole, AccountRole, AccountType, accountTypes, interestAccountTypes, isLiabilityAccount } from '@/utils/accountTypes.util';
+import { DateInterval, dateIntervals, getIntervalBoundaries, toZonedDateString } from '@/utils/date.util';
 import { customValidators, validateObject } from '@/utils/validator.util';
-import { StatusError } from '@/middleware/errorHandler.middleware';
+import { StatusError } from '@/utils/error.util';
+import { IClientDevice } from '@/utils/request.util';
+import { AuditEvent } from './auditEvents.model';
+import { ExchangeRate } from './exchangeRates.model';
+import { UserPreferences } from './preferences.model';
 
 export interface IAccountSQL {
     Id: string;
     UserId: number;
     Name: string;
     Balance: number;
+    // Balance the account started with, Balance should always be this plus the account's transaction amounts
+    OpeningBalance: number;
+    Currency: string;
+    Type: AccountType;
+    CreditLimit: number | null;
+    StatementDay: number | null;
+    InterestRate: number | null;
+    // Set while the account is archived, archived accounts are kept for history but cannot be used in new transactions
+    ArchivedOn: Date | null;
     CreatedOn: Date;
 }
 export interface IAccount extends Omit<IAccountSQL, 'Id'> {
     Id: number;
+    // Role of the user the account was fetched for, null for a friend's account they are not a member of
+    Role?: AccountRole | null;
 }
-export interface INewAccount {
+
+/**
+ * Fields that only apply to some account types
+ * creditLimit and statementDay are for credit cards, interestRate (APR in percent) for savings, credit card and loan accounts
+ */
+export interface IAccountTypeFields {
+    creditLimit?: number | null;
+    statementDay?: number | null;
+    interestRate?: number | null;
+}
+
+export interface INewAccount extends IAccountTypeFields {
     name: string;
+    type?: AccountType;
+    // Defaults to the user's preferred currency, cannot be changed later
+    currency?: string;
     initialBalance?: number;
 }
 
-export interface IEditAccount {
+export interface IEditAccount extends IAccountTypeFields {
+    name?: string;
+    type?: AccountType;
+    // Changing the opening balance moves the current balance by the same amount
+    openingBalance?: number;
+}
+
+export interface INetWorth {
+    // The user's preferred currency, every total is converted to it
+    currency: string;
+    // Money held, including credit cards paid past zero
+    assets: number;
+    // Amount owed on credit card and loan accounts
+    liabilities: number;
+    netWorth: number;
+    // Currencies of accounts left out of the totals because there is no exchange rate for them
+    missingRates: string[];
+    // Accounts other users share with the user, left out of the totals so shared money is only counted by its owner
+    sharedAccounts: INetWorthSharedAccount[];
+}
+
+export interface INetWorthSharedAccount {
+    id: number;
     name: string;
+    role: AccountMemberRole;
+    type: AccountType;
+    // In the account's own currency
+    balance: number;
+    currency: string;
+}
+
+export interface IBalanceHistoryFilters {
+    from?: Date;
+    to?: Date;
+    interval?: DateInterval;
+}
+
+export interface IBalancePoint {
+    // First day of the interval in the user's time zone, YYYY-MM-DD
+    date: string;
+    // Balance at the end of the interval, or now for the interval that is still running
+    balance: number;
+    // How much the balance changed during the interval
+    change: number;
 }
 
+export interface IBalanceHistory {
+    accountId: number;
+    currency: string;
+    interval: DateInterval;
+    points: IBalancePoint[];
+}
+
+// Most points a balance history can have
+const maxHistoryPoints = 1000;
+
+// How far back a balance history goes when no start is given
+const defaultHistoryDays: Record<DateInterval, number> = {
+    day: 30,
+    week: 84,
+    month: 365
+};
+
+const accountTypeFieldValidators = {
+    creditLimit: customValidators.decimal.nonnegative().nullable().optional(),
+    statementDay: z.number().int().min(1).max(31).nullable().optional(),
+    interestRate: customValidators.decimal.min(0).max(100).nullable().optional()
+};
+
+// Matches the accounts Finance.Accounts a the user @userId owns or is a member of
+export const accessibleAccountCondition = `(a.UserId = @userId OR a.Id IN (SELECT AccountId FROM Finance.AccountMembers WHERE UserId = @userId))`;
+
 export class Account {
     /**
      * Create a new account for a user
@@ -35,7 +136,10 @@ export class Account {
         }, {
             userId: customValidators.id,
             name: customValidators.nonEmptyString,
-            initialBalance: customValidators.decimal.optional()
+            type: z.enum(accountTypes).optional(),
+            currency: customValidators.currency.optional(),
+            initialBalance: customValidators.decimal.optional(),
+            ...accountTypeFieldValidators
         });
 
         if (!success) {
@@ -43,31 +147,40 @@ export class Account {
             throw new StatusError(error.path.join(".") + ": " + error.message);
         }
 
-        const { userId: validUserId, name, initialBalance = 0 } = validatedDataOrErrors;
+        const { userId: validUserId, name, type = 'cash', initialBalance = 0, creditLimit = null, statementDay = null, interestRate = null } = validatedDataOrErrors;
+        const currency = validatedDataOrErrors.currency ?? (await UserPreferences.get(validUserId)).currency;
+
+        this.validateTypeFields(type, { creditLimit, statementDay, interestRate });
+        if (type === 'loan' && initialBalance > 0) {
+            throw new StatusError('initialBalance: A loan balance is the amount owed and cannot be positive');
+        }
 
         const query = `
-            INSERT INTO Finance.Accounts (UserId, Name, Balance)
-            OUTPUT INSERTED.Id, INSERTED.UserId, INSERTED.Name, INSERTED.Balance, INSERTED.CreatedOn
-            VALUES (@userId, @name, @balance)
+            INSERT INTO Finance.Accounts (UserId, Name, Balance, OpeningBalance, Currency, Type, CreditLimit, StatementDay, InterestRate)
+            OUTPUT INSERTED.Id, INSERTED.UserId, INSERTED.Name, INSERTED.Balance, INSERTED.OpeningBalance, INSERTED.Currency, INSERTED.Type,
+                INSERTED.CreditLimit, INSERTED.StatementDay, INSERTED.InterestRate, INSERTED.ArchivedOn, INSERTED.CreatedOn
+            VALUES (@userId, @name, @balance, @balance, @currency, @type, @creditLimit, @statementDay, @interestRate)
         `;
 
         const result = await db.executeQuery<IAccountSQL[]>(query, {
             userId: validUserId,
             name,
-            balance: initialBalance
+            balance: initialBalance,
+            currency,
+            type,
+            creditLimit,
+            statementDay,
+            interestRate
         });
 
-        /*TODO:
-            Make a transaction for the initial balance.
-        */
-
         if (!result || result.length === 0) {
             throw new StatusError('Failed to create account');
         }
 
         return {
             ...result[0],
-            Id: parseInt(result[0].Id)
+            Id: parseInt(result[0].Id),
+            Role: 'owner'
         };
     }
 
@@ -75,15 +188,18 @@ export class Account {
      * Get account from Id
      * @param accountId The account ID to retrieve
      * @param userId The user ID to retrieve accounts from
+     * @param asOf Optional point in time to get the balance at instead of the current balance
      * @returns Account details or null if not found
      */
-    public static async getAccount(userId: number, accountId: number): Promise<IAccount | null> {
+    public static async getAccount(userId: number, accountId: number, asOf?: Date): Promise<IAccount | null> {
         const [success, validatedDataOrErrors] = validateObject({
             userId,
-            accountId
+            accountId,
+            asOf
         }, {
             userId: customValidators.id,
-            accountId: customValidators.id
+            accountId: customValidators.id,
+            asOf: z.date().optional()
         });
 
         if (!success) {
@@ -91,19 +207,22 @@ export class Account {
             throw new StatusError(error.path.join(".") + ": " + error.message);
         }
 
-        const { userId: validUserId, accountId: validAccountId } = validatedDataOrErrors;
+        const { userId: validUserId, accountId: validAccountId, asOf: validAsOf } = validatedDataOrErrors;
 
         const query = `
-            SELECT Id, UserId, Name, Balance, CreatedOn
-            FROM Finance.Accounts
-            WHERE Id = @accountId AND (
-                UserId = @userId
-                OR UserId IN (SELECT FriendId FROM Friends.Friends WHERE UserId = @userId)
-                OR UserId IN (SELECT UserId FROM Friends.Friends WHERE FriendId = @userId)
+            SELECT a.Id, a.UserId, a.Name, a.Balance, a.OpeningBalance, a.Currency, a.Type, a.CreditLimit, a.StatementDay, a.InterestRate,
+                a.ArchivedOn, a.CreatedOn, CASE WHEN a.UserId = @userId THEN 'owner' ELSE m.Role END AS Role
+            FROM Finance.Accounts a
+            LEFT JOIN Finance.AccountMembers m ON m.AccountId = a.Id AND m.UserId = @userId
+            WHERE a.Id = @accountId AND (
+                a.UserId = @userId
+                OR m.UserId IS NOT NULL
+                OR a.UserId IN (SELECT FriendId FROM Friends.Friends WHERE UserId = @userId)
+                OR a.UserId IN (SELECT UserId FROM Friends.Friends WHERE FriendId = @userId)
             )
         `;
 
-        const result = await db.executeQuery<IAccountSQL[]>(query, {
+        const result = await db.executeQuery<(IAccountSQL & { Role: AccountRole | null })[]>(query, {
             userId: validUserId,
             accountId: validAccountId
         });
@@ -112,9 +231,19 @@ export class Account {
             return null;
         }
 
-        if (result[0].UserId !== validUserId) {
+        // Members see the account like its owner does, other friends only get its name
+        if (!result[0].Role) {
             result[0].Balance = NaN;
+            result[0].OpeningBalance = NaN;
+            result[0].CreditLimit = null;
+            result[0].StatementDay = null;
+            result[0].InterestRate = null;
             result[0].CreatedOn = new Date(0);
+        } else if (validAsOf) {
+            if (validAsOf < result[0].CreatedOn) {
+                throw new StatusError('asOf: The account did not exist yet');
+            }
+            result[0].Balance = await this.getBalanceAsOf(validAccountId, validAsOf);
         }
 
         return {
@@ -124,13 +253,15 @@ export class Account {
     }
 
     /**
-     * Get all accounts for a specific user
+     * Get all accounts for a specific user, including the accounts shared with them
      * @param userId The user ID to retrieve accounts for
+     * @param includeArchived Whether to include archived accounts
      * @returns Array of user accounts
      */
-    public static async getUserAccounts(userId: number): Promise<IAccount[]> {
-        const [success, validatedDataOrErrors] = validateObject({ userId }, {
-            userId: customValidators.id
+    public static async getUserAccounts(userId: number, includeArchived: boolean = false): Promise<IAccount[]> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, includeArchived }, {
+            userId: customValidators.id,
+            includeArchived: z.boolean()
         });
 
         if (!success) {
@@ -141,13 +272,15 @@ export class Account {
         const { userId: validUserId } = validatedDataOrErrors;
 
         const query = `
-            SELECT Id, UserId, Name, Balance, CreatedOn
-            FROM Finance.Accounts
-            WHERE UserId = @userId
-            ORDER BY CreatedOn DESC
+            SELECT a.Id, a.UserId, a.Name, a.Balance, a.OpeningBalance, a.Currency, a.Type, a.CreditLimit, a.StatementDay, a.InterestRate,
+                a.ArchivedOn, a.CreatedOn, CASE WHEN a.UserId = @userId THEN 'owner' ELSE m.Role END AS Role
+            FROM Finance.Accounts a
+            LEFT JOIN Finance.AccountMembers m ON m.AccountId = a.Id AND m.UserId = @userId
+            WHERE (a.UserId = @userId OR m.UserId IS NOT NULL) ${validatedDataOrErrors.includeArchived ? '' : 'AND a.ArchivedOn IS NULL'}
+            ORDER BY a.CreatedOn DESC
         `;
 
-        const result = await db.executeQuery<IAccountSQL[]>(query, { userId: validUserId });
+        const result = await db.executeQuery<(IAccountSQL & { Role: AccountRole })[]>(query, { userId: validUserId });
 
         return result.map((acc)=>{
             return {
@@ -161,7 +294,7 @@ export class Account {
      * Edit an existing account
      * @param userId The user ID who owns the account
      * @param accountId The account ID to edit
-     * @param accountData Updated account data
+     * @param accountData Fields to change, fields that no longer apply after a type change are cleared
      * @returns Updated account
      */
     public static async editAccount(userId: number, accountId: number, accountData: IEditAccount): Promise<IAccount> {
@@ -172,7 +305,10 @@ export class Account {
         }, {
             userId: customValidators.id,
             accountId: customValidators.id,
-            name: customValidators.nonEmptyString
+            name: customValidators.nonEmptyString.optional(),
+            type: z.enum(accountTypes).optional(),
+            openingBalance: customValidators.decimal.optional(),
+            ...accountTypeFieldValidators
         });
 
         if (!success) {
@@ -180,25 +316,51 @@ export class Account {
             throw new StatusError(error.path.join(".") + ": " + error.message);
         }
 
-        const { userId: validUserId, accountId: validAccountId, name } = validatedDataOrErrors;
+        const { userId: validUserId, accountId: validAccountId, ...changes } = validatedDataOrErrors;
 
         // First check if this account belongs to the user
         const accountExists = await this.verifyAccountOwnership(validUserId, validAccountId);
         if (!accountExists) {
             throw new StatusError('Account not found or does not belong to user', 404);
         }
+        const account = (await this.getAccountById(validAccountId))!;
+
+        const type = changes.type ?? account.Type;
+        const typeChanged = type !== account.Type;
+        const keepOrClear = <T>(change: T | null | undefined, current: T | null, applies: boolean): T | null => {
+            if (change !== undefined) {
+                return change;
+            }
+            return typeChanged && !applies ? null : current;
+        };
+        const typeFields = {
+            creditLimit: keepOrClear(changes.creditLimit, account.CreditLimit, type === 'credit_card'),
+            statementDay: keepOrClear(changes.statementDay, account.StatementDay, type === 'credit_card'),
+            interestRate: keepOrClear(changes.interestRate, account.InterestRate, interestAccountTypes.includes(type))
+        };
+        this.validateTypeFields(type, typeFields);
+
+        const openingBalance = changes.openingBalance ?? account.OpeningBalance;
+        if (type === 'loan' && openingBalance > 0) {
+            throw new StatusError('openingBalance: A loan balance is the amount owed and cannot be positive');
+        }
 
         const query = `
             UPDATE Finance.Accounts
-            SET Name = @name
-            OUTPUT INSERTED.Id, INSERTED.UserId, INSERTED.Name, INSERTED.Balance, INSERTED.CreatedOn
+            SET Name = @name, Type = @type, CreditLimit = @creditLimit, StatementDay = @statementDay, InterestRate = @interestRate,
+                Balance = Balance + @openingBalance - OpeningBalance, OpeningBalance = @openingBalance
+            OUTPUT INSERTED.Id, INSERTED.UserId, INSERTED.Name, INSERTED.Balance, INSERTED.OpeningBalance, INSERTED.Currency, INSERTED.Type,
+                INSERTED.CreditLimit, INSERTED.StatementDay, INSERTED.InterestRate, INSERTED.ArchivedOn, INSERTED.CreatedOn
             WHERE Id = @accountId AND UserId = @userId
         `;
 
         const result = await db.executeQuery<IAccountSQL[]>(query, {
             userId: validUserId,
             accountId: validAccountId,
-            name
+            name: changes.name ?? account.Name,
+            type,
+            openingBalance,
+            ...typeFields
         });
 
         if (!result || result.length === 0) {
@@ -207,17 +369,41 @@ export class Account {
 
         return {
             ...result[0],
-            Id: parseInt(result[0].Id)
+            Id: parseInt(result[0].Id),
+            Role: 'owner'
         };
     }
 
+    /**
+     * Archive an account, hiding it from account lists while keeping its transactions linked to it
+     * @param userId The user ID who owns the account
+     * @param accountId The account ID to archive
+     * @returns Archived account
+     */
+    public static async archiveAccount(userId: number, accountId: number): Promise<IAccount> {
+        return this.setArchived(userId, accountId, true);
+    }
+
+    /**
+     * Restore an archived account
+     * @param userId The user ID who owns the account
+     * @param accountId The account ID to restore
+     * @returns Restored account
+     */
+    public static async restoreAccount(userId: number, accountId: number): Promise<IAccount> {
+        return this.setArchived(userId, accountId, false);
+    }
+
     /**
      * Delete an existing account
+     * Accounts with transactions have to be archived first, deleting them turns their amounts into placeholders
+     * Recurring transactions that use the account are paused
      * @param userId The user ID who owns the account
      * @param accountId The account ID to delete
+     * @param device Device the deletion comes from
      * @returns True if deletion was successful
      */
-    public static async deleteAccount(userId: number, accountId: number) {
+    public static async deleteAccount(userId: number, accountId: number, device: IClientDevice) {
         const [success, validatedDataOrErrors] = validateObject({
             userId,
             accountId
@@ -235,28 +421,218 @@ export class Account {
 
         // First check if this account belongs to the user
         const accountExists = await this.verifyAccountOwnership(validUserId, validAccountId);
-        if (!accountExists) {
+        const account = accountExists ? await this.getAccountById(validAccountId) : null;
+        if (!account) {
+            throw new StatusError('Account not found or does not belong to user', 404);
+        }
+
+        if (!account.ArchivedOn) {
+            const amountsResult = await db.executeQuery<{ count: number }[]>(`
+                SELECT COUNT(*) as count
+                FROM Finance.TransactionAmounts
+                WHERE AccountId = @accountId
+            `, { accountId: validAccountId });
+
+            if (amountsResult[0].count > 0) {
+                throw new StatusError('Account has transactions, archive it before deleting it', 409);
+            }
+        }
+
+        const tx = await startTransaction();
+        try {
+            // TransactionAmounts_FK_Accounts is ON DELETE NO ACTION, so the amounts have to become placeholders before the row can go
+            await db.executeQuery(`
+                UPDATE Finance.TransactionAmounts
+                SET AccountId = NULL, AccountName = @accountName, ExchangeRate = 1
+                WHERE AccountId = @accountId
+            `, {
+                accountId: validAccountId,
+                accountName: account.Name
+            }, tx);
+
+            // Recurring transactions would fail on the missing account every day, pause them until their amounts are changed
+            await db.executeQuery(`
+                UPDATE Finance.RecurringTransactions
+                SET PausedOn = SYSDATETIMEOFFSET()
+                WHERE PausedOn IS NULL AND EXISTS (
+                    SELECT 1
+                    FROM OPENJSON(Amounts) WITH (accountId INT '$.accountId') amt
+                    WHERE amt.accountId = @accountId
+                )
+            `, { accountId: validAccountId }, tx);
+
+            await db.executeQuery(`
+                DELETE FROM Finance.Accounts
+                WHERE Id = @accountId AND UserId = @userId
+            `, {
+                userId: validUserId,
+                accountId: validAccountId
+            }, tx);
+
+            await AuditEvent.record({
+                type: 'account.deleted',
+                userId: validUserId,
+                device,
+                metadata: { accountId: validAccountId, name: account.Name, balance: account.Balance }
+            }, tx);
+
+            await commitTransaction(tx);
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
+        }
+    }
+
+    /**
+     * Reconstruct how the balance of an account changed over time
+     * Balances are worked out backwards from the current balance using the account's transaction amounts
+     * @param userId The user ID who owns or is a member of the account
+     * @param accountId The account ID to get the history of
+     * @param filters Optional range and interval, the range defaults to the last 30 days, 12 weeks or 12 months
+     * @returns Balance at the end of every day, week or month in the user's time zone, oldest first
+     */
+    public static async getBalanceHistory(userId: number, accountId: number, filters: IBalanceHistoryFilters = {}): Promise<IBalanceHistory> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            accountId,
+            ...filters
+        }, {
+            userId: customValidators.id,
+            accountId: customValidators.id,
+            from: z.date().optional(),
+            to: z.date().optional(),
+            interval: z.enum(dateIntervals).optional()
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, accountId: validAccountId, interval = 'day' } = validatedDataOrErrors;
+
+        // Balances of friends' accounts are private, so only the owner and members can see their history
+        if (!(await this.getAccountRole(validUserId, validAccountId))) {
             throw new StatusError('Account not found or does not belong to user', 404);
         }
+        const account = (await this.getAccountById(validAccountId))!;
+
+        const now = new Date();
+        const to = validatedDataOrErrors.to && validatedDataOrErrors.to < now ? validatedDataOrErrors.to : now;
+        let from = validatedDataOrErrors.from ?? new Date(to.getTime() - defaultHistoryDays[interval] * 24 * 60 * 60 * 1000);
+        if (from < account.CreatedOn) {
+            from = account.CreatedOn;
+        }
+        if (from > to) {
+            throw new StatusError('from: Must be before to');
+        }
+
+        const { timezone, weekStart } = await UserPreferences.get(validUserId);
+        const boundaries = getIntervalBoundaries(from, to, interval, timezone, weekStart, maxHistoryPoints);
+        if (!boundaries) {
+            throw new StatusError(`A balance history can have at most ${maxHistoryPoints} points, use a shorter range or a longer interval`);
+        }
 
         const query = `
-            DELETE FROM Finance.Accounts
-            WHERE Id = @accountId AND UserId = @userId
+            SELECT t.OccurredOn,
+                CASE WHEN t.IsIncome = 1 THEN ta.ConvertedAmountPaid ELSE -ta.ConvertedAmountPaid END AS Amount
+            FROM Finance.TransactionAmounts ta
+            INNER JOIN Finance.Transactions t ON ta.TransactionId = t.Id
+            WHERE ta.AccountId = @accountId AND t.OccurredOn > @since
+            ORDER BY t.OccurredOn DESC
         `;
 
-        await db.executeQuery(query, {
-            userId: validUserId,
-            accountId: validAccountId
+        const movements = await db.executeQuery<{ OccurredOn: Date, Amount: number }[]>(query, {
+            accountId: validAccountId,
+            since: boundaries[0]
         });
+
+        // Walk back from the current balance, undoing every movement after each boundary
+        const balances: number[] = new Array(boundaries.length);
+        let balance = account.Balance;
+        let next = 0;
+        for (let i = boundaries.length - 1; i >= 0; i--) {
+            const end = boundaries[i] > now ? now : boundaries[i];
+            while (next < movements.length && movements[next].OccurredOn > end) {
+                balance -= movements[next].Amount;
+                next++;
+            }
+            balances[i] = Math.round(balance * 10000) / 10000;
+        }
+
+        return {
+            accountId: validAccountId,
+            currency: account.Currency,
+            interval,
+            points: boundaries.slice(0, -1).map((start, i) => ({
+                date: toZonedDateString(start, timezone),
+                balance: balances[i + 1],
+                change: Math.round((balances[i + 1] - balances[i]) * 10000) / 10000
+            }))
+        };
+    }
+
+    /**
+     * Get the net worth of a user
+     * Credit card and loan balances count as liabilities, a credit card with a positive balance counts as an asset
+     * Balances are converted to the user's preferred currency with the latest exchange rates, archived accounts are included
+     * Only the user's own accounts are counted, accounts shared with them are listed separately
+     * @param userId The user ID to get the net worth of
+     * @returns Total assets, total liabilities and the difference between them
+     */
+    public static async getNetWorth(userId: number): Promise<INetWorth> {
+        const accounts = await this.getUserAccounts(userId, true);
+        const { currency } = await UserPreferences.get(userId);
+
+        const rates = new Map<string, number | null>();
+        let assets = 0;
+        let liabilities = 0;
+        const sharedAccounts: INetWorthSharedAccount[] = [];
+        for (const account of accounts) {
+            if (account.Role && account.Role !== 'owner') {
+                sharedAccounts.push({
+                    id: account.Id,
+                    name: account.Name,
+                    role: account.Role,
+                    type: account.Type,
+                    balance: account.Balance,
+                    currency: account.Currency
+                });
+                continue;
+            }
+            if (!rates.has(account.Currency)) {
+                rates.set(account.Currency, await ExchangeRate.getRate(userId, account.Currency, currency));
+            }
+            const rate = rates.get(account.Currency);
+            if (rate === null || rate === undefined) {
+                continue;
+            }
+
+            const balance = account.Balance * rate;
+            if (isLiabilityAccount(account.Type) && balance < 0) {
+                liabilities -= balance;
+            } else {
+                assets += balance;
+            }
+        }
+
+        return {
+            currency,
+            assets,
+            liabilities,
+            netWorth: assets - liabilities,
+            missingRates: [...rates].filter(([, rate]) => rate === null).map(([accountCurrency]) => accountCurrency),
+            sharedAccounts
+        };
     }
 
     /**
      * Get account details by ID
-     * @param userId The user ID who owns the account
      * @param accountId The account ID to retrieve
+     * @param transaction Optional database transaction to use
      * @returns Account details or null if not found
      */
-    public static async getAccountById(accountId: number): Promise<IAccount | null> {
+    public static async getAccountById(accountId: number, transaction?: Transaction): Promise<IAccount | null> {
         const [success, validatedDataOrErrors] = validateObject({
             accountId
         }, {
@@ -271,14 +647,14 @@ export class Account {
         const { accountId: validAccountId } = validatedDataOrErrors;
 
         const query = `
-            SELECT Id, UserId, Name, Balance, CreatedOn
+            SELECT Id, UserId, Name, Balance, OpeningBalance, Currency, Type, CreditLimit, StatementDay, InterestRate, ArchivedOn, CreatedOn
             FROM Finance.Accounts
             WHERE Id = @accountId
         `;
 
         const result = await db.executeQuery<IAccountSQL[]>(query, {
             accountId: validAccountId
-        });
+        }, transaction);
 
         if (!result || result.length === 0) {
             return null;
@@ -290,6 +666,121 @@ export class Account {
         };
     }
 
+    /**
+     * Get the role a user has on an account
+     * @param userId The user ID to get the role of
+     * @param accountId The account ID to check
+     * @param transaction Optional database transaction to use
+     * @returns Owner if the account belongs to the user, their member role if it is shared with them, null otherwise
+     */
+    public static async getAccountRole(userId: number, accountId: number, transaction?: Transaction): Promise<AccountRole | null> {
+        const query = `
+            SELECT CASE WHEN a.UserId = @userId THEN 'owner' ELSE m.Role END AS Role
+            FROM Finance.Accounts a
+            LEFT JOIN Finance.AccountMembers m ON m.AccountId = a.Id AND m.UserId = @userId
+            WHERE a.Id = @accountId
+        `;
+
+        const result = await db.executeQuery<{ Role: AccountRole | null }[]>(query, {
+            userId,
+            accountId
+        }, transaction);
+
+        return result.length > 0 ? result[0].Role : null;
+    }
+
+    /**
+     * Work out the balance an account had at a point in time
+     * @param accountId The account ID to get the balance of
+     * @param asOf Point in time to get the balance at
+     * @returns Current balance without the transaction amounts that occurred after asOf
+     */
+    private static async getBalanceAsOf(accountId: number, asOf: Date): Promise<number> {
+        const query = `
+            SELECT a.Balance - ISNULL((
+                SELECT SUM(CASE WHEN t.IsIncome = 1 THEN ta.ConvertedAmountPaid ELSE -ta.ConvertedAmountPaid END)
+                FROM Finance.TransactionAmounts ta
+                INNER JOIN Finance.Transactions t ON ta.TransactionId = t.Id
+                WHERE ta.AccountId = a.Id AND t.OccurredOn > @asOf
+            ), 0) AS Balance
+            FROM Finance.Accounts a
+            WHERE a.Id = @accountId
+        `;
+
+        const result = await db.executeQuery<{ Balance: number }[]>(query, { accountId, asOf });
+
+        return result[0].Balance;
+    }
+
+    /**
+     * Archive or restore an account
+     * @param userId The user ID who owns the account
+     * @param accountId The account ID to archive or restore
+     * @param archived Whether the account should be archived
+     * @returns Updated account
+     */
+    private static async setArchived(userId: number, accountId: number, archived: boolean): Promise<IAccount> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            accountId
+        }, {
+            userId: customValidators.id,
+            accountId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, accountId: validAccountId } = validatedDataOrErrors;
+
+        const accountExists = await this.verifyAccountOwnership(validUserId, validAccountId);
+        if (!accountExists) {
+            throw new StatusError('Account not found or does not belong to user', 404);
+        }
+
+        const query = `
+            UPDATE Finance.Accounts
+            SET ArchivedOn = ${archived ? 'SYSDATETIMEOFFSET()' : 'NULL'}
+            OUTPUT INSERTED.Id, INSERTED.UserId, INSERTED.Name, INSERTED.Balance, INSERTED.OpeningBalance, INSERTED.Currency, INSERTED.Type,
+                INSERTED.CreditLimit, INSERTED.StatementDay, INSERTED.InterestRate, INSERTED.ArchivedOn, INSERTED.CreatedOn
+            WHERE Id = @accountId AND UserId = @userId AND ArchivedOn IS ${archived ? 'NULL' : 'NOT NULL'}
+        `;
+
+        const result = await db.executeQuery<IAccountSQL[]>(query, {
+            userId: validUserId,
+            accountId: validAccountId
+        });
+
+        if (!result || result.length === 0) {
+            throw new StatusError(archived ? 'Account is already archived' : 'Account is not archived', 409);
+        }
+
+        return {
+            ...result[0],
+            Id: parseInt(result[0].Id),
+            Role: 'owner'
+        };
+    }
+
+    /**
+     * Check that only the fields of an account type are set
+     * @param type Account type
+     * @param fields Type-specific fields of the account
+     */
+    private static validateTypeFields(type: AccountType, fields: IAccountTypeFields): void {
+        if (type !== 'credit_card' && fields.creditLimit != null) {
+            throw new StatusError('creditLimit: Only credit card accounts have a credit limit');
+        }
+        if (type !== 'credit_card' && fields.statementDay != null) {
+            throw new StatusError('statementDay: Only credit card accounts have a statement day');
+        }
+        if (!interestAccountTypes.includes(type) && fields.interestRate != null) {
+            throw new StatusError('interestRate: Only savings, credit card and loan accounts have an interest rate');
+        }
+    }
+
     /**
      * Verify if an account belongs to a specific user
      * @param userId The user ID to check ownership against
@@ -0,0 +1,173 @@
+import db from '@/services/db.service';
+import { Transaction } from 'mssql';
+import { z } from 'zod';
+import { StatusError } from '@/utils/error.util';
+import { IClientDevice } from '@/utils/request.util';
+import { customValidators, validateObject } from '@/utils/validator.util';
+
+export const auditEventTypes = [
+    'user.registered',
+    'user.login',
+    'user.login_failed',
+    'user.mfa_failed',
+    'user.locked',
+    'user.refresh',
+    'user.refresh_reused',
+    'user.logout',
+    'user.logout_all',
+    'user.password_changed',
+    'user.password_reset_requested',
+    'user.password_reset',
+    'user.username_changed',
+    'user.email_changed',
+    'user.email_verified',
+    'user.mfa_enabled',
+    'user.mfa_disabled',
+    'user.deleted',
+    'session.revoked',
+    'token.created',
+    'token.revoked',
+    'friend.removed',
+    'account.deleted'
+] as const;
+
+export type AuditEventType = typeof auditEventTypes[number];
+
+export interface IAuditEventSQL {
+    Id: string;
+    UserId: number | null;
+    ActorId: number | null;
+    EventType: string;
+    IpAddress: string | null;
+    UserAgent: string | null;
+    Metadata: string | null;
+    CreatedOn: Date;
+}
+
+export interface IAuditEvent {
+    id: number;
+    type: AuditEventType;
+    actorId: number | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+    metadata: Record<string, unknown> | null;
+    createdOn: Date;
+}
+
+export interface INewAuditEvent {
+    type: AuditEventType;
+    // User whose history the event belongs to, null if it could not be tied to a user
+    userId: number | null;
+    // User who caused the event, defaults to userId
+    actorId?: number | null;
+    // Device of the request that caused the event, leave out when recording the event for someone else
+    device?: IClientDevice;
+    metadata?: Record<string, unknown>;
+}
+
+export interface IAuditEventFilters {
+    page?: number;
+    limit?: number;
+    type?: string;
+}
+
+export interface IAuditEventList {
+    page: number;
+    limit: number;
+    total: number;
+    events: IAuditEvent[];
+}
+
+export class AuditEvent {
+    /**
+     * Append an event to the audit log
+     * Failing to write the audit log never fails the action itself, the error is logged instead
+     * @param event Event to record
+     * @param transaction Optional database transaction to use, the event is then only kept if the action commits
+     */
+    public static async record(event: INewAuditEvent, transaction?: Transaction): Promise<void> {
+        const query = `
+            INSERT INTO Auth.AuditEvents (UserId, ActorId, EventType, IpAddress, UserAgent, Metadata)
+            VALUES (@userId, @actorId, @eventType, @ipAddress, @userAgent, @metadata)
+        `;
+
+        try {
+            await db.executeQuery(query, {
+                userId: event.userId,
+                actorId: event.actorId === undefined ? event.userId : event.actorId,
+                eventType: event.type,
+                ipAddress: event.device?.ip ?? null,
+                userAgent: event.device?.userAgent ?? null,
+                metadata: event.metadata ? JSON.stringify(event.metadata) : null
+            }, transaction);
+        } catch (error) {
+            console.error(`Failed to record audit event ${event.type}:`, error);
+        }
+    }
+
+    /**
+     * Get the security history of a user
+     * @param userId User ID to get events for
+     * @param filters Optional page, page size and event type
+     * @returns Paginated list of events, newest first
+     */
+    public static async getUserEvents(userId: number, filters: IAuditEventFilters = {}): Promise<IAuditEventList> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            ...filters
+        }, {
+            userId: customValidators.id,
+            page: z.number().int().positive().optional(),
+            limit: z.number().int().positive().max(100).optional(),
+            type: z.enum(auditEventTypes).optional()
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, page = 1, limit = 20, type } = validatedDataOrErrors;
+
+        const conditions = ['UserId = @userId'];
+        if (type) {
+            conditions.push('EventType = @type');
+        }
+
+        const params = {
+            userId: validUserId,
+            type: type ?? null,
+            offset: (page - 1) * limit,
+            limit
+        };
+
+        const countResult = await db.executeQuery<{ total: number }[]>(`
+            SELECT COUNT(*) AS total
+            FROM Auth.AuditEvents
+            WHERE ${conditions.join(' AND ')}
+        `, params);
+
+        const result = await db.executeQuery<IAuditEventSQL[]>(`
+            SELECT Id, UserId, ActorId, EventType, IpAddress, UserAgent, Metadata, CreatedOn
+            FROM Auth.AuditEvents
+            WHERE ${conditions.join(' AND ')}
+            ORDER BY CreatedOn DESC, Id DESC
+            OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY
+        `, params);
+
+        return {
+            page,
+            limit,
+            total: countResult[0].total,
+            events: result.map(event => ({
+                id: parseInt(event.Id),
+                type: event.EventType as AuditEventType,
+                actorId: event.ActorId,
+                ipAddress: event.IpAddress,
+                userAgent: event.UserAgent,
+                metadata: event.Metadata ? JSON.parse(event.Metadata) : null,
+                createdOn: event.CreatedOn
+            }))
+        };
+    }
+}
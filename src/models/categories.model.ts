@@ -0,0 +1,529 @@
+import db, { commitTransaction, rollbackTransaction, startTransaction } from '@/services/db.service';
+import { Transaction } from 'mssql';
+import { z } from 'zod';
+import { StatusError } from '@/utils/error.util';
+import { customValidators, validateObject } from '@/utils/validator.util';
+
+export const categoryKinds = ['income', 'expense'] as const;
+
+export type CategoryKind = typeof categoryKinds[number];
+
+interface IDefaultCategory {
+    name: string;
+    kind: CategoryKind;
+    icon: string;
+    color: string;
+    children?: { name: string; icon: string }[];
+}
+
+// Categories every user starts with, subcategories take the colour of their parent
+export const defaultCategories: IDefaultCategory[] = [
+    {
+        name: 'Food & Dining', kind: 'expense', icon: 'utensils', color: '#F97316',
+        children: [{ name: 'Groceries', icon: 'basket-shopping' }, { name: 'Restaurants', icon: 'burger' }]
+    },
+    {
+        name: 'Housing', kind: 'expense', icon: 'house', color: '#6366F1',
+        children: [{ name: 'Rent', icon: 'key' }, { name: 'Utilities', icon: 'bolt' }]
+    },
+    {
+        name: 'Transport', kind: 'expense', icon: 'car', color: '#0EA5E9',
+        children: [{ name: 'Fuel', icon: 'gas-pump' }, { name: 'Public Transport', icon: 'bus' }]
+    },
+    { name: 'Shopping', kind: 'expense', icon: 'bag-shopping', color: '#EC4899' },
+    { name: 'Entertainment', kind: 'expense', icon: 'film', color: '#A855F7' },
+    { name: 'Health', kind: 'expense', icon: 'heart-pulse', color: '#EF4444' },
+    { name: 'Education', kind: 'expense', icon: 'graduation-cap', color: '#14B8A6' },
+    { name: 'Bills & Fees', kind: 'expense', icon: 'file-invoice', color: '#64748B' },
+    { name: 'Salary', kind: 'income', icon: 'briefcase', color: '#22C55E' },
+    { name: 'Business', kind: 'income', icon: 'store', color: '#16A34A' },
+    { name: 'Gifts', kind: 'income', icon: 'gift', color: '#EAB308' },
+    { name: 'Other Income', kind: 'income', icon: 'coins', color: '#84CC16' }
+];
+
+export interface ICategorySQL {
+    Id: string;
+    UserId: number;
+    ParentId: string | null;
+    Name: string;
+    Kind: CategoryKind;
+    Icon: string | null;
+    Color: string | null;
+    CreatedOn: Date;
+}
+
+export interface ICategory {
+    id: number;
+    // Top-level category this one is a subcategory of
+    parentId: number | null;
+    name: string;
+    kind: CategoryKind;
+    // Font Awesome icon name, for example "utensils"
+    icon: string | null;
+    // Hex colour, for example "#F97316"
+    color: string | null;
+    createdOn: Date;
+}
+
+export interface INewCategory {
+    name: string;
+    kind: CategoryKind;
+    // Must be a top-level category of the same kind
+    parentId?: number;
+    icon?: string;
+    color?: string;
+}
+
+export interface IEditCategory {
+    // Renaming a category renames it on its transactions and recurring transactions too
+    name?: string;
+    // Null makes the category top-level
+    parentId?: number | null;
+    icon?: string | null;
+    color?: string | null;
+}
+
+export interface ICategoryReference {
+    // Matched by name without regard to case, unknown names are added to the catalogue
+    category?: string;
+    categoryId?: number;
+}
+
+export interface IResolvedCategory {
+    id: number;
+    name: string;
+}
+
+const categoryColumns = 'Id, UserId, ParentId, Name, Kind, Icon, Color, CreatedOn';
+
+export const categoryValidators = {
+    name: z.string().transform((value) => value.trim().replace(/\s+/g, ' ')).pipe(customValidators.nonEmptyString.max(255)),
+    kind: z.enum(categoryKinds),
+    icon: z.string().regex(/^[a-z0-9-]{1,50}$/, "Icon must be a Font Awesome icon name"),
+    color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, "Color must be a hex colour like #F97316")
+};
+
+export class Category {
+    /**
+     * Get the category catalogue of a user
+     * @param userId User ID the categories belong to
+     * @param kind Optional kind to get only income or only expense categories
+     * @returns Categories, expense before income, each top-level category followed by its subcategories, sorted by name
+     */
+    public static async getCategories(userId: number, kind?: CategoryKind): Promise<ICategory[]> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, kind }, {
+            userId: customValidators.id,
+            kind: categoryValidators.kind.optional()
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const result = await db.executeQuery<ICategorySQL[]>(`
+            SELECT c.Id, c.UserId, c.ParentId, c.Name, c.Kind, c.Icon, c.Color, c.CreatedOn
+            FROM Finance.Categories c
+            LEFT JOIN Finance.Categories p ON c.ParentId = p.Id
+            WHERE c.UserId = @userId AND (@kind IS NULL OR c.Kind = @kind)
+            ORDER BY c.Kind, COALESCE(p.Name, c.Name), CASE WHEN c.ParentId IS NULL THEN 0 ELSE 1 END, c.Name
+        `, {
+            userId: validatedDataOrErrors.userId,
+            kind: validatedDataOrErrors.kind ?? null
+        });
+
+        return result.map(category => this.toClient(category));
+    }
+
+    /**
+     * Get a category of a user
+     * @param userId User ID the category belongs to
+     * @param categoryId Category to get
+     * @returns Category
+     */
+    public static async getCategory(userId: number, categoryId: number): Promise<ICategory> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, categoryId }, {
+            userId: customValidators.id,
+            categoryId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        return this.toClient(await this.findCategory(validatedDataOrErrors.userId, validatedDataOrErrors.categoryId));
+    }
+
+    /**
+     * Add a category to the catalogue of a user
+     * @param userId User ID the category belongs to
+     * @param categoryData Name, kind, parent, icon and colour of the category
+     * @returns Created category
+     */
+    public static async createCategory(userId: number, categoryData: INewCategory): Promise<ICategory> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            ...categoryData
+        }, {
+            userId: customValidators.id,
+            name: categoryValidators.name,
+            kind: categoryValidators.kind,
+            parentId: customValidators.id.optional(),
+            icon: categoryValidators.icon.optional(),
+            color: categoryValidators.color.optional()
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, name, kind, parentId, icon, color } = validatedDataOrErrors;
+
+        if (parentId) {
+            await this.verifyParent(validUserId, parentId, kind);
+        }
+        await this.verifyNameAvailable(validUserId, kind, name);
+
+        const result = await db.executeQuery<ICategorySQL[]>(`
+            INSERT INTO Finance.Categories (UserId, ParentId, Name, Kind, Icon, Color)
+            OUTPUT INSERTED.Id, INSERTED.UserId, INSERTED.ParentId, INSERTED.Name, INSERTED.Kind, INSERTED.Icon, INSERTED.Color, INSERTED.CreatedOn
+            VALUES (@userId, @parentId, @name, @kind, @icon, @color)
+        `, {
+            userId: validUserId,
+            parentId: parentId ?? null,
+            name,
+            kind,
+            icon: icon ?? null,
+            color: color?.toUpperCase() ?? null
+        });
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Failed to create category');
+        }
+
+        return this.toClient(result[0]);
+    }
+
+    /**
+     * Edit a category, its kind cannot be changed
+     * @param userId User ID the category belongs to
+     * @param categoryId Category to edit
+     * @param categoryData Fields to change, null removes the parent, icon or colour
+     * @returns Updated category
+     */
+    public static async editCategory(userId: number, categoryId: number, categoryData: IEditCategory): Promise<ICategory> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            categoryId,
+            ...categoryData
+        }, {
+            userId: customValidators.id,
+            categoryId: customValidators.id,
+            name: categoryValidators.name.optional(),
+            parentId: customValidators.id.nullable().optional(),
+            icon: categoryValidators.icon.nullable().optional(),
+            color: categoryValidators.color.nullable().optional()
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, categoryId: validCategoryId, name, parentId, icon, color } = validatedDataOrErrors;
+
+        const category = await this.findCategory(validUserId, validCategoryId);
+        if (parentId) {
+            if (parentId === validCategoryId) {
+                throw new StatusError('A category cannot be its own parent');
+            }
+            await this.verifyParent(validUserId, parentId, category.Kind);
+            if (await this.hasChildren(validCategoryId)) {
+                throw new StatusError('Category has subcategories, it cannot become a subcategory itself');
+            }
+        }
+        const renamed = name !== undefined && name !== category.Name;
+        if (renamed && name.toLowerCase() !== category.Name.toLowerCase()) {
+            await this.verifyNameAvailable(validUserId, category.Kind, name);
+        }
+
+        let updatedCategory: ICategorySQL;
+        const tx = await startTransaction();
+        try {
+            const result = await db.executeQuery<ICategorySQL[]>(`
+                UPDATE Finance.Categories
+                SET Name = @name, ParentId = @parentId, Icon = @icon, Color = @color
+                OUTPUT INSERTED.Id, INSERTED.UserId, INSERTED.ParentId, INSERTED.Name, INSERTED.Kind, INSERTED.Icon, INSERTED.Color, INSERTED.CreatedOn
+                WHERE Id = @categoryId AND UserId = @userId
+            `, {
+                userId: validUserId,
+                categoryId: validCategoryId,
+                name: name ?? category.Name,
+                parentId: parentId === undefined ? category.ParentId : parentId,
+                icon: icon === undefined ? category.Icon : icon,
+                color: color === undefined ? category.Color : color?.toUpperCase() ?? null
+            }, tx);
+
+            if (!result || result.length === 0) {
+                throw new StatusError('Failed to update category');
+            }
+
+            updatedCategory = result[0];
+            // Transactions and recurring transactions keep the name so older clients still see it
+            if (renamed) {
+                await db.executeQuery(`
+                    UPDATE Finance.Transactions
+                    SET Category = @name
+                    WHERE CategoryId = @categoryId;
+
+                    UPDATE Finance.RecurringTransactions
+                    SET Category = @name
+                    WHERE UserId = @userId AND IsIncome = @isIncome AND Category = @oldName;
+                `, {
+                    userId: validUserId,
+                    categoryId: validCategoryId,
+                    name: updatedCategory.Name,
+                    oldName: category.Name,
+                    isIncome: category.Kind === 'income'
+                }, tx);
+            }
+            await commitTransaction(tx);
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
+        }
+
+        return this.toClient(updatedCategory);
+    }
+
+    /**
+     * Delete a category, its transactions keep the category name but are no longer linked to it
+     * @param userId User ID the category belongs to
+     * @param categoryId Category to delete
+     */
+    public static async deleteCategory(userId: number, categoryId: number): Promise<void> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, categoryId }, {
+            userId: customValidators.id,
+            categoryId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, categoryId: validCategoryId } = validatedDataOrErrors;
+
+        await this.findCategory(validUserId, validCategoryId);
+        if (await this.hasChildren(validCategoryId)) {
+            throw new StatusError('Category has subcategories, delete or move them first', 409);
+        }
+
+        const tx = await startTransaction();
+        try {
+            await db.executeQuery(`
+                UPDATE Finance.Transactions
+                SET CategoryId = NULL
+                WHERE CategoryId = @categoryId
+            `, { categoryId: validCategoryId }, tx);
+
+            const result = await db.executeQuery<{ Id: string }[]>(`
+                DELETE FROM Finance.Categories
+                OUTPUT DELETED.Id
+                WHERE Id = @categoryId AND UserId = @userId
+            `, { userId: validUserId, categoryId: validCategoryId }, tx);
+
+            if (!result || result.length === 0) {
+                throw new StatusError('Category not found', 404);
+            }
+            await commitTransaction(tx);
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
+        }
+    }
+
+    /**
+     * Add the default categories to the catalogue of a new user
+     * @param userId User ID to seed the categories for
+     * @param tx Optional database transaction to use
+     */
+    public static async seedDefaults(userId: number, tx?: Transaction): Promise<void> {
+        const [success, validatedDataOrErrors] = validateObject({ userId }, {
+            userId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        for (const category of defaultCategories) {
+            const result = await db.executeQuery<{ Id: string }[]>(`
+                INSERT INTO Finance.Categories (UserId, Name, Kind, Icon, Color)
+                OUTPUT INSERTED.Id
+                SELECT @userId, @name, @kind, @icon, @color
+                WHERE NOT EXISTS (SELECT 1 FROM Finance.Categories WHERE UserId = @userId AND Kind = @kind AND Name = @name)
+            `, {
+                userId: validatedDataOrErrors.userId,
+                name: category.name,
+                kind: category.kind,
+                icon: category.icon,
+                color: category.color
+            }, tx);
+
+            if (!result || result.length === 0 || !category.children) {
+                continue;
+            }
+
+            for (const child of category.children) {
+                await db.executeQuery(`
+                    INSERT INTO Finance.Categories (UserId, ParentId, Name, Kind, Icon, Color)
+                    SELECT @userId, @parentId, @name, @kind, @icon, @color
+                    WHERE NOT EXISTS (SELECT 1 FROM Finance.Categories WHERE UserId = @userId AND Kind = @kind AND Name = @name)
+                `, {
+                    userId: validatedDataOrErrors.userId,
+                    parentId: parseInt(result[0].Id),
+                    name: child.name,
+                    kind: category.kind,
+                    icon: child.icon,
+                    color: category.color
+                }, tx);
+            }
+        }
+    }
+
+    /**
+     * Find the category a transaction is filed under
+     * A category ID must be one of the user's categories of the transaction's kind,
+     * a name is matched without regard to case and added to the catalogue when the user does not have it yet
+     * @param userId User ID whose catalogue to use
+     * @param reference Category name or ID, the ID wins when both are given
+     * @param isIncome Whether the transaction is income, which decides the kind of the category
+     * @param tx Optional database transaction to use
+     * @returns ID and name of the category as stored in the catalogue
+     */
+    public static async resolveCategory(userId: number, reference: ICategoryReference, isIncome: boolean, tx?: Transaction): Promise<IResolvedCategory> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            ...reference
+        }, {
+            userId: customValidators.id,
+            category: categoryValidators.name.optional(),
+            categoryId: customValidators.id.optional()
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, category, categoryId } = validatedDataOrErrors;
+        const kind: CategoryKind = isIncome ? 'income' : 'expense';
+
+        if (categoryId) {
+            const result = await db.executeQuery<ICategorySQL[]>(`
+                SELECT ${categoryColumns}
+                FROM Finance.Categories
+                WHERE Id = @categoryId AND UserId = @userId
+            `, { userId: validUserId, categoryId }, tx);
+
+            if (!result || result.length === 0) {
+                throw new StatusError(`Category with ID ${categoryId} not found`);
+            }
+            if (result[0].Kind !== kind) {
+                throw new StatusError(`Category with ID ${categoryId} is not an ${kind} category`);
+            }
+            return { id: parseInt(result[0].Id), name: result[0].Name };
+        }
+
+        if (!category) {
+            throw new StatusError('Either category or categoryId must be provided');
+        }
+
+        const result = await db.executeQuery<{ Id: string; Name: string }[]>(`
+            IF NOT EXISTS (SELECT 1 FROM Finance.Categories WHERE UserId = @userId AND Kind = @kind AND LOWER(Name) = LOWER(@name))
+                INSERT INTO Finance.Categories (UserId, Name, Kind)
+                VALUES (@userId, @name, @kind);
+
+            SELECT Id, Name
+            FROM Finance.Categories
+            WHERE UserId = @userId AND Kind = @kind AND LOWER(Name) = LOWER(@name);
+        `, { userId: validUserId, kind, name: category }, tx);
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Failed to create category');
+        }
+
+        return { id: parseInt(result[0].Id), name: result[0].Name };
+    }
+
+    private static async findCategory(userId: number, categoryId: number): Promise<ICategorySQL> {
+        const result = await db.executeQuery<ICategorySQL[]>(`
+            SELECT ${categoryColumns}
+            FROM Finance.Categories
+            WHERE Id = @categoryId AND UserId = @userId
+        `, { userId, categoryId });
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Category not found', 404);
+        }
+
+        return result[0];
+    }
+
+    // Only two levels are kept, so a parent must itself be top-level
+    private static async verifyParent(userId: number, parentId: number, kind: CategoryKind): Promise<void> {
+        const result = await db.executeQuery<ICategorySQL[]>(`
+            SELECT ${categoryColumns}
+            FROM Finance.Categories
+            WHERE Id = @parentId AND UserId = @userId
+        `, { userId, parentId });
+
+        if (!result || result.length === 0) {
+            throw new StatusError(`Category with ID ${parentId} not found`);
+        }
+        if (result[0].Kind !== kind) {
+            throw new StatusError('parentId: Must be a category of the same kind');
+        }
+        if (result[0].ParentId !== null) {
+            throw new StatusError('parentId: Subcategories cannot have subcategories');
+        }
+    }
+
+    private static async verifyNameAvailable(userId: number, kind: CategoryKind, name: string): Promise<void> {
+        const result = await db.executeQuery<{ Id: string }[]>(`
+            SELECT Id
+            FROM Finance.Categories
+            WHERE UserId = @userId AND Kind = @kind AND LOWER(Name) = LOWER(@name)
+        `, { userId, kind, name });
+
+        if (result && result.length > 0) {
+            throw new StatusError(`An ${kind} category named ${name} already exists`, 409);
+        }
+    }
+
+    private static async hasChildren(categoryId: number): Promise<boolean> {
+        const result = await db.executeQuery<{ count: number }[]>(`
+            SELECT COUNT(*) AS count
+            FROM Finance.Categories
+            WHERE ParentId = @categoryId
+        `, { categoryId });
+
+        return result[0].count > 0;
+    }
+
+    private static toClient(category: ICategorySQL): ICategory {
+        return {
+            id: parseInt(category.Id),
+            parentId: category.ParentId ? parseInt(category.ParentId) : null,
+            name: category.Name,
+            kind: category.Kind,
+            icon: category.Icon,
+            color: category.Color,
+            createdOn: category.CreatedOn
+        };
+    }
+}
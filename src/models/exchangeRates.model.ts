@@ -0,0 +1,331 @@
+import db, { commitTransaction, rollbackTransaction, startTransaction } from '@/services/db.service';
+import { Transaction } from 'mssql';
+import { z } from 'zod';
+import { StatusError } from '@/utils/error.util';
+import { customValidators, validateObject } from '@/utils/validator.util';
+
+// Largest file the import accepts, in rows
+const maxImportRows = 1000;
+
+export interface IExchangeRateSQL {
+    Id: string;
+    UserId: number;
+    BaseCurrency: string;
+    QuoteCurrency: string;
+    Rate: number;
+    EffectiveOn: Date;
+    Source: 'manual' | 'import';
+    CreatedOn: Date;
+}
+
+export interface IExchangeRate {
+    id: number;
+    baseCurrency: string;
+    quoteCurrency: string;
+    // Units of quoteCurrency one unit of baseCurrency is worth
+    rate: number;
+    // Day the rate applies from, YYYY-MM-DD
+    effectiveOn: string;
+    source: 'manual' | 'import';
+    createdOn: Date;
+}
+
+export interface INewExchangeRate {
+    baseCurrency: string;
+    quoteCurrency: string;
+    rate: number;
+    // Defaults to today
+    effectiveOn?: string;
+}
+
+export interface IExchangeRateFilters {
+    baseCurrency?: string;
+    quoteCurrency?: string;
+}
+
+const exchangeRateValidators = {
+    baseCurrency: customValidators.currency,
+    quoteCurrency: customValidators.currency,
+    rate: customValidators.decimal.positive(),
+    effectiveOn: z.string().date("Invalid date, use YYYY-MM-DD").optional()
+};
+
+export class ExchangeRate {
+    /**
+     * Add a rate, replacing the rate of the same pair for the same day
+     * @param userId User ID the rate belongs to
+     * @param rateData Currency pair, rate and the day it applies from
+     * @returns Saved rate
+     */
+    public static async setRate(userId: number, rateData: INewExchangeRate): Promise<IExchangeRate> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            ...rateData
+        }, {
+            userId: customValidators.id,
+            ...exchangeRateValidators
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, ...rate } = validatedDataOrErrors;
+
+        return this.upsert(validUserId, rate, 'manual');
+    }
+
+    /**
+     * Import rates from a CSV file
+     * The file has a header row with the columns baseCurrency, quoteCurrency, rate and optionally effectiveOn, in any order
+     * Either every row is imported or none are
+     * @param userId User ID the rates belong to
+     * @param csv Contents of the file
+     * @returns Number of rates imported
+     */
+    public static async importRates(userId: number, csv: string): Promise<{ imported: number }> {
+        const [success, validatedDataOrErrors] = validateObject({ userId }, {
+            userId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId } = validatedDataOrErrors;
+
+        const lines = csv.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+        if (lines.length < 2) {
+            throw new StatusError('File must have a header row and at least one rate');
+        }
+        if (lines.length - 1 > maxImportRows) {
+            throw new StatusError(`File can have at most ${maxImportRows} rates`);
+        }
+
+        const header = lines[0].split(',').map(column => column.trim());
+        for (const column of ['baseCurrency', 'quoteCurrency', 'rate']) {
+            if (!header.includes(column)) {
+                throw new StatusError(`File is missing the ${column} column`);
+            }
+        }
+
+        const rates = lines.slice(1).map((line, index) => {
+            const values = line.split(',').map(value => value.trim());
+            const row = Object.fromEntries(header.map((column, i) => [column, values[i]]));
+            const [rowSuccess, rowOrErrors] = validateObject({
+                baseCurrency: row.baseCurrency,
+                quoteCurrency: row.quoteCurrency,
+                rate: Number(row.rate),
+                effectiveOn: row.effectiveOn || undefined
+            }, exchangeRateValidators);
+
+            if (!rowSuccess) {
+                const error = rowOrErrors.errors[0];
+                throw new StatusError(`Row ${index + 2} ${error.path.join(".")}: ${error.message}`);
+            }
+            return rowOrErrors;
+        });
+
+        const tx = await startTransaction();
+        try {
+            for (const rate of rates) {
+                await this.upsert(validUserId, rate, 'import', tx);
+            }
+            await commitTransaction(tx);
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
+        }
+
+        return { imported: rates.length };
+    }
+
+    /**
+     * Get the rates of a user
+     * @param userId User ID to get rates for
+     * @param filters Optional base and quote currency
+     * @returns Rates, newest first
+     */
+    public static async getRates(userId: number, filters: IExchangeRateFilters = {}): Promise<IExchangeRate[]> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            ...filters
+        }, {
+            userId: customValidators.id,
+            baseCurrency: customValidators.currency.optional(),
+            quoteCurrency: customValidators.currency.optional()
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, baseCurrency, quoteCurrency } = validatedDataOrErrors;
+
+        const conditions = ['UserId = @userId'];
+        if (baseCurrency) {
+            conditions.push('BaseCurrency = @baseCurrency');
+        }
+        if (quoteCurrency) {
+            conditions.push('QuoteCurrency = @quoteCurrency');
+        }
+
+        const query = `
+            SELECT Id, UserId, BaseCurrency, QuoteCurrency, Rate, EffectiveOn, Source, CreatedOn
+            FROM Finance.ExchangeRates
+            WHERE ${conditions.join(' AND ')}
+            ORDER BY EffectiveOn DESC, BaseCurrency, QuoteCurrency
+        `;
+
+        const result = await db.executeQuery<IExchangeRateSQL[]>(query, {
+            userId: validUserId,
+            baseCurrency: baseCurrency ?? null,
+            quoteCurrency: quoteCurrency ?? null
+        });
+
+        return result.map(rate => this.toClient(rate));
+    }
+
+    /**
+     * Delete a rate
+     * Amounts already converted with it keep their rate
+     * @param userId User ID the rate belongs to
+     * @param rateId Rate to delete
+     */
+    public static async deleteRate(userId: number, rateId: number): Promise<void> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, rateId }, {
+            userId: customValidators.id,
+            rateId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const query = `
+            DELETE FROM Finance.ExchangeRates
+            OUTPUT DELETED.Id
+            WHERE Id = @rateId AND UserId = @userId
+        `;
+
+        const result = await db.executeQuery<{ Id: string }[]>(query, validatedDataOrErrors);
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Exchange rate not found', 404);
+        }
+    }
+
+    /**
+     * Get the rate to convert between two currencies on a day
+     * Uses the latest rate of the pair that applies on the day, or the reverse pair if there is none
+     * @param userId User ID whose rates to use
+     * @param from Currency to convert from
+     * @param to Currency to convert to
+     * @param asOf Day the conversion happens on
+     * @param transaction Optional database transaction to use
+     * @returns Units of `to` one unit of `from` is worth, null if the user has no rate for the pair
+     */
+    public static async getRate(userId: number, from: string, to: string, asOf: Date = new Date(), transaction?: Transaction): Promise<number | null> {
+        if (from === to) {
+            return 1;
+        }
+
+        const query = `
+            SELECT TOP 1 CASE WHEN BaseCurrency = @from THEN Rate ELSE 1 / Rate END AS Rate
+            FROM Finance.ExchangeRates
+            WHERE UserId = @userId AND EffectiveOn <= CAST(@asOf AS DATE)
+                AND ((BaseCurrency = @from AND QuoteCurrency = @to) OR (BaseCurrency = @to AND QuoteCurrency = @from))
+            ORDER BY EffectiveOn DESC, CASE WHEN BaseCurrency = @from THEN 0 ELSE 1 END
+        `;
+
+        const result = await db.executeQuery<{ Rate: number }[]>(query, { userId, from, to, asOf }, transaction);
+
+        if (!result || result.length === 0) {
+            return null;
+        }
+
+        return Math.round(result[0].Rate * 1e8) / 1e8;
+    }
+
+    /**
+     * Get the rate to convert between two currencies, failing if there is none
+     * @param userId User ID whose rates to use
+     * @param from Currency to convert from
+     * @param to Currency to convert to
+     * @param asOf Day the conversion happens on
+     * @param transaction Optional database transaction to use
+     * @returns Units of `to` one unit of `from` is worth
+     */
+    public static async requireRate(userId: number, from: string, to: string, asOf: Date = new Date(), transaction?: Transaction): Promise<number> {
+        const rate = await this.getRate(userId, from, to, asOf, transaction);
+        if (rate === null) {
+            throw new StatusError(`No exchange rate from ${from} to ${to}, add one before using both currencies together`);
+        }
+        return rate;
+    }
+
+    /**
+     * Insert a rate or replace the rate of the same pair for the same day
+     * @param userId User ID the rate belongs to
+     * @param rate Validated rate
+     * @param source Whether the rate was entered by hand or imported
+     * @param transaction Optional database transaction to use
+     * @returns Saved rate
+     */
+    private static async upsert(userId: number, rate: INewExchangeRate, source: 'manual' | 'import', transaction?: Transaction): Promise<IExchangeRate> {
+        if (rate.baseCurrency === rate.quoteCurrency) {
+            throw new StatusError('quoteCurrency: Must be different from baseCurrency');
+        }
+
+        const query = `
+            MERGE Finance.ExchangeRates AS target
+            USING (SELECT @userId AS UserId, @baseCurrency AS BaseCurrency, @quoteCurrency AS QuoteCurrency,
+                COALESCE(CAST(@effectiveOn AS DATE), CAST(SYSDATETIMEOFFSET() AS DATE)) AS EffectiveOn) AS source
+            ON target.UserId = source.UserId AND target.BaseCurrency = source.BaseCurrency
+                AND target.QuoteCurrency = source.QuoteCurrency AND target.EffectiveOn = source.EffectiveOn
+            WHEN MATCHED THEN
+                UPDATE SET Rate = @rate, Source = @source, CreatedOn = SYSDATETIMEOFFSET()
+            WHEN NOT MATCHED THEN
+                INSERT (UserId, BaseCurrency, QuoteCurrency, Rate, EffectiveOn, Source)
+                VALUES (source.UserId, source.BaseCurrency, source.QuoteCurrency, @rate, source.EffectiveOn, @source)
+            OUTPUT INSERTED.Id, INSERTED.UserId, INSERTED.BaseCurrency, INSERTED.QuoteCurrency, INSERTED.Rate,
+                INSERTED.EffectiveOn, INSERTED.Source, INSERTED.CreatedOn;
+        `;
+
+        const result = await db.executeQuery<IExchangeRateSQL[]>(query, {
+            userId,
+            baseCurrency: rate.baseCurrency,
+            quoteCurrency: rate.quoteCurrency,
+            rate: rate.rate,
+            effectiveOn: rate.effectiveOn ?? null,
+            source
+        }, transaction);
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Failed to save exchange rate');
+        }
+
+        return this.toClient(result[0]);
+    }
+
+    /**
+     * Map a database row to the client format
+     * @param rate Database row
+     * @returns Exchange rate
+     */
+    private static toClient(rate: IExchangeRateSQL): IExchangeRate {
+        return {
+            id: parseInt(rate.Id),
+            baseCurrency: rate.BaseCurrency,
+            quoteCurrency: rate.QuoteCurrency,
+            rate: rate.Rate,
+            effectiveOn: rate.EffectiveOn.toISOString().slice(0, 10),
+            source: rate.Source,
+            createdOn: rate.CreatedOn
+        };
+    }
+}
@@ -1,7 +1,9 @@
 import db, { commitTransaction, rollbackTransaction, startTransaction } from '@/services/db.service';
-import { StatusError } from '@/middleware/errorHandler.middleware';
+import { StatusError } from '@/utils/error.util';
+import { IClientDevice } from '@/utils/request.util';
 import { customValidators, validateObject } from '@/utils/validator.util';
 import { z } from 'zod';
+import { AuditEvent } from './auditEvents.model';
 
 export interface IFriendSQL {
     UserId: number;
@@ -139,11 +141,11 @@ export class Friend {
 
         const { userId: validUserId, friendIdentifier } = validatedDataOrErrors;
 
-        // First, find the friend by username or email
+        // First, find the friend by username or verified email
         const findFriendQuery = `
             SELECT Id
             FROM Auth.Users
-            WHERE Username = @friendIdentifier OR Email = @friendIdentifier
+            WHERE Username = @friendIdentifier OR (Email = @friendIdentifier AND EmailVerified = 1)
         `;
 
         const findFriendResult = await db.executeQuery<{ Id: number }[]>(findFriendQuery, { friendIdentifier });
@@ -283,8 +285,9 @@ export class Friend {
      * Remove a friend from the user's friend list
      * @param userId User ID removing the friend
      * @param friendId Friend ID to be removed
+     * @param device Device the removal comes from
      */
-    public static async removeFriend(userId: number, friendId: number): Promise<void> {
+    public static async removeFriend(userId: number, friendId: number, device: IClientDevice): Promise<void> {
         const [success, validatedDataOrErrors] = validateObject({ 
             userId,
             friendId 
@@ -316,6 +319,24 @@ export class Friend {
             userId: validUserId,
             friendId: validFriendId 
         });
+
+        // Accounts can only be shared with friends, so they stop sharing their accounts with each other
+        const removeMembershipsQuery = `
+            DELETE m
+            FROM Finance.AccountMembers m
+            INNER JOIN Finance.Accounts a ON m.AccountId = a.Id
+            WHERE (a.UserId = @userId AND m.UserId = @friendId)
+               OR (a.UserId = @friendId AND m.UserId = @userId)
+        `;
+
+        await db.executeQuery(removeMembershipsQuery, {
+            userId: validUserId,
+            friendId: validFriendId
+        });
+
+        // Both users see the removal, only the user who removed the friend gets their device recorded
+        await AuditEvent.record({ type: 'friend.removed', userId: validUserId, device, metadata: { friendId: validFriendId } });
+        await AuditEvent.record({ type: 'friend.removed', userId: validFriendId, actorId: validUserId, metadata: { friendId: validUserId } });
     }
 
     /**
@@ -359,11 +380,11 @@ export class Friend {
             throw new StatusError('Friend not found', 404);
         }
 
-        // Get friend's accounts (without balance)
+        // Get friend's accounts (without balance), archived accounts cannot be used in new transactions
         const getAccountsQuery = `
             SELECT Id, Name, CreatedOn
             FROM Finance.Accounts
-            WHERE UserId = @friendId
+            WHERE UserId = @friendId AND ArchivedOn IS NULL
             ORDER BY CreatedOn DESC
         `;
 
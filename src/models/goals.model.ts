@@ -0,0 +1,586 @@
+import db, { commitTransaction, rollbackTransaction, startTransaction } from '@/services/db.service';
+import { Transaction } from 'mssql';
+import { z } from 'zod';
+import { StatusError } from '@/utils/error.util';
+import { parseDateFilter, toZonedDateString } from '@/utils/date.util';
+import { customValidators, validateObject } from '@/utils/validator.util';
+import { accessibleAccountCondition, Account } from './accounts.model';
+import { ExchangeRate } from './exchangeRates.model';
+import { UserPreferences } from './preferences.model';
+
+// How far back the saving rate of a goal is measured, in days
+const rateWindowDays = 90;
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+export interface IGoalSQL {
+    Id: string;
+    UserId: number;
+    Name: string;
+    TargetAmount: number;
+    Currency: string;
+    Deadline: Date | null;
+    CreatedOn: Date;
+}
+
+export interface IGoalContributionSQL {
+    Id: string;
+    GoalId: string;
+    Amount: number;
+    Note: string | null;
+    ContributedOn: Date;
+    CreatedOn: Date;
+}
+
+export interface IGoalProgress {
+    // Everything below is in the goal's currency
+    saved: number;
+    // Balance of the linked accounts
+    fromAccounts: number;
+    // Contributions recorded on the goal by hand
+    fromContributions: number;
+    remaining: number;
+    // Share of the target saved, in percent, at most 100
+    percent: number;
+    achieved: boolean;
+    // Average amount saved per 30 days over the last 90 days
+    monthlyRate: number;
+    // Day the target is reached at the current rate, YYYY-MM-DD, null if achieved or nothing is being saved
+    projectedCompletion: string | null;
+    // Amount to save every 30 days to reach the target by the deadline, null without a deadline, once achieved or past the deadline
+    requiredMonthly: number | null;
+    // Whether the target is reached by the deadline at the current rate, null without a deadline
+    onTrack: boolean | null;
+    // Currencies of linked accounts left out because there is no exchange rate for them
+    missingRates: string[];
+}
+
+export interface IGoal {
+    id: number;
+    name: string;
+    targetAmount: number;
+    currency: string;
+    // YYYY-MM-DD
+    deadline: string | null;
+    // Linked accounts the user can still see, accounts they left stop counting
+    accountIds: number[];
+    createdOn: Date;
+    progress: IGoalProgress;
+}
+
+export interface INewGoal {
+    name: string;
+    targetAmount: number;
+    // Defaults to the user's preferred currency, cannot be changed later
+    currency?: string;
+    deadline?: string;
+    // Own accounts or accounts shared with the user
+    accountIds?: number[];
+}
+
+export interface IEditGoal {
+    name?: string;
+    targetAmount?: number;
+    deadline?: string | null;
+    // Replaces the linked accounts
+    accountIds?: number[];
+}
+
+export interface IGoalContribution {
+    id: number;
+    goalId: number;
+    amount: number;
+    note: string | null;
+    contributedOn: Date;
+    createdOn: Date;
+}
+
+export interface INewGoalContribution {
+    // In the goal's currency, negative to take money out
+    amount: number;
+    note?: string;
+    // Defaults to now
+    contributedOn?: string;
+}
+
+const goalValidators = {
+    name: customValidators.nonEmptyString.max(255),
+    targetAmount: customValidators.decimal.positive(),
+    deadline: z.string().date("Invalid date, use YYYY-MM-DD"),
+    accountIds: z.array(customValidators.id)
+};
+
+export class Goal {
+    /**
+     * Create a savings goal
+     * @param userId User ID the goal belongs to
+     * @param goalData Name, target, deadline and linked accounts of the goal
+     * @returns Created goal with its progress
+     */
+    public static async createGoal(userId: number, goalData: INewGoal): Promise<IGoal> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            ...goalData
+        }, {
+            userId: customValidators.id,
+            name: goalValidators.name,
+            targetAmount: goalValidators.targetAmount,
+            currency: customValidators.currency.optional(),
+            deadline: goalValidators.deadline.optional(),
+            accountIds: goalValidators.accountIds.optional()
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, name, targetAmount, deadline, accountIds = [] } = validatedDataOrErrors;
+        const currency = validatedDataOrErrors.currency ?? (await UserPreferences.get(validUserId)).currency;
+
+        await this.verifyAccounts(validUserId, accountIds);
+
+        let goal: IGoalSQL;
+        const tx = await startTransaction();
+        try {
+            const result = await db.executeQuery<IGoalSQL[]>(`
+                INSERT INTO Finance.Goals (UserId, Name, TargetAmount, Currency, Deadline)
+                OUTPUT INSERTED.Id, INSERTED.UserId, INSERTED.Name, INSERTED.TargetAmount, INSERTED.Currency, INSERTED.Deadline, INSERTED.CreatedOn
+                VALUES (@userId, @name, @targetAmount, @currency, @deadline)
+            `, {
+                userId: validUserId,
+                name,
+                targetAmount,
+                currency,
+                deadline: deadline ?? null
+            }, tx);
+
+            if (!result || result.length === 0) {
+                throw new StatusError('Failed to create goal');
+            }
+
+            goal = result[0];
+            await this.setAccounts(parseInt(goal.Id), accountIds, tx);
+            await commitTransaction(tx);
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
+        }
+
+        return this.toClient(goal);
+    }
+
+    /**
+     * Get the savings goals of a user
+     * @param userId User ID to get goals for
+     * @returns Goals with their progress, closest deadline first, goals without a deadline last
+     */
+    public static async getGoals(userId: number): Promise<IGoal[]> {
+        const [success, validatedDataOrErrors] = validateObject({ userId }, {
+            userId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const result = await db.executeQuery<IGoalSQL[]>(`
+            SELECT Id, UserId, Name, TargetAmount, Currency, Deadline, CreatedOn
+            FROM Finance.Goals
+            WHERE UserId = @userId
+            ORDER BY CASE WHEN Deadline IS NULL THEN 1 ELSE 0 END, Deadline, CreatedOn
+        `, validatedDataOrErrors);
+
+        const goals: IGoal[] = [];
+        for (const goal of result) {
+            goals.push(await this.toClient(goal));
+        }
+        return goals;
+    }
+
+    /**
+     * Get a savings goal
+     * @param userId User ID the goal belongs to
+     * @param goalId Goal to get
+     * @returns Goal with its progress
+     */
+    public static async getGoal(userId: number, goalId: number): Promise<IGoal> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, goalId }, {
+            userId: customValidators.id,
+            goalId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        return this.toClient(await this.findGoal(validatedDataOrErrors.userId, validatedDataOrErrors.goalId));
+    }
+
+    /**
+     * Edit a savings goal
+     * @param userId User ID the goal belongs to
+     * @param goalId Goal to edit
+     * @param goalData Fields to change, a null deadline removes it
+     * @returns Updated goal with its progress
+     */
+    public static async editGoal(userId: number, goalId: number, goalData: IEditGoal): Promise<IGoal> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            goalId,
+            ...goalData
+        }, {
+            userId: customValidators.id,
+            goalId: customValidators.id,
+            name: goalValidators.name.optional(),
+            targetAmount: goalValidators.targetAmount.optional(),
+            deadline: goalValidators.deadline.nullable().optional(),
+            accountIds: goalValidators.accountIds.optional()
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, goalId: validGoalId, name, targetAmount, deadline, accountIds } = validatedDataOrErrors;
+
+        const goal = await this.findGoal(validUserId, validGoalId);
+        if (accountIds) {
+            await this.verifyAccounts(validUserId, accountIds);
+        }
+
+        let updatedGoal: IGoalSQL;
+        const tx = await startTransaction();
+        try {
+            const result = await db.executeQuery<IGoalSQL[]>(`
+                UPDATE Finance.Goals
+                SET Name = @name, TargetAmount = @targetAmount, Deadline = @deadline
+                OUTPUT INSERTED.Id, INSERTED.UserId, INSERTED.Name, INSERTED.TargetAmount, INSERTED.Currency, INSERTED.Deadline, INSERTED.CreatedOn
+                WHERE Id = @goalId AND UserId = @userId
+            `, {
+                userId: validUserId,
+                goalId: validGoalId,
+                name: name ?? goal.Name,
+                targetAmount: targetAmount ?? goal.TargetAmount,
+                deadline: deadline === undefined ? goal.Deadline?.toISOString().slice(0, 10) ?? null : deadline
+            }, tx);
+
+            if (!result || result.length === 0) {
+                throw new StatusError('Failed to update goal');
+            }
+
+            updatedGoal = result[0];
+            if (accountIds) {
+                await this.setAccounts(validGoalId, accountIds, tx);
+            }
+            await commitTransaction(tx);
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
+        }
+
+        return this.toClient(updatedGoal);
+    }
+
+    /**
+     * Delete a savings goal and its contributions
+     * Linked accounts and their transactions are not touched
+     * @param userId User ID the goal belongs to
+     * @param goalId Goal to delete
+     */
+    public static async deleteGoal(userId: number, goalId: number): Promise<void> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, goalId }, {
+            userId: customValidators.id,
+            goalId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const result = await db.executeQuery<{ Id: string }[]>(`
+            DELETE FROM Finance.Goals
+            OUTPUT DELETED.Id
+            WHERE Id = @goalId AND UserId = @userId
+        `, validatedDataOrErrors);
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Goal not found', 404);
+        }
+    }
+
+    /**
+     * Record money put towards a goal outside of its linked accounts
+     * @param userId User ID the goal belongs to
+     * @param goalId Goal to contribute to
+     * @param contributionData Amount in the goal's currency, an optional note and when it was contributed
+     * @returns Recorded contribution
+     */
+    public static async addContribution(userId: number, goalId: number, contributionData: INewGoalContribution): Promise<IGoalContribution> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            goalId,
+            ...contributionData
+        }, {
+            userId: customValidators.id,
+            goalId: customValidators.id,
+            amount: customValidators.decimal.refine((value) => value !== 0, "Amount cannot be zero"),
+            note: customValidators.nonEmptyString.max(255).optional(),
+            contributedOn: customValidators.dateString.optional()
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, goalId: validGoalId, amount, note, contributedOn } = validatedDataOrErrors;
+
+        await this.findGoal(validUserId, validGoalId);
+
+        const result = await db.executeQuery<IGoalContributionSQL[]>(`
+            INSERT INTO Finance.GoalContributions (GoalId, Amount, Note, ContributedOn)
+            OUTPUT INSERTED.Id, INSERTED.GoalId, INSERTED.Amount, INSERTED.Note, INSERTED.ContributedOn, INSERTED.CreatedOn
+            VALUES (@goalId, @amount, @note, COALESCE(@contributedOn, SYSDATETIMEOFFSET()))
+        `, {
+            goalId: validGoalId,
+            amount,
+            note: note ?? null,
+            contributedOn: contributedOn ? new Date(contributedOn) : null
+        });
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Failed to add contribution');
+        }
+
+        return this.toClientContribution(result[0]);
+    }
+
+    /**
+     * Get the contributions recorded on a goal
+     * @param userId User ID the goal belongs to
+     * @param goalId Goal to get the contributions of
+     * @returns Contributions, newest first
+     */
+    public static async getContributions(userId: number, goalId: number): Promise<IGoalContribution[]> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, goalId }, {
+            userId: customValidators.id,
+            goalId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, goalId: validGoalId } = validatedDataOrErrors;
+
+        await this.findGoal(validUserId, validGoalId);
+
+        const result = await db.executeQuery<IGoalContributionSQL[]>(`
+            SELECT Id, GoalId, Amount, Note, ContributedOn, CreatedOn
+            FROM Finance.GoalContributions
+            WHERE GoalId = @goalId
+            ORDER BY ContributedOn DESC
+        `, { goalId: validGoalId });
+
+        return result.map(contribution => this.toClientContribution(contribution));
+    }
+
+    /**
+     * Delete a contribution recorded on a goal
+     * @param userId User ID the goal belongs to
+     * @param goalId Goal the contribution was recorded on
+     * @param contributionId Contribution to delete
+     */
+    public static async deleteContribution(userId: number, goalId: number, contributionId: number): Promise<void> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, goalId, contributionId }, {
+            userId: customValidators.id,
+            goalId: customValidators.id,
+            contributionId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, goalId: validGoalId, contributionId: validContributionId } = validatedDataOrErrors;
+
+        await this.findGoal(validUserId, validGoalId);
+
+        const result = await db.executeQuery<{ Id: string }[]>(`
+            DELETE FROM Finance.GoalContributions
+            OUTPUT DELETED.Id
+            WHERE Id = @contributionId AND GoalId = @goalId
+        `, { goalId: validGoalId, contributionId: validContributionId });
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Contribution not found', 404);
+        }
+    }
+
+    /**
+     * Get the row of a goal of the user
+     * @param userId User ID the goal belongs to
+     * @param goalId Goal to get
+     * @returns Database row
+     */
+    private static async findGoal(userId: number, goalId: number): Promise<IGoalSQL> {
+        const result = await db.executeQuery<IGoalSQL[]>(`
+            SELECT Id, UserId, Name, TargetAmount, Currency, Deadline, CreatedOn
+            FROM Finance.Goals
+            WHERE Id = @goalId AND UserId = @userId
+        `, { userId, goalId });
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Goal not found', 404);
+        }
+
+        return result[0];
+    }
+
+    /**
+     * Make sure a user can see every account they link to a goal
+     * @param userId User ID the goal belongs to
+     * @param accountIds Accounts to link
+     */
+    private static async verifyAccounts(userId: number, accountIds: number[]): Promise<void> {
+        for (const accountId of accountIds) {
+            if (!(await Account.getAccountRole(userId, accountId))) {
+                throw new StatusError(`Account with ID ${accountId} not found`, 404);
+            }
+        }
+    }
+
+    /**
+     * Replace the accounts linked to a goal
+     * @param goalId Goal to link the accounts to
+     * @param accountIds Accounts to link
+     * @param transaction Database transaction to use
+     */
+    private static async setAccounts(goalId: number, accountIds: number[], transaction: Transaction): Promise<void> {
+        await db.executeQuery(`
+            DELETE FROM Finance.GoalAccounts
+            WHERE GoalId = @goalId
+        `, { goalId }, transaction);
+
+        for (const accountId of new Set(accountIds)) {
+            await db.executeQuery(`
+                INSERT INTO Finance.GoalAccounts (GoalId, AccountId)
+                VALUES (@goalId, @accountId)
+            `, { goalId, accountId }, transaction);
+        }
+    }
+
+    /**
+     * Map a goal to the client format and work out its progress
+     * The saving rate is the change of the linked accounts and the contributions over the last 90 days
+     * @param goal Database row
+     * @returns Goal with its progress
+     */
+    private static async toClient(goal: IGoalSQL): Promise<IGoal> {
+        const now = new Date();
+        const since = new Date(now.getTime() - rateWindowDays * dayMs);
+
+        const accounts = await db.executeQuery<{ Id: string, Currency: string, Balance: number, Recent: number }[]>(`
+            SELECT a.Id, a.Currency, a.Balance, ISNULL((
+                SELECT SUM(CASE WHEN t.IsIncome = 1 THEN ta.ConvertedAmountPaid ELSE -ta.ConvertedAmountPaid END)
+                FROM Finance.TransactionAmounts ta
+                INNER JOIN Finance.Transactions t ON ta.TransactionId = t.Id
+                WHERE ta.AccountId = a.Id AND t.OccurredOn > @since
+            ), 0) AS Recent
+            FROM Finance.GoalAccounts ga
+            INNER JOIN Finance.Accounts a ON ga.AccountId = a.Id
+            WHERE ga.GoalId = @goalId AND ${accessibleAccountCondition}
+        `, { goalId: goal.Id, userId: goal.UserId, since });
+
+        const [contributions] = await db.executeQuery<{ Total: number, Recent: number }[]>(`
+            SELECT ISNULL(SUM(Amount), 0) AS Total, ISNULL(SUM(CASE WHEN ContributedOn > @since THEN Amount ELSE 0 END), 0) AS Recent
+            FROM Finance.GoalContributions
+            WHERE GoalId = @goalId
+        `, { goalId: goal.Id, since });
+
+        const rates = new Map<string, number | null>();
+        let fromAccounts = 0;
+        let recent = contributions.Recent;
+        for (const account of accounts) {
+            if (!rates.has(account.Currency)) {
+                rates.set(account.Currency, await ExchangeRate.getRate(goal.UserId, account.Currency, goal.Currency));
+            }
+            const rate = rates.get(account.Currency);
+            if (rate === null || rate === undefined) {
+                continue;
+            }
+            fromAccounts += account.Balance * rate;
+            recent += account.Recent * rate;
+        }
+
+        const round = (value: number) => Math.round(value * 10000) / 10000;
+        const saved = fromAccounts + contributions.Total;
+        const remaining = Math.max(goal.TargetAmount - saved, 0);
+        const achieved = remaining === 0;
+        const dailyRate = recent / rateWindowDays;
+
+        const { timezone } = await UserPreferences.get(goal.UserId);
+        const deadline = goal.Deadline ? goal.Deadline.toISOString().slice(0, 10) : null;
+
+        let projectedCompletion: string | null = null;
+        if (!achieved && dailyRate > 0) {
+            projectedCompletion = toZonedDateString(new Date(now.getTime() + Math.ceil(remaining / dailyRate) * dayMs), timezone);
+        }
+
+        let requiredMonthly: number | null = null;
+        let onTrack: boolean | null = null;
+        if (deadline) {
+            const daysLeft = (parseDateFilter(deadline, timezone, true).getTime() - now.getTime()) / dayMs;
+            if (!achieved && daysLeft > 0) {
+                requiredMonthly = round(remaining / Math.max(daysLeft / 30, 1));
+            }
+            onTrack = achieved || (projectedCompletion !== null && projectedCompletion <= deadline);
+        }
+
+        return {
+            id: parseInt(goal.Id),
+            name: goal.Name,
+            targetAmount: goal.TargetAmount,
+            currency: goal.Currency,
+            deadline,
+            accountIds: accounts.map(account => parseInt(account.Id)),
+            createdOn: goal.CreatedOn,
+            progress: {
+                saved: round(saved),
+                fromAccounts: round(fromAccounts),
+                fromContributions: contributions.Total,
+                remaining: round(remaining),
+                percent: Math.min(Math.max(Math.round(saved / goal.TargetAmount * 10000) / 100, 0), 100),
+                achieved,
+                monthlyRate: round(dailyRate * 30),
+                projectedCompletion,
+                requiredMonthly,
+                onTrack,
+                missingRates: [...rates].filter(([, rate]) => rate === null).map(([currency]) => currency)
+            }
+        };
+    }
+
+    /**
+     * Map a contribution row to the client format
+     * @param contribution Database row
+     * @returns Goal contribution
+     */
+    private static toClientContribution(contribution: IGoalContributionSQL): IGoalContribution {
+        return {
+            id: parseInt(contribution.Id),
+            goalId: parseInt(contribution.GoalId),
+            amount: contribution.Amount,
+            note: contribution.Note,
+            contributedOn: contribution.ContributedOn,
+            createdOn: contribution.CreatedOn
+        };
+    }
+}
@@ -0,0 +1,510 @@
+import db, { commitTransaction, rollbackTransaction, startTransaction } from '@/services/db.service';
+import { z } from 'zod';
+import { StatusError } from '@/utils/error.util';
+import { AccountType, interestAccountTypes, isLiabilityAccount } from '@/utils/accountTypes.util';
+import { addCalendarDays, parseDateFilter, toZonedDateString } from '@/utils/date.util';
+import { customValidators, validateObject } from '@/utils/validator.util';
+import { Account } from './accounts.model';
+import { UserPreferences } from './preferences.model';
+import { ITransaction, Transaction } from './transactions.model';
+
+export const interestCompoundings = ['daily', 'monthly'] as const;
+
+export type InterestCompounding = typeof interestCompoundings[number];
+
+// Categories of the transactions posted by the accrue-interest job
+export const interestIncomeCategory = 'Interest';
+export const interestChargeCategory = 'Interest Charge';
+
+export interface IInterestRuleSQL {
+    AccountId: string;
+    Compounding: InterestCompounding;
+    PostingDay: number;
+    PeriodStart: Date;
+    CreatedOn: Date;
+}
+
+// A rule joined to the account it belongs to
+interface IInterestAccountSQL extends IInterestRuleSQL {
+    UserId: number;
+    Name: string;
+    Balance: number;
+    Currency: string;
+    Type: AccountType;
+    InterestRate: number | null;
+    ArchivedOn: Date | null;
+}
+
+export interface IInterestRule {
+    accountId: number;
+    // The account's InterestRate, APR in percent
+    rate: number | null;
+    compounding: InterestCompounding;
+    // Day of the month interest is posted on, months shorter than it post on their last day
+    postingDay: number;
+    // First day interest has not been posted for yet, YYYY-MM-DD in the owner's time zone
+    periodStart: string;
+    nextPostingOn: string;
+    createdOn: Date;
+}
+
+export interface ISetInterestRule {
+    compounding: InterestCompounding;
+    postingDay: number;
+}
+
+export interface IInterestPosting {
+    accountId: number;
+    accountName: string;
+    currency: string;
+    // First and last day the posting covers, YYYY-MM-DD
+    periodStart: string;
+    periodEnd: string;
+    postingOn: string;
+    // Interest in the account's currency, rounded to cents
+    amount: number;
+    // Income for savings accounts, an expense for interest charged on credit cards and loans
+    isIncome: boolean;
+    // Transaction that was posted, left out of previews and dry runs
+    transaction?: ITransaction | null;
+}
+
+// Most periods a preview can show per account
+const maxPreviewPeriods = 12;
+
+export class Interest {
+    /**
+     * Get the interest rule of an account
+     * @param userId User ID who owns or is a member of the account
+     * @param accountId Account to get the rule of
+     * @returns Interest rule of the account
+     */
+    public static async getRule(userId: number, accountId: number): Promise<IInterestRule> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, accountId }, {
+            userId: customValidators.id,
+            accountId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, accountId: validAccountId } = validatedDataOrErrors;
+
+        if (!(await Account.getAccountRole(validUserId, validAccountId))) {
+            throw new StatusError('Account not found or does not belong to user', 404);
+        }
+
+        const rule = await this.findRule(validAccountId);
+        if (!rule) {
+            throw new StatusError('Interest rule not found', 404);
+        }
+
+        return this.toClient(rule);
+    }
+
+    /**
+     * Create or change the interest rule of an account
+     * A new rule starts accruing today, changing a rule keeps the period that has not been posted yet
+     * @param userId User ID who owns the account
+     * @param accountId Savings, credit card or loan account with an interest rate
+     * @param ruleData How interest compounds and when it is posted
+     * @returns Interest rule of the account
+     */
+    public static async setRule(userId: number, accountId: number, ruleData: ISetInterestRule): Promise<IInterestRule> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            accountId,
+            ...ruleData
+        }, {
+            userId: customValidators.id,
+            accountId: customValidators.id,
+            compounding: z.enum(interestCompoundings),
+            postingDay: z.number().int().min(1).max(31)
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, accountId: validAccountId, compounding, postingDay } = validatedDataOrErrors;
+
+        await this.verifyOwner(validUserId, validAccountId);
+
+        const account = (await Account.getAccountById(validAccountId))!;
+        if (!interestAccountTypes.includes(account.Type)) {
+            throw new StatusError('Interest can only accrue on savings, credit card and loan accounts');
+        }
+        if (account.InterestRate === null) {
+            throw new StatusError('Set an interest rate on the account first');
+        }
+
+        const { timezone } = await UserPreferences.get(validUserId);
+
+        const query = `
+            MERGE Finance.InterestRules AS target
+            USING (SELECT @accountId AS AccountId) AS source
+            ON target.AccountId = source.AccountId
+            WHEN MATCHED THEN
+                UPDATE SET Compounding = @compounding, PostingDay = @postingDay
+            WHEN NOT MATCHED THEN
+                INSERT (AccountId, Compounding, PostingDay, PeriodStart)
+                VALUES (@accountId, @compounding, @postingDay, @periodStart);
+        `;
+
+        await db.executeQuery(query, {
+            accountId: validAccountId,
+            compounding,
+            postingDay,
+            periodStart: toZonedDateString(new Date(), timezone)
+        });
+
+        const rule = await this.findRule(validAccountId);
+        if (!rule) {
+            throw new StatusError('Failed to save interest rule');
+        }
+
+        return this.toClient(rule);
+    }
+
+    /**
+     * Stop interest from accruing on an account, interest already posted is kept
+     * @param userId User ID who owns the account
+     * @param accountId Account to remove the rule of
+     */
+    public static async deleteRule(userId: number, accountId: number): Promise<void> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, accountId }, {
+            userId: customValidators.id,
+            accountId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, accountId: validAccountId } = validatedDataOrErrors;
+
+        await this.verifyOwner(validUserId, validAccountId);
+
+        const result = await db.executeQuery<{ AccountId: string }[]>(`
+            DELETE FROM Finance.InterestRules
+            OUTPUT DELETED.AccountId
+            WHERE AccountId = @accountId
+        `, { accountId: validAccountId });
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Interest rule not found', 404);
+        }
+    }
+
+    /**
+     * Preview the interest that will be posted on a user's accounts
+     * Days that have not happened yet are assumed to end on the current balance
+     * @param userId User ID who owns the accounts
+     * @param periods How many postings to show per account, including ones that are due but not posted yet
+     * @returns Upcoming postings, soonest first
+     */
+    public static async previewPostings(userId: number, periods: number = 3): Promise<IInterestPosting[]> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, periods }, {
+            userId: customValidators.id,
+            periods: z.number().int().min(1).max(maxPreviewPeriods)
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, periods: validPeriods } = validatedDataOrErrors;
+
+        const rules = await this.findAccountRules(validUserId);
+        const { timezone } = await UserPreferences.get(validUserId);
+
+        const postings: IInterestPosting[] = [];
+        for (const rule of rules) {
+            if (rule.ArchivedOn) {
+                continue;
+            }
+            postings.push(...await this.getPostings(rule, timezone, null, validPeriods));
+        }
+
+        return postings.sort((a, b) => a.postingOn.localeCompare(b.postingOn) || a.accountId - b.accountId);
+    }
+
+    /**
+     * Post the interest of every period that ended before today in its owner's time zone
+     * Meant to be run daily by the accrue-interest job, periods missed by earlier runs are caught up
+     * Each period is posted in its own database transaction, so a run can be interrupted and started again
+     * Archived accounts and accounts without an interest rate move on to the next period without posting
+     * @param dryRun True to only work out the postings without recording them
+     * @returns Postings of every period that was due
+     */
+    public static async postDueInterest(dryRun: boolean = false): Promise<IInterestPosting[]> {
+        const rules = await this.findAccountRules();
+
+        const timezones = new Map<number, string>();
+        const postings: IInterestPosting[] = [];
+        for (const rule of rules) {
+            if (!timezones.has(rule.UserId)) {
+                timezones.set(rule.UserId, (await UserPreferences.get(rule.UserId)).timezone);
+            }
+            const timezone = timezones.get(rule.UserId)!;
+            const today = toZonedDateString(new Date(), timezone);
+
+            for (const posting of await this.getPostings(rule, timezone, today)) {
+                if (rule.ArchivedOn) {
+                    posting.amount = 0;
+                }
+                if (dryRun) {
+                    postings.push({ ...posting, transaction: null });
+                    continue;
+                }
+                postings.push(await this.post(rule, posting, timezone));
+            }
+        }
+
+        return postings;
+    }
+
+    /**
+     * Record the posting of a period and move the rule on to the next one
+     * @param rule Rule the posting belongs to
+     * @param posting Posting to record
+     * @param timezone IANA time zone of the owner
+     * @returns Posting with the transaction that was created, null if there was nothing to post
+     */
+    private static async post(rule: IInterestAccountSQL, posting: IInterestPosting, timezone: string): Promise<IInterestPosting> {
+        const tx = await startTransaction();
+        try {
+            // Only the run that moves the rule on posts the period, in case two runs overlap
+            const moved = await db.executeQuery<{ AccountId: string }[]>(`
+                UPDATE Finance.InterestRules
+                SET PeriodStart = @postingOn
+                OUTPUT INSERTED.AccountId
+                WHERE AccountId = @accountId AND PeriodStart = @periodStart
+            `, {
+                accountId: posting.accountId,
+                periodStart: posting.periodStart,
+                postingOn: posting.postingOn
+            }, tx);
+            if (moved.length === 0) {
+                throw new StatusError(`Interest for account ${posting.accountId} from ${posting.periodStart} was already posted`, 409);
+            }
+
+            let transaction: ITransaction | null = null;
+            if (posting.amount >= 0.01) {
+                transaction = await Transaction.createTransaction(rule.UserId, {
+                    category: posting.isIncome ? interestIncomeCategory : interestChargeCategory,
+                    isIncome: posting.isIncome,
+                    includeInReports: true,
+                    description: `Interest from ${posting.periodStart} to ${posting.periodEnd}`,
+                    // Catch-up postings keep the day they were due, so balance history and reports line up with the periods
+                    occurredOn: parseDateFilter(posting.postingOn, timezone).toISOString(),
+                    currency: posting.currency,
+                    amounts: [{
+                        accountId: posting.accountId,
+                        amountToPay: posting.amount,
+                        amountPaid: posting.amount
+                    }]
+                }, undefined, tx);
+            }
+
+            await commitTransaction(tx);
+
+            return { ...posting, transaction };
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
+        }
+    }
+
+    /**
+     * Work out the postings of the periods of a rule, starting with the period that has not been posted yet
+     * Interest of earlier periods is added to the balance of later ones, as it would be once posted
+     * @param rule Rule and the account it belongs to
+     * @param timezone IANA time zone of the owner
+     * @param until Last posting date to include, null for no limit
+     * @param limit Most postings to work out
+     * @returns Postings oldest first
+     */
+    private static async getPostings(rule: IInterestAccountSQL, timezone: string, until: string | null, limit: number = Infinity): Promise<IInterestPosting[]> {
+        const isIncome = !isLiabilityAccount(rule.Type);
+        const periods: { periodStart: string, postingOn: string }[] = [];
+        let periodStart = rule.PeriodStart.toISOString().slice(0, 10);
+        while (periods.length < limit) {
+            const postingOn = this.getNextPostingDate(periodStart, rule.PostingDay);
+            if (until !== null && postingOn > until) {
+                break;
+            }
+            periods.push({ periodStart, postingOn });
+            periodStart = postingOn;
+        }
+        if (periods.length === 0) {
+            return [];
+        }
+
+        const balances = await this.getDailyBalances(rule, periods[0].periodStart, addCalendarDays(periods[periods.length - 1].postingOn, -1), timezone);
+
+        // Only money held earns interest and only money owed is charged it
+        const rate = (rule.InterestRate ?? 0) / 100;
+        let carried = 0;
+        let day = 0;
+        return periods.map(period => {
+            const periodEnd = addCalendarDays(period.postingOn, -1);
+            let accrued = 0;
+            let total = 0;
+            for (let date = period.periodStart; date <= periodEnd; date = addCalendarDays(date, 1)) {
+                const principal = Math.max(0, (isIncome ? balances[day] : -balances[day]) + carried);
+                if (rule.Compounding === 'daily') {
+                    accrued += (principal + accrued) * rate / 365;
+                } else {
+                    total += principal;
+                }
+                day++;
+            }
+            if (rule.Compounding === 'monthly') {
+                accrued = total * rate / 365;
+            }
+
+            const amount = Math.round(accrued * 100) / 100;
+            carried += amount;
+
+            return {
+                accountId: parseInt(rule.AccountId),
+                accountName: rule.Name,
+                currency: rule.Currency,
+                periodStart: period.periodStart,
+                periodEnd,
+                postingOn: period.postingOn,
+                amount,
+                isIncome
+            };
+        });
+    }
+
+    /**
+     * Reconstruct the balance an account had at the end of every day in a range
+     * Balances are worked out backwards from the current balance, days that have not ended yet get the current balance
+     * @param rule Rule and the account it belongs to
+     * @param from First day, YYYY-MM-DD
+     * @param to Last day, YYYY-MM-DD
+     * @param timezone IANA time zone the days are in
+     * @returns Balance at the end of every day, oldest first
+     */
+    private static async getDailyBalances(rule: IInterestAccountSQL, from: string, to: string, timezone: string): Promise<number[]> {
+        const dayEnds: Date[] = [];
+        for (let date = from; date <= to; date = addCalendarDays(date, 1)) {
+            dayEnds.push(parseDateFilter(addCalendarDays(date, 1), timezone));
+        }
+
+        const movements = await db.executeQuery<{ OccurredOn: Date, Amount: number }[]>(`
+            SELECT t.OccurredOn,
+                CASE WHEN t.IsIncome = 1 THEN ta.ConvertedAmountPaid ELSE -ta.ConvertedAmountPaid END AS Amount
+            FROM Finance.TransactionAmounts ta
+            INNER JOIN Finance.Transactions t ON ta.TransactionId = t.Id
+            WHERE ta.AccountId = @accountId AND t.OccurredOn >= @since
+            ORDER BY t.OccurredOn DESC
+        `, {
+            accountId: rule.AccountId,
+            since: dayEnds[0]
+        });
+
+        const balances: number[] = new Array(dayEnds.length);
+        let balance = rule.Balance;
+        let next = 0;
+        for (let i = dayEnds.length - 1; i >= 0; i--) {
+            while (next < movements.length && movements[next].OccurredOn >= dayEnds[i]) {
+                balance -= movements[next].Amount;
+                next++;
+            }
+            balances[i] = balance;
+        }
+
+        return balances;
+    }
+
+    /**
+     * Get the first posting date after the start of a period
+     * @param periodStart First day of the period, YYYY-MM-DD
+     * @param postingDay Day of the month interest is posted on
+     * @returns Posting date, YYYY-MM-DD
+     */
+    private static getNextPostingDate(periodStart: string, postingDay: number): string {
+        const [year, month] = periodStart.split('-').map(Number);
+        const postingDate = (monthOffset: number) => {
+            const lastDay = new Date(Date.UTC(year, month + monthOffset, 0)).getUTCDate();
+            return new Date(Date.UTC(year, month - 1 + monthOffset, Math.min(postingDay, lastDay))).toISOString().slice(0, 10);
+        };
+        const thisMonth = postingDate(0);
+        return thisMonth > periodStart ? thisMonth : postingDate(1);
+    }
+
+    /**
+     * Get the interest rules of accounts along with the accounts
+     * @param userId Optional user whose accounts to get the rules of, every rule is returned when left out
+     * @returns Rules and their accounts
+     */
+    private static async findAccountRules(userId?: number): Promise<IInterestAccountSQL[]> {
+        return db.executeQuery<IInterestAccountSQL[]>(`
+            SELECT r.AccountId, r.Compounding, r.PostingDay, r.PeriodStart, r.CreatedOn,
+                a.UserId, a.Name, a.Balance, a.Currency, a.Type, a.InterestRate, a.ArchivedOn
+            FROM Finance.InterestRules r
+            INNER JOIN Finance.Accounts a ON r.AccountId = a.Id
+            WHERE @userId IS NULL OR a.UserId = @userId
+            ORDER BY r.AccountId
+        `, { userId: userId ?? null });
+    }
+
+    /**
+     * Get the interest rule of an account
+     * @param accountId Account to get the rule of
+     * @returns Database row or null if the account has no rule
+     */
+    private static async findRule(accountId: number): Promise<IInterestAccountSQL | null> {
+        const result = await db.executeQuery<IInterestAccountSQL[]>(`
+            SELECT r.AccountId, r.Compounding, r.PostingDay, r.PeriodStart, r.CreatedOn,
+                a.UserId, a.Name, a.Balance, a.Currency, a.Type, a.InterestRate, a.ArchivedOn
+            FROM Finance.InterestRules r
+            INNER JOIN Finance.Accounts a ON r.AccountId = a.Id
+            WHERE r.AccountId = @accountId
+        `, { accountId });
+
+        return result.length > 0 ? result[0] : null;
+    }
+
+    /**
+     * Make sure a user owns an account, interest is posted for the owner so only they can manage it
+     * @param userId User ID to check
+     * @param accountId Account to check
+     */
+    private static async verifyOwner(userId: number, accountId: number): Promise<void> {
+        const role = await Account.getAccountRole(userId, accountId);
+        if (!role) {
+            throw new StatusError('Account not found or does not belong to user', 404);
+        }
+        if (role !== 'owner') {
+            throw new StatusError('Only the owner of the account can manage its interest', 403);
+        }
+    }
+
+    /**
+     * Map a database row to the client format
+     * @param rule Database row
+     * @returns Interest rule
+     */
+    private static toClient(rule: IInterestAccountSQL): IInterestRule {
+        const periodStart = rule.PeriodStart.toISOString().slice(0, 10);
+        return {
+            accountId: parseInt(rule.AccountId),
+            rate: rule.InterestRate,
+            compounding: rule.Compounding,
+            postingDay: rule.PostingDay,
+            periodStart,
+            nextPostingOn: this.getNextPostingDate(periodStart, rule.PostingDay),
+            createdOn: rule.CreatedOn
+        };
+    }
+}
@@ -0,0 +1,298 @@
+import db from '@/services/db.service';
+import { StatusError } from '@/utils/error.util';
+import { sendMail } from '@/services/mail.service';
+import { AuditEvent } from './auditEvents.model';
+
+const maxAttempts = parseInt(process.env.LOGIN_MAX_ATTEMPTS || '5');
+const maxAttemptsPerIp = parseInt(process.env.LOGIN_MAX_ATTEMPTS_PER_IP || '20');
+const attemptWindowMinutes = parseInt(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES || '15');
+const lockoutSeconds = parseInt(process.env.LOGIN_LOCKOUT_SECONDS || '30');
+const maxLockoutSeconds = parseInt(process.env.LOGIN_LOCKOUT_MAX_SECONDS || '3600');
+
+export interface ILoginAttemptSQL {
+    Id: string;
+    AttemptKey: string;
+    FailedCount: number;
+    LastFailedOn: Date;
+    LockedUntil: Date | null;
+}
+
+/**
+ * Who is trying to authenticate
+ * userId is used when the identifier matches a user, so the username and email share one counter
+ */
+export interface ILoginAttemptSubject {
+    userId?: number;
+    identifier?: string;
+    ip?: string | null;
+}
+
+export interface ILockoutEvent {
+    key: string;
+    userId: number | null;
+    ip: string | null;
+    failedCount: number;
+    lockedUntil: Date;
+}
+
+export type LockoutHandler = (event: ILockoutEvent) => Promise<void>;
+
+interface IAttemptKey {
+    key: string;
+    limit: number;
+}
+
+interface IMemoryAttempt {
+    failedCount: number;
+    lastFailedOn: number;
+    lockedUntil: number | null;
+}
+
+// Used whenever the database cannot be reached, so a database outage does not disable throttling
+const memoryAttempts = new Map<string, IMemoryAttempt>();
+
+/**
+ * Email the account owner when their account gets locked
+ * @param event Lockout details
+ */
+async function notifyAccountOwner(event: ILockoutEvent): Promise<void> {
+    if (event.userId === null) {
+        console.warn(`Login attempts from ${event.key} locked until ${event.lockedUntil.toISOString()}`);
+        return;
+    }
+
+    const users = await db.executeQuery<{ Email: string }[]>(`
+        SELECT Email
+        FROM Auth.Users
+        WHERE Id = @userId
+    `, { userId: event.userId });
+
+    if (!users || users.length === 0) {
+        return;
+    }
+
+    await sendMail({
+        to: users[0].Email,
+        subject: 'Your FASTMoney account has been temporarily locked',
+        text: `We blocked sign in to your account after ${event.failedCount} failed sign in attempts.\n\n`
+            + `You can try again after ${event.lockedUntil.toUTCString()}.\n\n`
+            + `If this was not you, consider changing your password once you can sign in again.`
+    });
+}
+
+let lockoutHandler: LockoutHandler = notifyAccountOwner;
+
+/**
+ * Replace what happens when a key gets locked, e.g. to alert an admin instead of mailing the user
+ * @param handler Handler called for every new lockout
+ */
+export function setLockoutHandler(handler: LockoutHandler): void {
+    lockoutHandler = handler;
+}
+
+export class LoginAttempt {
+    /**
+     * Reject the attempt if the account or IP address is currently locked
+     * @param subject Account and IP address trying to authenticate
+     */
+    public static async assertNotLocked(subject: ILoginAttemptSubject): Promise<void> {
+        let retryAfter = 0;
+        for (const { key } of this.getKeys(subject)) {
+            retryAfter = Math.max(retryAfter, await this.getRetryAfter(key));
+        }
+
+        if (retryAfter > 0) {
+            throw new StatusError(
+                `Too many failed attempts, please try again in ${retryAfter} seconds`,
+                429,
+                { 'Retry-After': retryAfter.toString() }
+            );
+        }
+    }
+
+    /**
+     * Count a failed attempt, locking the account or IP address once its limit is reached
+     * Every failure while over the limit doubles the lockout, up to LOGIN_LOCKOUT_MAX_SECONDS
+     * @param subject Account and IP address that failed to authenticate
+     */
+    public static async recordFailure(subject: ILoginAttemptSubject): Promise<void> {
+        for (const { key, limit } of this.getKeys(subject)) {
+            const failedCount = await this.incrementFailedCount(key);
+            if (failedCount < limit) {
+                continue;
+            }
+
+            const seconds = Math.min(lockoutSeconds * 2 ** (failedCount - limit), maxLockoutSeconds);
+            const lockedUntil = await this.lock(key, seconds);
+
+            if (key.startsWith('user:') && subject.userId) {
+                await AuditEvent.record({
+                    type: 'user.locked',
+                    userId: subject.userId,
+                    device: { ip: subject.ip ?? null, userAgent: null },
+                    metadata: { failedCount, lockedUntil }
+                });
+            }
+
+            try {
+                await lockoutHandler({
+                    key,
+                    userId: key.startsWith('user:') ? subject.userId ?? null : null,
+                    ip: subject.ip ?? null,
+                    failedCount,
+                    lockedUntil
+                });
+            } catch (error) {
+                console.error('Lockout notification error:', error);
+            }
+        }
+    }
+
+    /**
+     * Clear the failed attempts of an account after a successful authentication
+     * The IP address counter is left alone so one valid account cannot be used to reset it
+     * @param subject Account that authenticated
+     */
+    public static async reset(subject: ILoginAttemptSubject): Promise<void> {
+        const keys = this.getKeys({ ...subject, ip: null });
+        for (const { key } of keys) {
+            memoryAttempts.delete(key);
+            try {
+                await db.executeQuery(`
+                    DELETE FROM Auth.LoginAttempts
+                    WHERE AttemptKey = @key
+                `, { key });
+            } catch (error) {
+                console.error('Login attempts unavailable, using in-memory fallback:', error);
+            }
+        }
+    }
+
+    /**
+     * Get the throttling keys for a subject
+     * @param subject Account and IP address
+     * @returns Keys with their attempt limits
+     */
+    private static getKeys(subject: ILoginAttemptSubject): IAttemptKey[] {
+        const keys: IAttemptKey[] = [];
+        if (subject.userId) {
+            keys.push({ key: `user:${subject.userId}`, limit: maxAttempts });
+        } else if (subject.identifier) {
+            keys.push({ key: `identifier:${subject.identifier.toLowerCase()}`, limit: maxAttempts });
+        }
+        if (subject.ip) {
+            keys.push({ key: `ip:${subject.ip}`, limit: maxAttemptsPerIp });
+        }
+        return keys;
+    }
+
+    /**
+     * Get how long a key is still locked for
+     * @param key Throttling key
+     * @returns Seconds until the lock expires, 0 if not locked
+     */
+    private static async getRetryAfter(key: string): Promise<number> {
+        try {
+            const result = await db.executeQuery<{ RetryAfter: number }[]>(`
+                SELECT DATEDIFF(second, SYSDATETIMEOFFSET(), LockedUntil) + 1 AS RetryAfter
+                FROM Auth.LoginAttempts
+                WHERE AttemptKey = @key AND LockedUntil > SYSDATETIMEOFFSET()
+            `, { key });
+            return result.length > 0 ? result[0].RetryAfter : 0;
+        } catch (error) {
+            console.error('Login attempts unavailable, using in-memory fallback:', error);
+            const attempt = memoryAttempts.get(key);
+            if (!attempt || !attempt.lockedUntil || attempt.lockedUntil <= Date.now()) {
+                return 0;
+            }
+            return Math.ceil((attempt.lockedUntil - Date.now()) / 1000);
+        }
+    }
+
+    /**
+     * Add a failure to a key, starting over if the last failure and lock are older than the attempt window
+     * @param key Throttling key
+     * @returns Failed attempts within the window, including this one
+     */
+    private static async incrementFailedCount(key: string): Promise<number> {
+        try {
+            const result = await db.executeQuery<{ FailedCount: number }[]>(`
+                MERGE Auth.LoginAttempts WITH (HOLDLOCK) AS target
+                USING (SELECT @key AS AttemptKey) AS source
+                ON target.AttemptKey = source.AttemptKey
+                WHEN MATCHED THEN
+                    UPDATE SET FailedCount = CASE
+                            WHEN target.LastFailedOn < DATEADD(minute, -@windowMinutes, SYSDATETIMEOFFSET())
+                                AND (target.LockedUntil IS NULL OR target.LockedUntil < DATEADD(minute, -@windowMinutes, SYSDATETIMEOFFSET()))
+                            THEN 1
+                            ELSE target.FailedCount + 1
+                        END,
+                        LastFailedOn = SYSDATETIMEOFFSET()
+                WHEN NOT MATCHED THEN
+                    INSERT (AttemptKey, FailedCount)
+                    VALUES (source.AttemptKey, 1)
+                OUTPUT INSERTED.FailedCount;
+            `, { key, windowMinutes: attemptWindowMinutes });
+            return result[0].FailedCount;
+        } catch (error) {
+            console.error('Login attempts unavailable, using in-memory fallback:', error);
+            const now = Date.now();
+            const windowStart = now - attemptWindowMinutes * 60 * 1000;
+            this.pruneMemory(windowStart);
+
+            const attempt = memoryAttempts.get(key);
+            if (!attempt) {
+                memoryAttempts.set(key, { failedCount: 1, lastFailedOn: now, lockedUntil: null });
+                return 1;
+            }
+            attempt.failedCount = attempt.lastFailedOn < windowStart && (attempt.lockedUntil ?? 0) < windowStart
+                ? 1
+                : attempt.failedCount + 1;
+            attempt.lastFailedOn = now;
+            return attempt.failedCount;
+        }
+    }
+
+    /**
+     * Lock a key
+     * @param key Throttling key
+     * @param seconds Lockout duration
+     * @returns When the lock expires
+     */
+    private static async lock(key: string, seconds: number): Promise<Date> {
+        try {
+            const result = await db.executeQuery<{ LockedUntil: Date }[]>(`
+                UPDATE Auth.LoginAttempts
+                SET LockedUntil = DATEADD(second, @seconds, SYSDATETIMEOFFSET())
+                OUTPUT INSERTED.LockedUntil
+                WHERE AttemptKey = @key
+            `, { key, seconds });
+            if (!result || result.length === 0) {
+                throw new Error(`No login attempts recorded for ${key}`);
+            }
+            return result[0].LockedUntil;
+        } catch (error) {
+            console.error('Login attempts unavailable, using in-memory fallback:', error);
+            const lockedUntil = Date.now() + seconds * 1000;
+            const attempt = memoryAttempts.get(key);
+            if (attempt) {
+                attempt.lockedUntil = lockedUntil;
+            } else {
+                memoryAttempts.set(key, { failedCount: 1, lastFailedOn: Date.now(), lockedUntil });
+            }
+            return new Date(lockedUntil);
+        }
+    }
+
+    /**
+     * Drop in-memory entries that can no longer affect throttling
+     * @param windowStart Start of the attempt window in milliseconds
+     */
+    private static pruneMemory(windowStart: number): void {
+        for (const [key, attempt] of memoryAttempts) {
+            if (attempt.lastFailedOn < windowStart && (attempt.lockedUntil ?? 0) < windowStart) {
+                memoryAttempts.delete(key);
+            }
+        }
+    }
+}
@@ -0,0 +1,107 @@
+import db from '@/services/db.service';
+import { randomUUID } from 'crypto';
+import { decodeJwt } from 'jose';
+import { StatusError } from '@/utils/error.util';
+import { decrypt, encrypt } from '@/utils/jwt.util';
+
+const mfaTokenExpirationTime = process.env.MFA_TOKEN_EXPIRATION || '5m';
+// Wrong codes a single challenge accepts before the user has to log in with their password again
+const maxChallengeAttempts = parseInt(process.env.MFA_MAX_ATTEMPTS || '3');
+
+export interface IMfaChallengePayload {
+    userId: number;
+    iat: number;
+    jti: string;
+}
+
+export class MfaChallenge {
+    /**
+     * Issue a challenge token for a user who passed the password check and persist it
+     * Expired challenges of the user are removed at the same time
+     * @param userId User ID the challenge is for
+     * @returns Signed challenge token
+     */
+    public static async issue(userId: number): Promise<string> {
+        const jti = randomUUID();
+        const mfaToken = await encrypt({ userId, mfa: true, jti }, mfaTokenExpirationTime);
+        const { exp } = decodeJwt(mfaToken);
+
+        await db.executeQuery(`
+            DELETE FROM Auth.MfaChallenges
+            WHERE UserId = @userId AND ExpiresOn < SYSDATETIMEOFFSET();
+
+            INSERT INTO Auth.MfaChallenges (UserId, Jti, ExpiresOn)
+            VALUES (@userId, @jti, @expiresOn);
+        `, {
+            userId,
+            jti,
+            expiresOn: new Date((exp ?? 0) * 1000)
+        });
+
+        return mfaToken;
+    }
+
+    /**
+     * Verify a challenge token and check that it has not been used, expired or run out of attempts
+     * @param mfaToken Challenge token returned by login
+     * @returns Payload of the challenge token
+     */
+    public static async verify(mfaToken: string): Promise<IMfaChallengePayload> {
+        let payload;
+        try {
+            payload = await decrypt(mfaToken);
+        } catch {
+            throw new StatusError('Login challenge expired, please log in again', 401);
+        }
+        if (payload.mfa !== true || typeof payload.userId !== 'number' || typeof payload.iat !== 'number' || typeof payload.jti !== 'string') {
+            throw new StatusError('Invalid login challenge', 401);
+        }
+
+        const result = await db.executeQuery<{ Id: string }[]>(`
+            SELECT Id
+            FROM Auth.MfaChallenges
+            WHERE Jti = @jti AND UserId = @userId AND UsedOn IS NULL AND ExpiresOn > SYSDATETIMEOFFSET()
+        `, { jti: payload.jti, userId: payload.userId });
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Login challenge expired, please log in again', 401);
+        }
+
+        return { userId: payload.userId, iat: payload.iat, jti: payload.jti };
+    }
+
+    /**
+     * Count a wrong code against a challenge, the challenge is used up once it reaches MFA_MAX_ATTEMPTS
+     * @param payload Verified challenge payload
+     * @returns True if the challenge can still be used
+     */
+    public static async recordFailure(payload: IMfaChallengePayload): Promise<boolean> {
+        const result = await db.executeQuery<{ UsedOn: Date | null }[]>(`
+            UPDATE Auth.MfaChallenges
+            SET FailedCount = FailedCount + 1,
+                UsedOn = CASE WHEN FailedCount + 1 >= @maxAttempts THEN SYSDATETIMEOFFSET() ELSE UsedOn END
+            OUTPUT INSERTED.UsedOn
+            WHERE Jti = @jti AND UserId = @userId AND UsedOn IS NULL
+        `, { jti: payload.jti, userId: payload.userId, maxAttempts: maxChallengeAttempts });
+
+        return result.length > 0 && result[0].UsedOn === null;
+    }
+
+    /**
+     * Mark a challenge as used after the second factor was verified
+     * Fails if a concurrent request used the challenge first
+     * @param payload Verified challenge payload
+     */
+    public static async consume(payload: IMfaChallengePayload): Promise<void> {
+        const result = await db.executeQuery<{ Id: string }[]>(`
+            UPDATE Auth.MfaChallenges
+            SET UsedOn = SYSDATETIMEOFFSET()
+            OUTPUT INSERTED.Id
+            WHERE Jti = @jti AND UserId = @userId AND UsedOn IS NULL AND ExpiresOn > SYSDATETIMEOFFSET()
+        `, { jti: payload.jti, userId: payload.userId });
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Login challenge expired, please log in again', 401);
+        }
+    }
+}
@@ -0,0 +1,279 @@
+import db from '@/services/db.service';
+import { Transaction } from 'mssql';
+import { z } from 'zod';
+import { StatusError } from '@/utils/error.util';
+import { IClientDevice } from '@/utils/request.util';
+import { generateToken, hashToken } from '@/utils/token.util';
+import { customValidators, validateObject } from '@/utils/validator.util';
+import { AuditEvent } from './auditEvents.model';
+
+export const personalAccessTokenPrefix = 'fm_pat_';
+
+export const tokenScopes = [
+    'accounts:read',
+    'accounts:write',
+    'transactions:read',
+    'transactions:write',
+    'friends:read',
+    'friends:write'
+] as const;
+
+export type TokenScope = typeof tokenScopes[number];
+
+export interface IPersonalAccessTokenSQL {
+    Id: string;
+    UserId: number;
+    Name: string;
+    Prefix: string;
+    Scopes: string;
+    ExpiresOn: Date | null;
+    LastUsedOn: Date | null;
+    RevokedOn: Date | null;
+    CreatedOn: Date;
+}
+
+export interface IPersonalAccessToken {
+    id: number;
+    name: string;
+    prefix: string;
+    scopes: TokenScope[];
+    expiresOn: Date | null;
+    lastUsedOn: Date | null;
+    createdOn: Date;
+}
+
+export interface INewPersonalAccessToken {
+    name: string;
+    scopes: TokenScope[];
+    expiresOn?: string;
+}
+
+export interface IPersonalAccessTokenPayload {
+    tokenId: number;
+    userId: number;
+    scopes: TokenScope[];
+}
+
+/**
+ * Check whether a bearer token is a personal access token rather than a session JWT
+ * @param token Bearer token
+ * @returns True if the token has the personal access token prefix
+ */
+export function isPersonalAccessToken(token: string): boolean {
+    return token.startsWith(personalAccessTokenPrefix);
+}
+
+export class PersonalAccessToken {
+    /**
+     * Create a personal access token
+     * @param userId User ID the token acts as
+     * @param tokenData Name, scopes and optional expiry of the token
+     * @param device Device the token is created from
+     * @returns The created token details and the token itself, which is only ever returned here
+     */
+    public static async create(userId: number, tokenData: INewPersonalAccessToken, device: IClientDevice): Promise<IPersonalAccessToken & { token: string }> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            ...tokenData
+        }, {
+            userId: customValidators.id,
+            name: customValidators.nonEmptyString.max(255),
+            scopes: z.array(z.enum(tokenScopes)).min(1, "At least one scope is required"),
+            expiresOn: customValidators.dateString.optional()
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, name, scopes, expiresOn } = validatedDataOrErrors;
+
+        const expiresOnDate = expiresOn ? new Date(expiresOn) : null;
+        if (expiresOnDate && expiresOnDate <= new Date()) {
+            throw new StatusError('expiresOn: Expiry must be in the future');
+        }
+
+        const token = personalAccessTokenPrefix + generateToken(20);
+
+        const query = `
+            INSERT INTO Auth.PersonalAccessTokens (UserId, Name, Prefix, TokenHash, Scopes, ExpiresOn)
+            OUTPUT INSERTED.Id, INSERTED.UserId, INSERTED.Name, INSERTED.Prefix, INSERTED.Scopes,
+                INSERTED.ExpiresOn, INSERTED.LastUsedOn, INSERTED.RevokedOn, INSERTED.CreatedOn
+            VALUES (@userId, @name, @prefix, @tokenHash, @scopes, @expiresOn)
+        `;
+
+        const result = await db.executeQuery<IPersonalAccessTokenSQL[]>(query, {
+            userId: validUserId,
+            name,
+            prefix: token.slice(0, personalAccessTokenPrefix.length + 8),
+            tokenHash: hashToken(token),
+            scopes: [...new Set(scopes)].join(','),
+            expiresOn: expiresOnDate
+        });
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Failed to create token');
+        }
+
+        const accessToken = this.toClient(result[0]);
+
+        await AuditEvent.record({
+            type: 'token.created',
+            userId: validUserId,
+            device,
+            metadata: { tokenId: accessToken.id, name: accessToken.name, scopes: accessToken.scopes }
+        });
+
+        return {
+            ...accessToken,
+            token
+        };
+    }
+
+    /**
+     * Get the active personal access tokens of a user
+     * @param userId User ID to get tokens for
+     * @returns Tokens that are not revoked or expired, newest first
+     */
+    public static async getUserTokens(userId: number): Promise<IPersonalAccessToken[]> {
+        const [success, validatedDataOrErrors] = validateObject({ userId }, {
+            userId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId } = validatedDataOrErrors;
+
+        const query = `
+            SELECT Id, UserId, Name, Prefix, Scopes, ExpiresOn, LastUsedOn, RevokedOn, CreatedOn
+            FROM Auth.PersonalAccessTokens
+            WHERE UserId = @userId AND RevokedOn IS NULL
+                AND (ExpiresOn IS NULL OR ExpiresOn > SYSDATETIMEOFFSET())
+            ORDER BY CreatedOn DESC
+        `;
+
+        const result = await db.executeQuery<IPersonalAccessTokenSQL[]>(query, { userId: validUserId });
+
+        return result.map(token => this.toClient(token));
+    }
+
+    /**
+     * Revoke a personal access token
+     * @param userId User ID the token belongs to
+     * @param tokenId Token to revoke
+     * @param device Device the token is revoked from
+     */
+    public static async revoke(userId: number, tokenId: number, device: IClientDevice): Promise<void> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, tokenId }, {
+            userId: customValidators.id,
+            tokenId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, tokenId: validTokenId } = validatedDataOrErrors;
+
+        const query = `
+            UPDATE Auth.PersonalAccessTokens
+            SET RevokedOn = SYSDATETIMEOFFSET()
+            OUTPUT INSERTED.Id
+            WHERE Id = @tokenId AND UserId = @userId AND RevokedOn IS NULL
+        `;
+
+        const result = await db.executeQuery<{ Id: string }[]>(query, {
+            userId: validUserId,
+            tokenId: validTokenId
+        });
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Token not found', 404);
+        }
+
+        await AuditEvent.record({ type: 'token.revoked', userId: validUserId, device, metadata: { tokenId: validTokenId } });
+    }
+
+    /**
+     * Revoke every personal access token of a user
+     * @param userId User ID to revoke tokens for
+     * @param transaction Optional database transaction to use
+     */
+    public static async revokeAll(userId: number, transaction?: Transaction): Promise<void> {
+        await db.executeQuery(`
+            UPDATE Auth.PersonalAccessTokens
+            SET RevokedOn = SYSDATETIMEOFFSET()
+            WHERE UserId = @userId AND RevokedOn IS NULL
+        `, { userId }, transaction);
+    }
+
+    /**
+     * Verify a personal access token presented as a bearer token
+     * @param token Personal access token
+     * @returns The user the token acts as and its scopes
+     */
+    public static async verify(token: string): Promise<IPersonalAccessTokenPayload> {
+        const query = `
+            SELECT Id, UserId, Name, Prefix, Scopes, ExpiresOn, LastUsedOn, RevokedOn, CreatedOn
+            FROM Auth.PersonalAccessTokens
+            WHERE TokenHash = @tokenHash
+        `;
+
+        const result = await db.executeQuery<IPersonalAccessTokenSQL[]>(query, { tokenHash: hashToken(token) });
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Invalid token', 401);
+        }
+
+        const accessToken = result[0];
+        if (accessToken.RevokedOn !== null) {
+            throw new StatusError('Token has been revoked', 401);
+        }
+        if (accessToken.ExpiresOn !== null && accessToken.ExpiresOn <= new Date()) {
+            throw new StatusError('Token expired', 401);
+        }
+
+        await db.executeQuery(`
+            UPDATE Auth.PersonalAccessTokens
+            SET LastUsedOn = SYSDATETIMEOFFSET()
+            WHERE Id = @tokenId AND (LastUsedOn IS NULL OR LastUsedOn < DATEADD(minute, -1, SYSDATETIMEOFFSET()))
+        `, { tokenId: accessToken.Id });
+
+        return {
+            tokenId: parseInt(accessToken.Id),
+            userId: accessToken.UserId,
+            scopes: this.parseScopes(accessToken.Scopes)
+        };
+    }
+
+    /**
+     * Map a database row to the client format
+     * @param token Database row
+     * @returns Token details without the hash
+     */
+    private static toClient(token: IPersonalAccessTokenSQL): IPersonalAccessToken {
+        return {
+            id: parseInt(token.Id),
+            name: token.Name,
+            prefix: token.Prefix,
+            scopes: this.parseScopes(token.Scopes),
+            expiresOn: token.ExpiresOn,
+            lastUsedOn: token.LastUsedOn,
+            createdOn: token.CreatedOn
+        };
+    }
+
+    /**
+     * Parse the stored scope list, ignoring scopes that no longer exist
+     * @param scopes Comma separated scopes
+     * @returns Known scopes
+     */
+    private static parseScopes(scopes: string): TokenScope[] {
+        return scopes.split(',').filter((scope): scope is TokenScope => (tokenScopes as readonly string[]).includes(scope));
+    }
+}
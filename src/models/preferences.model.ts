@@ -0,0 +1,125 @@
+import db from '@/services/db.service';
+import { z } from 'zod';
+import { StatusError } from '@/utils/error.util';
+import { defaultPreferences } from '@/utils/format.util';
+import { customValidators, validateObject } from '@/utils/validator.util';
+
+export interface IUserPreferencesSQL {
+    UserId: number;
+    Currency: string;
+    Timezone: string;
+    Locale: string;
+    WeekStart: number;
+    ModifiedOn: Date;
+}
+
+export interface IUserPreferences {
+    currency: string;
+    timezone: string;
+    locale: string;
+    // First day of the week, 0 = Sunday through 6 = Saturday
+    weekStart: number;
+}
+
+export type IUserPreferencesUpdate = Partial<IUserPreferences>;
+
+export class UserPreferences {
+    /**
+     * Get the preferences of a user
+     * @param userId User ID to get preferences for
+     * @returns Saved preferences, or the defaults if the user never changed them
+     */
+    public static async get(userId: number): Promise<IUserPreferences> {
+        const [success, validatedDataOrErrors] = validateObject({ userId }, {
+            userId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId } = validatedDataOrErrors;
+
+        const query = `
+            SELECT UserId, Currency, Timezone, Locale, WeekStart, ModifiedOn
+            FROM Auth.UserPreferences
+            WHERE UserId = @userId
+        `;
+
+        const result = await db.executeQuery<IUserPreferencesSQL[]>(query, { userId: validUserId });
+
+        if (!result || result.length === 0) {
+            return { ...defaultPreferences };
+        }
+
+        return this.toClient(result[0]);
+    }
+
+    /**
+     * Update the preferences of a user
+     * Fields that are left out keep their current value
+     * @param userId User ID to update preferences for
+     * @param preferences Preferences to change
+     * @returns All preferences after the update
+     */
+    public static async update(userId: number, preferences: IUserPreferencesUpdate): Promise<IUserPreferences> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            ...preferences
+        }, {
+            userId: customValidators.id,
+            currency: customValidators.currency.optional(),
+            timezone: customValidators.timezone.optional(),
+            locale: customValidators.locale.optional(),
+            weekStart: z.number().int().min(0).max(6).optional()
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, ...changes } = validatedDataOrErrors;
+        const updated = { ...(await this.get(validUserId)), ...changes };
+
+        const query = `
+            MERGE Auth.UserPreferences AS target
+            USING (SELECT @userId AS UserId) AS source
+            ON target.UserId = source.UserId
+            WHEN MATCHED THEN
+                UPDATE SET Currency = @currency, Timezone = @timezone, Locale = @locale,
+                    WeekStart = @weekStart, ModifiedOn = SYSDATETIMEOFFSET()
+            WHEN NOT MATCHED THEN
+                INSERT (UserId, Currency, Timezone, Locale, WeekStart)
+                VALUES (@userId, @currency, @timezone, @locale, @weekStart)
+            OUTPUT INSERTED.UserId, INSERTED.Currency, INSERTED.Timezone, INSERTED.Locale,
+                INSERTED.WeekStart, INSERTED.ModifiedOn;
+        `;
+
+        const result = await db.executeQuery<IUserPreferencesSQL[]>(query, {
+            userId: validUserId,
+            ...updated
+        });
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Failed to update preferences');
+        }
+
+        return this.toClient(result[0]);
+    }
+
+    /**
+     * Map a database row to the client format
+     * @param preferences Database row
+     * @returns Preferences
+     */
+    private static toClient(preferences: IUserPreferencesSQL): IUserPreferences {
+        return {
+            currency: preferences.Currency,
+            timezone: preferences.Timezone,
+            locale: preferences.Locale,
+            weekStart: preferences.WeekStart
+        };
+    }
+}
@@ -0,0 +1,210 @@
+import db from '@/services/db.service';
+import { StatusError } from '@/utils/error.util';
+import { customValidators, validateObject } from '@/utils/validator.util';
+import { Account, IAccount } from './accounts.model';
+import { ITransaction, Transaction } from './transactions.model';
+
+// Category of the transactions recorded when an account is reconciled to a statement
+export const balanceAdjustmentCategory = 'Balance Adjustment';
+
+export interface IBalanceReconciliationSQL {
+    AccountId: string;
+    UserId: number;
+    Name: string;
+    Currency: string;
+    OpeningBalance: number;
+    StoredBalance: number;
+    ComputedBalance: number;
+}
+
+export interface IBalanceReconciliation {
+    accountId: number;
+    userId: number;
+    name: string;
+    currency: string;
+    openingBalance: number;
+    // Balance kept up to date by the balance triggers
+    storedBalance: number;
+    // Opening balance plus every transaction amount on the account
+    computedBalance: number;
+    // How far the stored balance is off, positive if it is too high
+    drift: number;
+}
+
+export interface IStatementReconciliation {
+    account: IAccount;
+    // Drift that was repaired before comparing with the statement
+    drift: number;
+    // Transaction recorded to match the statement, null if the balance already matched
+    adjustment: ITransaction | null;
+}
+
+// Signed sum of the converted amounts of every account, joined to Finance.Accounts a
+const movementsJoin = `
+    LEFT JOIN (
+        SELECT ta.AccountId, SUM(CASE WHEN t.IsIncome = 1 THEN ta.ConvertedAmountPaid ELSE -ta.ConvertedAmountPaid END) AS Amount
+        FROM Finance.TransactionAmounts ta
+        INNER JOIN Finance.Transactions t ON ta.TransactionId = t.Id
+        WHERE ta.AccountId IS NOT NULL
+        GROUP BY ta.AccountId
+    ) Movements ON a.Id = Movements.AccountId
+`;
+
+export class Reconciliation {
+    /**
+     * Compare the stored balances of a user's accounts with the balances recomputed from their transactions
+     * @param userId User ID to check the accounts of
+     * @returns Stored and recomputed balance of every account of the user
+     */
+    public static async getUserReconciliation(userId: number): Promise<IBalanceReconciliation[]> {
+        const [success, validatedDataOrErrors] = validateObject({ userId }, {
+            userId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const query = `
+            SELECT a.Id AS AccountId, a.UserId, a.Name, a.Currency, a.OpeningBalance, a.Balance AS StoredBalance,
+                a.OpeningBalance + ISNULL(Movements.Amount, 0) AS ComputedBalance
+            FROM Finance.Accounts a
+            ${movementsJoin}
+            WHERE a.UserId = @userId
+            ORDER BY a.CreatedOn DESC
+        `;
+
+        const result = await db.executeQuery<IBalanceReconciliationSQL[]>(query, validatedDataOrErrors);
+
+        return result.map(account => this.toClient(account));
+    }
+
+    /**
+     * Find every account whose stored balance no longer matches its transactions
+     * @returns Accounts with drift, largest drift first
+     */
+    public static async getDriftedAccounts(): Promise<IBalanceReconciliation[]> {
+        const query = `
+            SELECT a.Id AS AccountId, a.UserId, a.Name, a.Currency, a.OpeningBalance, a.Balance AS StoredBalance,
+                a.OpeningBalance + ISNULL(Movements.Amount, 0) AS ComputedBalance
+            FROM Finance.Accounts a
+            ${movementsJoin}
+            WHERE a.Balance <> a.OpeningBalance + ISNULL(Movements.Amount, 0)
+            ORDER BY ABS(a.Balance - a.OpeningBalance - ISNULL(Movements.Amount, 0)) DESC
+        `;
+
+        const result = await db.executeQuery<IBalanceReconciliationSQL[]>(query);
+
+        return result.map(account => this.toClient(account));
+    }
+
+    /**
+     * Repair stored balances that no longer match the account's transactions
+     * @param accountId Optional account to repair, every account is repaired when left out
+     * @returns Accounts whose balance was repaired, with the balance they had before
+     */
+    public static async repairDrift(accountId?: number): Promise<IBalanceReconciliation[]> {
+        const [success, validatedDataOrErrors] = validateObject({ accountId }, {
+            accountId: customValidators.id.optional()
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const query = `
+            UPDATE a
+            SET a.Balance = a.OpeningBalance + ISNULL(Movements.Amount, 0)
+            OUTPUT INSERTED.Id AS AccountId, INSERTED.UserId, INSERTED.Name, INSERTED.Currency, INSERTED.OpeningBalance,
+                DELETED.Balance AS StoredBalance, INSERTED.Balance AS ComputedBalance
+            FROM Finance.Accounts a
+            ${movementsJoin}
+            WHERE a.Balance <> a.OpeningBalance + ISNULL(Movements.Amount, 0)
+                AND (@accountId IS NULL OR a.Id = @accountId)
+        `;
+
+        const result = await db.executeQuery<IBalanceReconciliationSQL[]>(query, {
+            accountId: validatedDataOrErrors.accountId ?? null
+        });
+
+        return result.map(account => this.toClient(account));
+    }
+
+    /**
+     * Bring an account in line with the balance on its statement
+     * Drift is repaired first, what is left is recorded as a balance adjustment transaction left out of reports
+     * @param userId The user ID who owns the account
+     * @param accountId The account ID to reconcile
+     * @param statementBalance Balance the statement shows, in the account's currency
+     * @returns Reconciled account, the drift that was repaired and the adjustment transaction
+     */
+    public static async reconcileToStatement(userId: number, accountId: number, statementBalance: number): Promise<IStatementReconciliation> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            accountId,
+            statementBalance
+        }, {
+            userId: customValidators.id,
+            accountId: customValidators.id,
+            statementBalance: customValidators.decimal
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, accountId: validAccountId, statementBalance: validStatementBalance } = validatedDataOrErrors;
+
+        const account = await Account.getAccountById(validAccountId);
+        if (!account || account.UserId !== validUserId) {
+            throw new StatusError('Account not found or does not belong to user', 404);
+        }
+
+        const [repaired] = await this.repairDrift(validAccountId);
+        const balance = repaired ? repaired.computedBalance : account.Balance;
+
+        const difference = Math.round((validStatementBalance - balance) * 10000) / 10000;
+        let adjustment: ITransaction | null = null;
+        if (difference !== 0) {
+            adjustment = await Transaction.createTransaction(validUserId, {
+                category: balanceAdjustmentCategory,
+                isIncome: difference > 0,
+                includeInReports: false,
+                description: 'Reconciled to statement balance',
+                currency: account.Currency,
+                amounts: [{
+                    accountId: validAccountId,
+                    amountToPay: Math.abs(difference),
+                    amountPaid: Math.abs(difference)
+                }]
+            });
+        }
+
+        return {
+            account: { ...(await Account.getAccountById(validAccountId))!, Role: 'owner' },
+            drift: repaired ? repaired.drift : 0,
+            adjustment
+        };
+    }
+
+    /**
+     * Map a database row to the client format
+     * @param account Database row
+     * @returns Reconciliation of the account
+     */
+    private static toClient(account: IBalanceReconciliationSQL): IBalanceReconciliation {
+        return {
+            accountId: parseInt(account.AccountId),
+            userId: account.UserId,
+            name: account.Name,
+            currency: account.Currency,
+            openingBalance: account.OpeningBalance,
+            storedBalance: account.StoredBalance,
+            computedBalance: account.ComputedBalance,
+            drift: Math.round((account.StoredBalance - account.ComputedBalance) * 10000) / 10000
+        };
+    }
+}
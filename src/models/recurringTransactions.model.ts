@@ -0,0 +1,846 @@
+import db, { commitTransaction, rollbackTransaction, startTransaction } from '@/services/db.service';
+import { Transaction as DBTransaction } from 'mssql';
+import { z } from 'zod';
+import { StatusError } from '@/utils/error.util';
+import { addCalendarDays, addCalendarMonths, parseDateFilter, toZonedDateString } from '@/utils/date.util';
+import { customValidators, validateObject } from '@/utils/validator.util';
+import { Account } from './accounts.model';
+import { Category } from './categories.model';
+import { Friend } from './friends.model';
+import { UserPreferences } from './preferences.model';
+import { INewTransaction, INewTransactionAmount, ITransaction, Transaction } from './transactions.model';
+
+export const recurrenceFrequencies = ['daily', 'weekly', 'monthly', 'yearly'] as const;
+
+export type RecurrenceFrequency = typeof recurrenceFrequencies[number];
+
+export interface IRecurringTransactionSQL {
+    Id: string;
+    UserId: number;
+    Category: string;
+    IsIncome: boolean;
+    IncludeInReports: boolean;
+    Description: string;
+    Notes: string | null;
+    Currency: string;
+    // JSON array of INewTransactionAmount
+    Amounts: string;
+    // JSON array of tags
+    Tags: string | null;
+    Frequency: RecurrenceFrequency;
+    Interval: number;
+    StartOn: Date;
+    EndOn: Date | null;
+    MaxOccurrences: number | null;
+    OccurrenceCount: number;
+    NextIndex: number;
+    NextOccurrenceOn: Date | null;
+    PausedOn: Date | null;
+    CreatedOn: Date;
+}
+
+export interface IRecurringTransaction {
+    id: number;
+    category: string;
+    isIncome: boolean;
+    includeInReports: boolean;
+    description: string;
+    notes: string | null;
+    currency: string;
+    amounts: INewTransactionAmount[];
+    tags: string[];
+    frequency: RecurrenceFrequency;
+    // Repeat every this many days, weeks, months or years
+    interval: number;
+    // Dates are YYYY-MM-DD in the user's time zone
+    startOn: string;
+    endOn: string | null;
+    maxOccurrences: number | null;
+    // Occurrences posted or skipped so far
+    occurrenceCount: number;
+    // Null once the schedule has ended
+    nextOccurrenceOn: string | null;
+    pausedOn: Date | null;
+    createdOn: Date;
+}
+
+export interface INewRecurringTransaction extends Omit<INewTransaction, 'occurredOn'> {
+    frequency: RecurrenceFrequency;
+    // Defaults to 1
+    interval?: number;
+    // First occurrence, occurrences before today are posted by the next run of the job
+    startOn: string;
+    endOn?: string;
+    maxOccurrences?: number;
+}
+
+/**
+ * Changes apply to occurrences that have not been posted yet
+ * Changing frequency, interval or startOn restarts the schedule from startOn, which defaults to the next occurrence
+ * A null endOn or maxOccurrences removes the limit
+ */
+export interface IEditRecurringTransaction {
+    category?: string;
+    categoryId?: number;
+    isIncome?: boolean;
+    includeInReports?: boolean;
+    description?: string;
+    notes?: string | null;
+    currency?: string;
+    amounts?: INewTransactionAmount[];
+    tags?: string[];
+    frequency?: RecurrenceFrequency;
+    interval?: number;
+    startOn?: string;
+    endOn?: string | null;
+    maxOccurrences?: number | null;
+}
+
+export interface IUpcomingOccurrence {
+    recurringTransactionId: number;
+    // YYYY-MM-DD, earlier than today for occurrences the job has not posted yet
+    occursOn: string;
+    category: string;
+    description: string;
+    isIncome: boolean;
+    currency: string;
+    // Total of the amounts paid
+    amount: number;
+}
+
+export interface IRecurringOccurrenceRun {
+    recurringTransactionId: number;
+    userId: number;
+    occursOn: string;
+    // Posted transaction, null on a dry run or when posting failed
+    transaction: ITransaction | null;
+    // Why the occurrence could not be posted, it is tried again on the next run
+    error?: string;
+}
+
+interface IRecurrenceSchedule {
+    frequency: RecurrenceFrequency;
+    interval: number;
+    startOn: string;
+    endOn: string | null;
+    maxOccurrences: number | null;
+}
+
+// Most days ahead the upcoming occurrences can cover
+const maxUpcomingDays = 366;
+
+const recurringColumns = [
+    'Id', 'UserId', 'Category', 'IsIncome', 'IncludeInReports', 'Description', 'Notes', 'Currency', 'Amounts', 'Tags',
+    'Frequency', 'Interval', 'StartOn', 'EndOn', 'MaxOccurrences', 'OccurrenceCount', 'NextIndex', 'NextOccurrenceOn',
+    'PausedOn', 'CreatedOn'
+];
+const selectColumns = recurringColumns.join(', ');
+const outputColumns = recurringColumns.map(column => `INSERTED.${column}`).join(', ');
+
+const recurringValidators = {
+    category: customValidators.nonEmptyString,
+    isIncome: z.boolean(),
+    includeInReports: z.boolean(),
+    description: customValidators.nonEmptyString.max(255),
+    notes: customValidators.nonEmptyString,
+    currency: customValidators.currency,
+    amounts: z.array(z.object({
+        accountId: customValidators.id.optional(),
+        accountName: customValidators.nonEmptyString.optional(),
+        amountToPay: customValidators.decimal.nonnegative(),
+        amountPaid: customValidators.decimal.nonnegative()
+    })).min(1),
+    tags: z.array(customValidators.nonEmptyString),
+    frequency: z.enum(recurrenceFrequencies),
+    interval: z.number().int().min(1).max(999),
+    date: z.string().date("Invalid date, use YYYY-MM-DD"),
+    maxOccurrences: z.number().int().positive()
+};
+
+export class RecurringTransaction {
+    /**
+     * Create a recurring transaction
+     * @param userId User ID the recurring transaction belongs to
+     * @param recurringData Transaction to repeat and its schedule
+     * @returns Created recurring transaction
+     */
+    public static async createRecurringTransaction(userId: number, recurringData: INewRecurringTransaction): Promise<IRecurringTransaction> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            ...recurringData
+        }, {
+            userId: customValidators.id,
+            category: recurringValidators.category.optional(),
+            categoryId: customValidators.id.optional(),
+            isIncome: recurringValidators.isIncome.optional(),
+            includeInReports: recurringValidators.includeInReports.optional(),
+            description: recurringValidators.description,
+            notes: recurringValidators.notes.optional(),
+            currency: recurringValidators.currency.optional(),
+            amounts: recurringValidators.amounts,
+            tags: recurringValidators.tags.optional(),
+            frequency: recurringValidators.frequency,
+            interval: recurringValidators.interval.optional(),
+            startOn: recurringValidators.date,
+            endOn: recurringValidators.date.optional(),
+            maxOccurrences: recurringValidators.maxOccurrences.optional()
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, amounts, tags, ...fields } = validatedDataOrErrors;
+        const currency = fields.currency ?? (await UserPreferences.get(validUserId)).currency;
+
+        await this.verifyAmounts(validUserId, amounts);
+        const category = await Category.resolveCategory(validUserId, {
+            category: fields.category,
+            categoryId: fields.categoryId
+        }, fields.isIncome ?? false);
+
+        const schedule: IRecurrenceSchedule = {
+            frequency: fields.frequency,
+            interval: fields.interval ?? 1,
+            startOn: fields.startOn,
+            endOn: fields.endOn ?? null,
+            maxOccurrences: fields.maxOccurrences ?? null
+        };
+        if (schedule.endOn !== null && schedule.endOn < schedule.startOn) {
+            throw new StatusError('endOn: Must not be before startOn');
+        }
+
+        const result = await db.executeQuery<IRecurringTransactionSQL[]>(`
+            INSERT INTO Finance.RecurringTransactions (UserId, Category, IsIncome, IncludeInReports, Description, Notes, Currency,
+                Amounts, Tags, Frequency, Interval, StartOn, EndOn, MaxOccurrences, NextOccurrenceOn)
+            OUTPUT ${outputColumns}
+            VALUES (@userId, @category, @isIncome, @includeInReports, @description, @notes, @currency,
+                @amounts, @tags, @frequency, @interval, @startOn, @endOn, @maxOccurrences, @startOn)
+        `, {
+            userId: validUserId,
+            category: category.name,
+            isIncome: fields.isIncome ?? false,
+            includeInReports: fields.includeInReports ?? true,
+            description: fields.description,
+            notes: fields.notes ?? null,
+            currency,
+            amounts: JSON.stringify(amounts),
+            tags: tags && tags.length > 0 ? JSON.stringify(tags) : null,
+            frequency: schedule.frequency,
+            interval: schedule.interval,
+            startOn: schedule.startOn,
+            endOn: schedule.endOn,
+            maxOccurrences: schedule.maxOccurrences
+        });
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Failed to create recurring transaction');
+        }
+
+        return this.toClient(result[0]);
+    }
+
+    /**
+     * Get the recurring transactions of a user
+     * @param userId User ID to get recurring transactions for
+     * @returns Recurring transactions, soonest next occurrence first, ended ones last
+     */
+    public static async getRecurringTransactions(userId: number): Promise<IRecurringTransaction[]> {
+        const [success, validatedDataOrErrors] = validateObject({ userId }, {
+            userId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const result = await db.executeQuery<IRecurringTransactionSQL[]>(`
+            SELECT ${selectColumns}
+            FROM Finance.RecurringTransactions
+            WHERE UserId = @userId
+            ORDER BY CASE WHEN NextOccurrenceOn IS NULL THEN 1 ELSE 0 END, NextOccurrenceOn, CreatedOn
+        `, validatedDataOrErrors);
+
+        return result.map(recurring => this.toClient(recurring));
+    }
+
+    /**
+     * Get a recurring transaction
+     * @param userId User ID the recurring transaction belongs to
+     * @param recurringId Recurring transaction to get
+     * @returns Recurring transaction
+     */
+    public static async getRecurringTransaction(userId: number, recurringId: number): Promise<IRecurringTransaction> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, recurringId }, {
+            userId: customValidators.id,
+            recurringId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        return this.toClient(await this.findRecurringTransaction(validatedDataOrErrors.userId, validatedDataOrErrors.recurringId));
+    }
+
+    /**
+     * Change the occurrences of a recurring transaction that have not been posted yet
+     * Transactions already posted are not touched
+     * @param userId User ID the recurring transaction belongs to
+     * @param recurringId Recurring transaction to edit
+     * @param recurringData Fields to change
+     * @returns Updated recurring transaction
+     */
+    public static async editRecurringTransaction(userId: number, recurringId: number, recurringData: IEditRecurringTransaction): Promise<IRecurringTransaction> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            recurringId,
+            ...recurringData
+        }, {
+            userId: customValidators.id,
+            recurringId: customValidators.id,
+            category: recurringValidators.category.optional(),
+            categoryId: customValidators.id.optional(),
+            isIncome: recurringValidators.isIncome.optional(),
+            includeInReports: recurringValidators.includeInReports.optional(),
+            description: recurringValidators.description.optional(),
+            notes: recurringValidators.notes.nullable().optional(),
+            currency: recurringValidators.currency.optional(),
+            amounts: recurringValidators.amounts.optional(),
+            tags: recurringValidators.tags.optional(),
+            frequency: recurringValidators.frequency.optional(),
+            interval: recurringValidators.interval.optional(),
+            startOn: recurringValidators.date.optional(),
+            endOn: recurringValidators.date.nullable().optional(),
+            maxOccurrences: recurringValidators.maxOccurrences.nullable().optional()
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, recurringId: validRecurringId, ...changes } = validatedDataOrErrors;
+
+        const recurring = await this.findRecurringTransaction(validUserId, validRecurringId);
+        if (changes.amounts) {
+            await this.verifyAmounts(validUserId, changes.amounts);
+        }
+        let category = recurring.Category;
+        if (changes.category !== undefined || changes.categoryId !== undefined || changes.isIncome !== undefined) {
+            category = (await Category.resolveCategory(validUserId, {
+                category: changes.category ?? recurring.Category,
+                categoryId: changes.categoryId
+            }, changes.isIncome ?? recurring.IsIncome)).name;
+        }
+
+        const current = this.toSchedule(recurring);
+        const schedule: IRecurrenceSchedule = {
+            frequency: changes.frequency ?? current.frequency,
+            interval: changes.interval ?? current.interval,
+            startOn: current.startOn,
+            endOn: changes.endOn === undefined ? current.endOn : changes.endOn,
+            maxOccurrences: changes.maxOccurrences === undefined ? current.maxOccurrences : changes.maxOccurrences
+        };
+
+        // Restart the schedule from the next occurrence, so the occurrences already posted keep their dates
+        let nextIndex = recurring.NextIndex;
+        if (changes.frequency !== undefined || changes.interval !== undefined || changes.startOn !== undefined) {
+            const { timezone } = await UserPreferences.get(validUserId);
+            schedule.startOn = changes.startOn
+                ?? recurring.NextOccurrenceOn?.toISOString().slice(0, 10)
+                ?? toZonedDateString(new Date(), timezone);
+            nextIndex = 0;
+        }
+        if (schedule.endOn !== null && schedule.endOn < schedule.startOn) {
+            throw new StatusError('endOn: Must not be before startOn');
+        }
+
+        const result = await db.executeQuery<IRecurringTransactionSQL[]>(`
+            UPDATE Finance.RecurringTransactions
+            SET Category = @category, IsIncome = @isIncome, IncludeInReports = @includeInReports, Description = @description,
+                Notes = @notes, Currency = @currency, Amounts = @amounts, Tags = @tags, Frequency = @frequency, Interval = @interval,
+                StartOn = @startOn, EndOn = @endOn, MaxOccurrences = @maxOccurrences, NextIndex = @nextIndex,
+                NextOccurrenceOn = @nextOccurrenceOn
+            OUTPUT ${outputColumns}
+            WHERE Id = @recurringId AND UserId = @userId
+        `, {
+            userId: validUserId,
+            recurringId: validRecurringId,
+            category,
+            isIncome: changes.isIncome ?? recurring.IsIncome,
+            includeInReports: changes.includeInReports ?? recurring.IncludeInReports,
+            description: changes.description ?? recurring.Description,
+            notes: changes.notes === undefined ? recurring.Notes : changes.notes,
+            currency: changes.currency ?? recurring.Currency,
+            amounts: changes.amounts ? JSON.stringify(changes.amounts) : recurring.Amounts,
+            tags: changes.tags ? (changes.tags.length > 0 ? JSON.stringify(changes.tags) : null) : recurring.Tags,
+            frequency: schedule.frequency,
+            interval: schedule.interval,
+            startOn: schedule.startOn,
+            endOn: schedule.endOn,
+            maxOccurrences: schedule.maxOccurrences,
+            nextIndex,
+            nextOccurrenceOn: this.getNextOccurrence(schedule, nextIndex, recurring.OccurrenceCount)
+        });
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Failed to update recurring transaction');
+        }
+
+        return this.toClient(result[0]);
+    }
+
+    /**
+     * Delete a recurring transaction, transactions already posted are kept
+     * @param userId User ID the recurring transaction belongs to
+     * @param recurringId Recurring transaction to delete
+     */
+    public static async deleteRecurringTransaction(userId: number, recurringId: number): Promise<void> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, recurringId }, {
+            userId: customValidators.id,
+            recurringId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const result = await db.executeQuery<{ Id: string }[]>(`
+            DELETE FROM Finance.RecurringTransactions
+            OUTPUT DELETED.Id
+            WHERE Id = @recurringId AND UserId = @userId
+        `, validatedDataOrErrors);
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Recurring transaction not found', 404);
+        }
+    }
+
+    /**
+     * Skip the next occurrence of a recurring transaction without posting it
+     * @param userId User ID the recurring transaction belongs to
+     * @param recurringId Recurring transaction to skip an occurrence of
+     * @returns Updated recurring transaction
+     */
+    public static async skipOccurrence(userId: number, recurringId: number): Promise<IRecurringTransaction> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, recurringId }, {
+            userId: customValidators.id,
+            recurringId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const recurring = await this.findRecurringTransaction(validatedDataOrErrors.userId, validatedDataOrErrors.recurringId);
+        if (!recurring.NextOccurrenceOn) {
+            throw new StatusError('Recurring transaction has no occurrences left');
+        }
+
+        return this.toClient(await this.advance(recurring, 1));
+    }
+
+    /**
+     * Pause a recurring transaction, nothing is posted until it is resumed
+     * @param userId User ID the recurring transaction belongs to
+     * @param recurringId Recurring transaction to pause
+     * @returns Paused recurring transaction
+     */
+    public static async pauseRecurringTransaction(userId: number, recurringId: number): Promise<IRecurringTransaction> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, recurringId }, {
+            userId: customValidators.id,
+            recurringId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const recurring = await this.findRecurringTransaction(validatedDataOrErrors.userId, validatedDataOrErrors.recurringId);
+        if (recurring.PausedOn) {
+            throw new StatusError('Recurring transaction is already paused');
+        }
+
+        const result = await db.executeQuery<IRecurringTransactionSQL[]>(`
+            UPDATE Finance.RecurringTransactions
+            SET PausedOn = SYSDATETIMEOFFSET()
+            OUTPUT ${outputColumns}
+            WHERE Id = @recurringId AND UserId = @userId
+        `, validatedDataOrErrors);
+
+        return this.toClient(result[0]);
+    }
+
+    /**
+     * Resume a paused recurring transaction
+     * Occurrences that fell due while it was paused are skipped
+     * @param userId User ID the recurring transaction belongs to
+     * @param recurringId Recurring transaction to resume
+     * @returns Resumed recurring transaction
+     */
+    public static async resumeRecurringTransaction(userId: number, recurringId: number): Promise<IRecurringTransaction> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, recurringId }, {
+            userId: customValidators.id,
+            recurringId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, recurringId: validRecurringId } = validatedDataOrErrors;
+
+        const recurring = await this.findRecurringTransaction(validUserId, validRecurringId);
+        if (!recurring.PausedOn) {
+            throw new StatusError('Recurring transaction is not paused');
+        }
+        // Deleting an account pauses the recurring transactions using it, they stay paused until their amounts are changed
+        await this.verifyAmounts(validUserId, JSON.parse(recurring.Amounts) as INewTransactionAmount[]);
+
+        const { timezone } = await UserPreferences.get(validUserId);
+        const today = toZonedDateString(new Date(), timezone);
+        const schedule = this.toSchedule(recurring);
+        let skipped = 0;
+        let next = recurring.NextOccurrenceOn?.toISOString().slice(0, 10) ?? null;
+        while (next !== null && next < today) {
+            skipped++;
+            next = this.getNextOccurrence(schedule, recurring.NextIndex + skipped, recurring.OccurrenceCount + skipped);
+        }
+
+        const result = await db.executeQuery<IRecurringTransactionSQL[]>(`
+            UPDATE Finance.RecurringTransactions
+            SET PausedOn = NULL, NextIndex = @nextIndex, OccurrenceCount = @occurrenceCount, NextOccurrenceOn = @nextOccurrenceOn
+            OUTPUT ${outputColumns}
+            WHERE Id = @recurringId AND UserId = @userId
+        `, {
+            userId: validUserId,
+            recurringId: validRecurringId,
+            nextIndex: recurring.NextIndex + skipped,
+            occurrenceCount: recurring.OccurrenceCount + skipped,
+            nextOccurrenceOn: next
+        });
+
+        return this.toClient(result[0]);
+    }
+
+    /**
+     * Get the occurrences of a user's recurring transactions coming up, for the dashboard
+     * Paused and ended recurring transactions are left out
+     * @param userId User ID to get the occurrences for
+     * @param days How many days ahead to look, today included
+     * @returns Occurrences soonest first, including ones that are due but not posted yet
+     */
+    public static async getUpcoming(userId: number, days: number = 30): Promise<IUpcomingOccurrence[]> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, days }, {
+            userId: customValidators.id,
+            days: z.number().int().min(1).max(maxUpcomingDays)
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, days: validDays } = validatedDataOrErrors;
+
+        const result = await db.executeQuery<IRecurringTransactionSQL[]>(`
+            SELECT ${selectColumns}
+            FROM Finance.RecurringTransactions
+            WHERE UserId = @userId AND NextOccurrenceOn IS NOT NULL AND PausedOn IS NULL
+        `, { userId: validUserId });
+
+        const { timezone } = await UserPreferences.get(validUserId);
+        const until = addCalendarDays(toZonedDateString(new Date(), timezone), validDays - 1);
+
+        const occurrences: IUpcomingOccurrence[] = [];
+        for (const recurring of result) {
+            const schedule = this.toSchedule(recurring);
+            const amounts = JSON.parse(recurring.Amounts) as INewTransactionAmount[];
+            const amount = amounts.reduce((total, item) => total + item.amountPaid, 0);
+            let next: string | null = recurring.NextOccurrenceOn!.toISOString().slice(0, 10);
+            for (let i = 1; next !== null && next <= until; i++) {
+                occurrences.push({
+                    recurringTransactionId: parseInt(recurring.Id),
+                    occursOn: next,
+                    category: recurring.Category,
+                    description: recurring.Description,
+                    isIncome: recurring.IsIncome,
+                    currency: recurring.Currency,
+                    amount
+                });
+                next = this.getNextOccurrence(schedule, recurring.NextIndex + i, recurring.OccurrenceCount + i);
+            }
+        }
+
+        return occurrences.sort((a, b) => a.occursOn.localeCompare(b.occursOn) || a.recurringTransactionId - b.recurringTransactionId);
+    }
+
+    /**
+     * Post every occurrence that is due today or earlier in its owner's time zone
+     * Meant to be run daily by the recurring-transactions job, occurrences missed by earlier runs are caught up
+     * Each occurrence is posted in its own database transaction, so a run can be interrupted and started again
+     * An occurrence that cannot be posted, for example because an account was archived or the database timed out, stops its recurring transaction
+     * for this run and is tried again on the next one
+     * @param dryRun True to only list the occurrences without posting them
+     * @returns Occurrences that were due
+     */
+    public static async postDueOccurrences(dryRun: boolean = false): Promise<IRecurringOccurrenceRun[]> {
+        // Today is at most a day ahead of UTC in any time zone, the exact day is checked per user below
+        const result = await db.executeQuery<IRecurringTransactionSQL[]>(`
+            SELECT ${selectColumns}
+            FROM Finance.RecurringTransactions
+            WHERE NextOccurrenceOn <= DATEADD(DAY, 1, CAST(SYSUTCDATETIME() AS DATE)) AND PausedOn IS NULL
+            ORDER BY NextOccurrenceOn, Id
+        `);
+
+        const timezones = new Map<number, string>();
+        const runs: IRecurringOccurrenceRun[] = [];
+        for (let recurring of result) {
+            if (!timezones.has(recurring.UserId)) {
+                timezones.set(recurring.UserId, (await UserPreferences.get(recurring.UserId)).timezone);
+            }
+            const timezone = timezones.get(recurring.UserId)!;
+            const today = toZonedDateString(new Date(), timezone);
+            const schedule = this.toSchedule(recurring);
+
+            // Occurrences a dry run has gone past without posting them
+            let listed = 0;
+            let next = recurring.NextOccurrenceOn?.toISOString().slice(0, 10) ?? null;
+            while (next !== null && next <= today) {
+                const run: IRecurringOccurrenceRun = {
+                    recurringTransactionId: parseInt(recurring.Id),
+                    userId: recurring.UserId,
+                    occursOn: next,
+                    transaction: null
+                };
+                runs.push(run);
+
+                if (dryRun) {
+                    listed++;
+                    next = this.getNextOccurrence(schedule, recurring.NextIndex + listed, recurring.OccurrenceCount + listed);
+                    continue;
+                }
+
+                try {
+                    [recurring, run.transaction] = await this.postOccurrence(recurring, next, timezone);
+                } catch (error) {
+                    // Unexpected errors are logged as well, they should not show up in normal runs
+                    if (!(error instanceof StatusError)) {
+                        console.error(`Failed to post recurring transaction ${recurring.Id}:`, error);
+                    }
+                    run.error = error instanceof Error ? error.message : String(error);
+                    break;
+                }
+                next = recurring.NextOccurrenceOn?.toISOString().slice(0, 10) ?? null;
+            }
+        }
+
+        return runs;
+    }
+
+    /**
+     * Post the next occurrence of a recurring transaction and move it on to the one after
+     * @param recurring Recurring transaction to post
+     * @param occursOn Date of the occurrence, YYYY-MM-DD
+     * @param timezone IANA time zone of the owner
+     * @returns Updated recurring transaction and the posted transaction
+     */
+    private static async postOccurrence(recurring: IRecurringTransactionSQL, occursOn: string, timezone: string): Promise<[IRecurringTransactionSQL, ITransaction]> {
+        const tx = await startTransaction();
+        try {
+            const updated = await this.advance(recurring, 1, tx);
+
+            const transaction = await Transaction.createTransaction(recurring.UserId, {
+                category: recurring.Category,
+                isIncome: recurring.IsIncome,
+                includeInReports: recurring.IncludeInReports,
+                description: recurring.Description,
+                notes: recurring.Notes ?? undefined,
+                occurredOn: parseDateFilter(occursOn, timezone).toISOString(),
+                currency: recurring.Currency,
+                amounts: JSON.parse(recurring.Amounts) as INewTransactionAmount[],
+                tags: recurring.Tags ? JSON.parse(recurring.Tags) as string[] : undefined
+            }, undefined, tx);
+
+            await commitTransaction(tx);
+
+            return [updated, transaction];
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
+        }
+    }
+
+    /**
+     * Move a recurring transaction past its next occurrences
+     * @param recurring Recurring transaction to move on
+     * @param occurrences How many occurrences to move past
+     * @param transaction Optional database transaction to use
+     * @returns Updated recurring transaction
+     */
+    private static async advance(recurring: IRecurringTransactionSQL, occurrences: number, transaction?: DBTransaction): Promise<IRecurringTransactionSQL> {
+        const nextIndex = recurring.NextIndex + occurrences;
+        const occurrenceCount = recurring.OccurrenceCount + occurrences;
+
+        // Only the caller that still sees the same next occurrence moves it on, in case two runs overlap
+        const result = await db.executeQuery<IRecurringTransactionSQL[]>(`
+            UPDATE Finance.RecurringTransactions
+            SET NextIndex = @nextIndex, OccurrenceCount = @occurrenceCount, NextOccurrenceOn = @nextOccurrenceOn
+            OUTPUT ${outputColumns}
+            WHERE Id = @recurringId AND NextIndex = @currentIndex AND StartOn = @startOn
+        `, {
+            recurringId: recurring.Id,
+            currentIndex: recurring.NextIndex,
+            startOn: recurring.StartOn.toISOString().slice(0, 10),
+            nextIndex,
+            occurrenceCount,
+            nextOccurrenceOn: this.getNextOccurrence(this.toSchedule(recurring), nextIndex, occurrenceCount)
+        }, transaction);
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Recurring transaction was changed, try again', 409);
+        }
+
+        return result[0];
+    }
+
+    /**
+     * Work out the date of an occurrence unless the schedule has ended by then
+     * @param schedule Schedule of the recurring transaction
+     * @param index Number of the occurrence counted from startOn
+     * @param occurrenceCount Occurrences posted or skipped before it
+     * @returns Date of the occurrence, YYYY-MM-DD, or null if the schedule has ended
+     */
+    private static getNextOccurrence(schedule: IRecurrenceSchedule, index: number, occurrenceCount: number): string | null {
+        if (schedule.maxOccurrences !== null && occurrenceCount >= schedule.maxOccurrences) {
+            return null;
+        }
+
+        const steps = index * schedule.interval;
+        let date: string;
+        switch (schedule.frequency) {
+            case 'daily':
+                date = addCalendarDays(schedule.startOn, steps);
+                break;
+            case 'weekly':
+                date = addCalendarDays(schedule.startOn, steps * 7);
+                break;
+            case 'monthly':
+                date = addCalendarMonths(schedule.startOn, steps);
+                break;
+            case 'yearly':
+                date = addCalendarMonths(schedule.startOn, steps * 12);
+                break;
+        }
+
+        return schedule.endOn !== null && date > schedule.endOn ? null : date;
+    }
+
+    /**
+     * Make sure the amounts of a recurring transaction could be posted by a user
+     * Accounts are checked again whenever an occurrence is posted
+     * @param userId User ID the recurring transaction belongs to
+     * @param amounts Amounts to check
+     */
+    private static async verifyAmounts(userId: number, amounts: INewTransactionAmount[]): Promise<void> {
+        let hasSelfAmount = false;
+        let sumOfAmountPaid = 0;
+        let sumOfAmountToPay = 0;
+        for (const amount of amounts) {
+            if (!amount.accountId && !amount.accountName) {
+                throw new StatusError('Either accountId or accountName must be provided for each amount');
+            }
+            if (amount.accountId && amount.accountName) {
+                throw new StatusError('Both accountId and accountName cannot be provided for the same amount');
+            }
+            if (amount.accountId) {
+                const account = await Account.getAccountById(amount.accountId);
+                if (!account) {
+                    throw new StatusError(`Account with ID ${amount.accountId} not found`);
+                }
+                const role = await Account.getAccountRole(userId, account.Id);
+                if (role === 'owner' || role === 'editor') {
+                    hasSelfAmount = true;
+                } else if (!(await Friend.isFriend(account.UserId, userId))) {
+                    throw new StatusError(`You do not have access to account with ID ${amount.accountId}`);
+                }
+            }
+            sumOfAmountPaid += amount.amountPaid;
+            sumOfAmountToPay += amount.amountToPay;
+        }
+        if (Math.abs(sumOfAmountPaid - sumOfAmountToPay) >= 0.01) {
+            throw new StatusError('Sum of Amount Paid must equal the sum of Amount To Pay');
+        }
+        if (!hasSelfAmount) {
+            throw new StatusError('At least one amount must have accountId set to the userId');
+        }
+    }
+
+    /**
+     * Get a recurring transaction of a user
+     * @param userId User ID the recurring transaction belongs to
+     * @param recurringId Recurring transaction to get
+     * @returns Database row
+     */
+    private static async findRecurringTransaction(userId: number, recurringId: number): Promise<IRecurringTransactionSQL> {
+        const result = await db.executeQuery<IRecurringTransactionSQL[]>(`
+            SELECT ${selectColumns}
+            FROM Finance.RecurringTransactions
+            WHERE Id = @recurringId AND UserId = @userId
+        `, { userId, recurringId });
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Recurring transaction not found', 404);
+        }
+
+        return result[0];
+    }
+
+    /**
+     * Get the schedule of a recurring transaction
+     * @param recurring Database row
+     * @returns Schedule with dates in YYYY-MM-DD format
+     */
+    private static toSchedule(recurring: IRecurringTransactionSQL): IRecurrenceSchedule {
+        return {
+            frequency: recurring.Frequency,
+            interval: recurring.Interval,
+            startOn: recurring.StartOn.toISOString().slice(0, 10),
+            endOn: recurring.EndOn?.toISOString().slice(0, 10) ?? null,
+            maxOccurrences: recurring.MaxOccurrences
+        };
+    }
+
+    /**
+     * Map a database row to the client format
+     * @param recurring Database row
+     * @returns Recurring transaction
+     */
+    private static toClient(recurring: IRecurringTransactionSQL): IRecurringTransaction {
+        const schedule = this.toSchedule(recurring);
+        return {
+            id: parseInt(recurring.Id),
+            category: recurring.Category,
+            isIncome: recurring.IsIncome,
+            includeInReports: recurring.IncludeInReports,
+            description: recurring.Description,
+            notes: recurring.Notes,
+            currency: recurring.Currency,
+            amounts: JSON.parse(recurring.Amounts),
+            tags: recurring.Tags ? JSON.parse(recurring.Tags) : [],
+            ...schedule,
+            occurrenceCount: recurring.OccurrenceCount,
+            nextOccurrenceOn: recurring.NextOccurrenceOn?.toISOString().slice(0, 10) ?? null,
+            pausedOn: recurring.PausedOn,
+            createdOn: recurring.CreatedOn
+        };
+    }
+}
@@ -0,0 +1,184 @@
+import db from '@/services/db.service';
+import { randomUUID } from 'crypto';
+import { decodeJwt } from 'jose';
+import { Transaction } from 'mssql';
+import { StatusError } from '@/utils/error.util';
+import { decrypt, encrypt, refreshExpirationTime } from '@/utils/jwt.util';
+import { verifySession } from '@/utils/session.util';
+import { customValidators, validateObject } from '@/utils/validator.util';
+
+export interface IRefreshTokenSQL {
+    Id: string;
+    UserId: number;
+    FamilyId: string;
+    Jti: string;
+    ExpiresOn: Date;
+    UsedOn: Date | null;
+    RevokedOn: Date | null;
+    CreatedOn: Date;
+}
+
+export interface IRefreshTokenPayload {
+    userId: number;
+    userName: string;
+    email: string;
+    iat: number;
+    jti: string;
+    fid: string;
+}
+
+export class RefreshToken {
+    /**
+     * Issue a new refresh token and persist it
+     * @param userId User ID the token belongs to
+     * @param userName Username embedded in the token
+     * @param email Email embedded in the token
+     * @param familyId Family to add the token to (the session ID), a new family is started if not provided
+     * @param transaction Optional database transaction to use
+     * @returns Signed refresh token
+     */
+    public static async issue(userId: number, userName: string, email: string, familyId: string = randomUUID(), transaction?: Transaction): Promise<string> {
+        const jti = randomUUID();
+        const refreshToken = await encrypt({ userId, userName, email, refresh: true, jti, fid: familyId }, refreshExpirationTime);
+        const { exp } = decodeJwt(refreshToken);
+
+        const query = `
+            INSERT INTO Auth.RefreshTokens (UserId, FamilyId, Jti, ExpiresOn)
+            VALUES (@userId, @familyId, @jti, @expiresOn)
+        `;
+
+        await db.executeQuery(query, {
+            userId,
+            familyId,
+            jti,
+            expiresOn: new Date((exp ?? 0) * 1000)
+        }, transaction);
+
+        return refreshToken;
+    }
+
+    /**
+     * Verify a refresh token's signature and claims
+     * @param refreshToken Refresh token to verify
+     * @returns Payload of the refresh token
+     */
+    public static async verify(refreshToken: string): Promise<IRefreshTokenPayload> {
+        const [success, tokenOrErrors] = validateObject({ refreshToken }, {
+            refreshToken: customValidators.jwt
+        });
+
+        if (!success) {
+            const error = tokenOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message, 401);
+        }
+
+        const payload = await decrypt(tokenOrErrors.refreshToken);
+        if (!verifySession(payload)) {
+            throw new StatusError('Invalid refresh token', 401);
+        }
+        if (!payload.refresh || typeof payload.jti !== 'string' || typeof payload.fid !== 'string') {
+            throw new StatusError('Invalid refresh token', 401);
+        }
+
+        return {
+            userId: payload.userId,
+            userName: payload.userName,
+            email: payload.email,
+            iat: payload.iat,
+            jti: payload.jti,
+            fid: payload.fid
+        };
+    }
+
+    /**
+     * Mark a refresh token as used so it cannot be exchanged again.
+     * If the token was already used, the whole family is revoked.
+     * @param payload Verified refresh token payload
+     * @param transaction Optional database transaction to use
+     */
+    public static async consume(payload: IRefreshTokenPayload, transaction?: Transaction): Promise<void> {
+        const query = `
+            UPDATE Auth.RefreshTokens
+            SET UsedOn = SYSDATETIMEOFFSET()
+            OUTPUT INSERTED.Id
+            WHERE Jti = @jti AND FamilyId = @familyId AND UserId = @userId
+                AND UsedOn IS NULL AND RevokedOn IS NULL AND ExpiresOn > SYSDATETIMEOFFSET()
+        `;
+
+        const result = await db.executeQuery<{ Id: string }[]>(query, {
+            jti: payload.jti,
+            familyId: payload.fid,
+            userId: payload.userId
+        }, transaction);
+
+        if (result && result.length > 0) {
+            return;
+        }
+
+        const existingQuery = `
+            SELECT Id, UserId, FamilyId, Jti, ExpiresOn, UsedOn, RevokedOn, CreatedOn
+            FROM Auth.RefreshTokens
+            WHERE Jti = @jti AND UserId = @userId
+        `;
+
+        const existing = await db.executeQuery<IRefreshTokenSQL[]>(existingQuery, {
+            jti: payload.jti,
+            userId: payload.userId
+        }, transaction);
+
+        if (!existing || existing.length === 0) {
+            throw new StatusError('Invalid refresh token', 401);
+        }
+
+        if (existing[0].UsedOn !== null && existing[0].RevokedOn === null) {
+            // A used token is being presented again, the family has likely been stolen
+            await this.revokeFamily(payload.userId, payload.fid, transaction);
+            throw new StatusError('Refresh token reuse detected, please log in again', 401);
+        }
+
+        if (existing[0].RevokedOn !== null) {
+            throw new StatusError('Refresh token has been revoked', 401);
+        }
+
+        throw new StatusError('Refresh token expired', 401);
+    }
+
+    /**
+     * Revoke every token in a family and the session it belongs to
+     * @param userId User ID the family belongs to
+     * @param familyId Family to revoke
+     * @param transaction Optional database transaction to use
+     */
+    public static async revokeFamily(userId: number, familyId: string, transaction?: Transaction): Promise<void> {
+        const query = `
+            UPDATE Auth.RefreshTokens
+            SET RevokedOn = SYSDATETIMEOFFSET()
+            WHERE UserId = @userId AND FamilyId = @familyId AND RevokedOn IS NULL;
+
+            UPDATE Auth.Sessions
+            SET RevokedOn = SYSDATETIMEOFFSET()
+            WHERE UserId = @userId AND Id = @familyId AND RevokedOn IS NULL;
+        `;
+
+        await db.executeQuery(query, { userId, familyId }, transaction);
+    }
+
+    /**
+     * Revoke every refresh token and session of a user
+     * @param userId User ID to revoke tokens for
+     * @param transaction Optional database transaction to use
+     */
+    public static async revokeAll(userId: number, transaction?: Transaction): Promise<void> {
+        const query = `
+            UPDATE Auth.RefreshTokens
+            SET RevokedOn = SYSDATETIMEOFFSET()
+            WHERE UserId = @userId AND RevokedOn IS NULL;
+
+            UPDATE Auth.Sessions
+            SET RevokedOn = SYSDATETIMEOFFSET()
+            WHERE UserId = @userId AND RevokedOn IS NULL;
+        `;
+
+        await db.executeQuery(query, { userId }, transaction);
+    }
+}
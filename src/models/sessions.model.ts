@@ -0,0 +1,167 @@
+import db from '@/services/db.service';
+import { randomUUID } from 'crypto';
+import { Transaction } from 'mssql';
+import { StatusError } from '@/utils/error.util';
+import { IClientDevice } from '@/utils/request.util';
+import { customValidators, validateObject } from '@/utils/validator.util';
+import { RefreshToken } from './refreshTokens.model';
+import { AuditEvent } from './auditEvents.model';
+
+export interface ISessionSQL {
+    Id: string;
+    UserId: number;
+    UserAgent: string | null;
+    IpAddress: string | null;
+    CreatedOn: Date;
+    LastSeenOn: Date;
+    RevokedOn: Date | null;
+}
+
+export interface ISession {
+    id: string;
+    userAgent: string | null;
+    ipAddress: string | null;
+    createdOn: Date;
+    lastSeenOn: Date;
+    current: boolean;
+}
+
+export class Session {
+    /**
+     * Start a new session for a login
+     * @param userId User ID the session belongs to
+     * @param device Device the user logged in from
+     * @param transaction Optional database transaction to use
+     * @returns Session ID, also used as the refresh token family
+     */
+    public static async start(userId: number, device: IClientDevice, transaction?: Transaction): Promise<string> {
+        const sessionId = randomUUID();
+
+        const query = `
+            INSERT INTO Auth.Sessions (Id, UserId, UserAgent, IpAddress)
+            VALUES (@sessionId, @userId, @userAgent, @ipAddress)
+        `;
+
+        await db.executeQuery(query, {
+            sessionId,
+            userId,
+            userAgent: device.userAgent,
+            ipAddress: device.ip
+        }, transaction);
+
+        return sessionId;
+    }
+
+    /**
+     * Record activity on a session when its refresh token is used
+     * @param userId User ID the session belongs to
+     * @param sessionId Session to update
+     * @param device Device the refresh came from
+     * @param transaction Optional database transaction to use
+     */
+    public static async touch(userId: number, sessionId: string, device: IClientDevice, transaction?: Transaction): Promise<void> {
+        const query = `
+            UPDATE Auth.Sessions
+            SET LastSeenOn = SYSDATETIMEOFFSET(),
+                UserAgent = COALESCE(@userAgent, UserAgent),
+                IpAddress = COALESCE(@ipAddress, IpAddress)
+            WHERE Id = @sessionId AND UserId = @userId
+        `;
+
+        await db.executeQuery(query, {
+            sessionId,
+            userId,
+            userAgent: device.userAgent,
+            ipAddress: device.ip
+        }, transaction);
+    }
+
+    /**
+     * Get the active sessions of a user
+     * A session is active while it is not revoked and still has an unused, unexpired refresh token
+     * @param userId User ID to get sessions for
+     * @param currentSessionId Session of the request, marked as current
+     * @returns Active sessions, most recently seen first
+     */
+    public static async getUserSessions(userId: number, currentSessionId?: string): Promise<ISession[]> {
+        const [success, validatedDataOrErrors] = validateObject({ userId }, {
+            userId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId } = validatedDataOrErrors;
+
+        const query = `
+            SELECT s.Id, s.UserId, s.UserAgent, s.IpAddress, s.CreatedOn, s.LastSeenOn, s.RevokedOn
+            FROM Auth.Sessions s
+            WHERE s.UserId = @userId AND s.RevokedOn IS NULL
+                AND EXISTS (
+                    SELECT 1
+                    FROM Auth.RefreshTokens rt
+                    WHERE rt.FamilyId = s.Id AND rt.UsedOn IS NULL AND rt.RevokedOn IS NULL
+                        AND rt.ExpiresOn > SYSDATETIMEOFFSET()
+                )
+            ORDER BY s.LastSeenOn DESC
+        `;
+
+        const result = await db.executeQuery<ISessionSQL[]>(query, { userId: validUserId });
+
+        return result.map(session => ({
+            id: session.Id.toLowerCase(),
+            userAgent: session.UserAgent,
+            ipAddress: session.IpAddress,
+            createdOn: session.CreatedOn,
+            lastSeenOn: session.LastSeenOn,
+            current: session.Id.toLowerCase() === currentSessionId?.toLowerCase()
+        }));
+    }
+
+    /**
+     * Check whether a session can still be used
+     * @param userId User ID the session belongs to
+     * @param sessionId Session to check
+     * @returns True if the session exists and is not revoked
+     */
+    public static async isActive(userId: number, sessionId: string): Promise<boolean> {
+        const query = `
+            SELECT COUNT(*) as count
+            FROM Auth.Sessions
+            WHERE Id = @sessionId AND UserId = @userId AND RevokedOn IS NULL
+        `;
+
+        const result = await db.executeQuery<{ count: number }[]>(query, { sessionId, userId });
+
+        return result[0].count > 0;
+    }
+
+    /**
+     * Sign out a single device
+     * @param userId User ID the session belongs to
+     * @param sessionId Session to revoke
+     * @param device Device the sign out comes from
+     */
+    public static async revoke(userId: number, sessionId: string, device: IClientDevice): Promise<void> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, sessionId }, {
+            userId: customValidators.id,
+            sessionId: customValidators.uuid
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, sessionId: validSessionId } = validatedDataOrErrors;
+
+        if (!(await this.isActive(validUserId, validSessionId))) {
+            throw new StatusError('Session not found', 404);
+        }
+
+        await RefreshToken.revokeFamily(validUserId, validSessionId);
+        await AuditEvent.record({ type: 'session.revoked', userId: validUserId, device, metadata: { sessionId: validSessionId.toLowerCase() } });
+    }
+}
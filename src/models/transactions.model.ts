@@ -1,18 +1,25 @@
 import db, { commitTransaction, rollbackTransaction, startTransaction } from '@/services/db.service';
-import { StatusError } from '@/middleware/errorHandler.middleware';
+import { Transaction as DBTransaction } from 'mssql';
+import { StatusError } from '@/utils/error.util';
 import { customValidators, validateObject } from '@/utils/validator.util';
-import { Account } from './accounts.model';
+import { accessibleAccountCondition, Account, IAccount } from './accounts.model';
 import { z } from 'zod';
 import { Friend } from './friends.model';
+import { ExchangeRate } from './exchangeRates.model';
+import { UserPreferences } from './preferences.model';
+import { Category } from './categories.model';
 
 // SQL result interfaces (raw DB results)
 export interface ITransactionSQL {
     Id: string;
     Category: string;
+    CategoryId: string | null;
     IsIncome: boolean;
     IncludeInReports: boolean;
     Description: string | null;
     Notes: string | null;
+    TransferId: string | null;
+    OccurredOn: Date;
     CreatedOn: Date;
 }
 
@@ -23,6 +30,10 @@ export interface ITransactionAmountSQL {
     AccountName: string | null;
     AmountToPay: number;
     AmountPaid: number;
+    Currency: string;
+    ExchangeRate: number;
+    ConvertedAmountToPay: number;
+    ConvertedAmountPaid: number;
     CreatedOn: Date;
 }
 
@@ -37,10 +48,19 @@ export interface ITransactionTagSQL {
 export interface ITransaction {
     id: number;
     category: string;
+    // Category in the catalogue of the user who recorded the transaction, null once that category is deleted
+    categoryId: number | null;
     isIncome: boolean;
     includeInReports: boolean;
     description: string | null;
     notes: string | null;
+    // Currency every amount of the transaction was entered in
+    currency: string;
+    // Transfer the transaction is a leg or fee of, such transactions can only be changed through the transfer
+    transferId: number | null;
+    // When the transaction happened, what lists, filters and balances go by
+    occurredOn: Date;
+    // When the transaction was recorded
     createdOn: Date;
     amounts: ITransactionAmount[];
     tags?: ITransactionTag[];
@@ -53,6 +73,11 @@ export interface ITransactionAmount {
     accountName: string | null;
     amountToPay: number;
     amountPaid: number;
+    currency: string;
+    // Rate the amounts were converted to the account's currency with, 1 for amounts without an account
+    exchangeRate: number;
+    convertedAmountToPay: number;
+    convertedAmountPaid: number;
     createdOn: Date;
 }
 
@@ -65,11 +90,17 @@ export interface ITransactionTag {
 
 // Input interfaces
 export interface INewTransaction {
-    category: string;
+    // Either a category name or the ID of one of the user's categories, unknown names are added to the catalogue
+    category?: string;
+    categoryId?: number;
     isIncome: boolean;
     includeInReports: boolean;
     description: string;
     notes?: string;
+    // ISO date-time the transaction happened, defaults to now and cannot be in the future
+    occurredOn?: string;
+    // Defaults to the user's preferred currency, amounts on accounts in other currencies are converted with the user's exchange rates
+    currency?: string;
     amounts: INewTransactionAmount[];
     tags?: string[];
 }
@@ -83,10 +114,13 @@ export interface INewTransactionAmount {
 
 export interface IEditTransaction {
     category?: string;
+    categoryId?: number;
     isIncome?: boolean;
     includeInReports?: boolean;
     description?: string;
     notes?: string;
+    // Changing the date keeps the exchange rates the amounts were converted with
+    occurredOn?: string;
     amounts?: IEditTransactionAmount[];
 }
 
@@ -104,6 +138,8 @@ export interface ITransactionFilters {
     startDate?: Date;
     endDate?: Date;
     category?: string;
+    // Also matches the subcategories of the category
+    categoryId?: number;
     tags?: string[];
     accountId?: number;
 }
@@ -124,19 +160,24 @@ export class Transaction {
      * Create a new transaction
      * @param userId User ID creating the transaction
      * @param transaction Transaction data
+     * @param transferId Optional transfer the transaction belongs to
+     * @param dbTransaction Optional database transaction to use, it is then left to the caller to commit
      * @returns Created transaction with all details
      */
-    public static async createTransaction(userId: number, transaction: INewTransaction): Promise<ITransaction> {
+    public static async createTransaction(userId: number, transaction: INewTransaction, transferId?: number, dbTransaction?: DBTransaction): Promise<ITransaction> {
         const [success, validatedDataOrErrors] = validateObject({
             userId,
             ...transaction
         }, {
             userId: customValidators.id,
-            category: customValidators.nonEmptyString,
+            category: customValidators.nonEmptyString.optional(),
+            categoryId: customValidators.id.optional(),
             isIncome: z.boolean().optional(),
             includeInReports: z.boolean().optional(),
             description: customValidators.nonEmptyString.optional(),
             notes: customValidators.nonEmptyString.optional(),
+            occurredOn: customValidators.dateString.optional(),
+            currency: customValidators.currency.optional(),
             amounts: z.array(z.object({
                 accountId: customValidators.id.optional(),
                 accountName: customValidators.nonEmptyString.optional(),
@@ -153,6 +194,7 @@ export class Transaction {
 
         const {
             category,
+            categoryId,
             isIncome,
             includeInReports,
             description,
@@ -160,8 +202,14 @@ export class Transaction {
             amounts,
             tags 
         } = validatedDataOrErrors;
+        const currency = validatedDataOrErrors.currency ?? (await UserPreferences.get(userId)).currency;
+        const occurredOn = validatedDataOrErrors.occurredOn ? new Date(validatedDataOrErrors.occurredOn) : new Date();
+        if (occurredOn > new Date()) {
+            throw new StatusError('occurredOn: Cannot be in the future');
+        }
 
         // Validate each amount
+        const exchangeRates = new Map<number, number>();
         let hasSelfAmount = false;
         let sumOfAmountPaid = 0;
         let sumOfAmountToPay = 0;
@@ -177,15 +225,17 @@ export class Transaction {
                 if (amount.accountName) {
                     throw new StatusError('Both accountId and accountName cannot be provided for the same amount');
                 }
-                const account = await Account.getAccountById(amount.accountId);
+                const account = await Account.getAccountById(amount.accountId, dbTransaction);
                 if (!account) {
                     throw new StatusError(`Account with ID ${amount.accountId} not found`);
                 }
-                if (account.UserId == userId) {
+                if (account.ArchivedOn) {
+                    throw new StatusError(`Account with ID ${amount.accountId} is archived`);
+                }
+                if (await this.verifyAccountAccess(userId, account, dbTransaction)) {
                     hasSelfAmount = true;
-                } else if (!(await Friend.isFriend(account.UserId, userId))) {
-                    throw new StatusError(`You do not have access to account with ID ${amount.accountId}`);
                 }
+                exchangeRates.set(amount.accountId, await ExchangeRate.requireRate(userId, currency, account.Currency, occurredOn, dbTransaction));
             }
 
             sumOfAmountPaid += amount.amountPaid;
@@ -200,32 +250,41 @@ export class Transaction {
         }
 
         // Start a transaction to ensure all operations are atomic
-        const tx = await startTransaction();
+        const tx = dbTransaction ?? await startTransaction();
 
         try {
+            const resolvedCategory = await Category.resolveCategory(userId, { category, categoryId }, isIncome ?? false, tx);
+
             // Insert the transaction record
             const insertTransactionQuery = `
                 DECLARE @output TABLE (
                     Id BIGINT,
                     Category NVARCHAR(255),
+                    CategoryId BIGINT,
                     IsIncome BIT,
                     IncludeInReports BIT,
                     Description NVARCHAR(255),
                     Notes NVARCHAR(MAX),
+                    TransferId BIGINT,
+                    OccurredOn DATETIMEOFFSET(5),
                     CreatedOn DATETIMEOFFSET(5)
                 );
-                INSERT INTO Finance.Transactions (Category, IsIncome, IncludeInReports, Description, Notes)
-                OUTPUT INSERTED.Id, INSERTED.Category, INSERTED.IsIncome, INSERTED.IncludeInReports, INSERTED.Description, INSERTED.Notes, INSERTED.CreatedOn INTO @output
-                VALUES (@category, @isIncome, @includeInReports, @description, @notes);
+                INSERT INTO Finance.Transactions (Category, CategoryId, IsIncome, IncludeInReports, Description, Notes, TransferId, OccurredOn)
+                OUTPUT INSERTED.Id, INSERTED.Category, INSERTED.CategoryId, INSERTED.IsIncome, INSERTED.IncludeInReports, INSERTED.Description, INSERTED.Notes,
+                    INSERTED.TransferId, INSERTED.OccurredOn, INSERTED.CreatedOn INTO @output
+                VALUES (@category, @categoryId, @isIncome, @includeInReports, @description, @notes, @transferId, @occurredOn);
                 SELECT * FROM @output;
             `;
 
             const transactionResult = await db.executeQuery<ITransactionSQL[]>(insertTransactionQuery, {
-                category,
+                category: resolvedCategory.name,
+                categoryId: resolvedCategory.id,
                 isIncome: isIncome ?? false,
                 includeInReports: includeInReports ?? true,
                 description: description ?? null,
-                notes: notes ?? null
+                notes: notes ?? null,
+                transferId: transferId ?? null,
+                occurredOn
             }, tx);
 
             if (!transactionResult || transactionResult.length === 0) {
@@ -245,11 +304,16 @@ export class Transaction {
                         AccountName NVARCHAR(255),
                         AmountToPay DECIMAL(19, 4),
                         AmountPaid DECIMAL(19, 4),
+                        Currency CHAR(3),
+                        ExchangeRate DECIMAL(19, 8),
+                        ConvertedAmountToPay DECIMAL(19, 4),
+                        ConvertedAmountPaid DECIMAL(19, 4),
                         CreatedOn DATETIMEOFFSET(5)
                     );
-                    INSERT INTO Finance.TransactionAmounts (TransactionId, AccountId, AccountName, AmountToPay, AmountPaid)
-                    OUTPUT INSERTED.Id, INSERTED.TransactionId, INSERTED.AccountId, INSERTED.AccountName, INSERTED.AmountToPay, INSERTED.AmountPaid, INSERTED.CreatedOn INTO @output
-                    VALUES (@transactionId, @accountId, @accountName, @amountToPay, @amountPaid);
+                    INSERT INTO Finance.TransactionAmounts (TransactionId, AccountId, AccountName, AmountToPay, AmountPaid, Currency, ExchangeRate)
+                    OUTPUT INSERTED.Id, INSERTED.TransactionId, INSERTED.AccountId, INSERTED.AccountName, INSERTED.AmountToPay, INSERTED.AmountPaid,
+                        INSERTED.Currency, INSERTED.ExchangeRate, INSERTED.ConvertedAmountToPay, INSERTED.ConvertedAmountPaid, INSERTED.CreatedOn INTO @output
+                    VALUES (@transactionId, @accountId, @accountName, @amountToPay, @amountPaid, @currency, @exchangeRate);
                     SELECT * FROM @output;
                 `;
 
@@ -258,22 +322,16 @@ export class Transaction {
                     accountId: amount.accountId || null,
                     accountName: amount.accountName || null,
                     amountToPay: amount.amountToPay,
-                    amountPaid: amount.amountPaid
+                    amountPaid: amount.amountPaid,
+                    currency,
+                    exchangeRate: amount.accountId ? exchangeRates.get(amount.accountId) : 1
                 }, tx);
 
                 if (!amountResult || amountResult.length === 0) {
                     throw new StatusError('Failed to create transaction amount');
                 }
 
-                transactionAmounts.push({
-                    id: parseInt(amountResult[0].Id),
-                    transactionId,
-                    accountId: amountResult[0].AccountId ? parseInt(amountResult[0].AccountId) : null,
-                    accountName: amountResult[0].AccountName,
-                    amountToPay: amountResult[0].AmountToPay,
-                    amountPaid: amountResult[0].AmountPaid,
-                    createdOn: amountResult[0].CreatedOn
-                });
+                transactionAmounts.push(this.toClientAmount(amountResult[0]));
             }
 
             // Insert tags if provided
@@ -311,33 +369,70 @@ export class Transaction {
                 }
             }
 
-            await commitTransaction(tx);
+            if (!dbTransaction) {
+                await commitTransaction(tx);
+            }
 
             // Return the completed transaction
             return {
                 id: transactionId,
                 category: transactionResult[0].Category,
+                categoryId: resolvedCategory.id,
                 isIncome: transactionResult[0].IsIncome,
                 includeInReports: transactionResult[0].IncludeInReports,
                 description: transactionResult[0].Description,
                 notes: transactionResult[0].Notes,
+                currency,
+                transferId: transferId ?? null,
+                occurredOn: transactionResult[0].OccurredOn,
                 createdOn: transactionResult[0].CreatedOn,
                 amounts: transactionAmounts,
                 tags: transactionTags
             };
         } catch (error) {
-            await rollbackTransaction(tx);
+            if (!dbTransaction) {
+                await rollbackTransaction(tx);
+            }
             throw error;
         }
     }
 
-    private static async hasAccessToTransaction(userId: number, transactionId: number): Promise<boolean> {
+    /**
+     * Check that a user can put an amount of a transaction on an account
+     * Viewers of a shared account can only use it like any other friend's account
+     * @param userId User ID recording the amount
+     * @param account Account the amount goes on
+     * @param dbTransaction Optional database transaction to use
+     * @returns True if the user owns or can edit the account, false if it is only the account of a friend
+     */
+    private static async verifyAccountAccess(userId: number, account: IAccount, dbTransaction?: DBTransaction): Promise<boolean> {
+        const role = await Account.getAccountRole(userId, account.Id, dbTransaction);
+        if (role === 'owner' || role === 'editor') {
+            return true;
+        }
+        if (!(await Friend.isFriend(account.UserId, userId))) {
+            throw new StatusError(`You do not have access to account with ID ${account.Id}`);
+        }
+        return false;
+    }
+
+    /**
+     * Check whether a user can see or change a transaction through the accounts they own or are a member of
+     * @param userId User ID to check
+     * @param transactionId Transaction ID to check
+     * @param edit Whether the user needs to change the transaction, viewers of shared accounts can only see it
+     * @returns True if one of the transaction's amounts is on such an account
+     */
+    private static async hasAccessToTransaction(userId: number, transactionId: number, edit: boolean = false): Promise<boolean> {
         // First, verify if the user has access to this transaction via their accounts
         const hasAccessQuery = `
             SELECT COUNT(*) as count
             FROM Finance.TransactionAmounts ta
             JOIN Finance.Accounts a ON ta.AccountId = a.Id
-            WHERE ta.TransactionId = @transactionId AND a.UserId = @userId
+            WHERE ta.TransactionId = @transactionId AND (
+                a.UserId = @userId
+                OR a.Id IN (SELECT AccountId FROM Finance.AccountMembers WHERE UserId = @userId ${edit ? "AND Role = 'editor'" : ''})
+            )
         `;
 
         const accessResult = await db.executeQuery<{ count: number }[]>(hasAccessQuery, {
@@ -379,7 +474,7 @@ export class Transaction {
 
         // Get transaction details
         const transactionQuery = `
-            SELECT Id, Category, IsIncome, IncludeInReports, Description, Notes, CreatedOn
+            SELECT Id, Category, CategoryId, IsIncome, IncludeInReports, Description, Notes, TransferId, OccurredOn, CreatedOn
             FROM Finance.Transactions
             WHERE Id = @transactionId
         `;
@@ -394,7 +489,8 @@ export class Transaction {
 
         // Get transaction amounts
         const amountsQuery = `
-            SELECT Id, TransactionId, AccountId, AccountName, AmountToPay, AmountPaid, CreatedOn
+            SELECT Id, TransactionId, AccountId, AccountName, AmountToPay, AmountPaid,
+                Currency, ExchangeRate, ConvertedAmountToPay, ConvertedAmountPaid, CreatedOn
             FROM Finance.TransactionAmounts
             WHERE TransactionId = @transactionId
         `;
@@ -418,20 +514,16 @@ export class Transaction {
         const transaction: ITransaction = {
             id: parseInt(transactionResult[0].Id),
             category: transactionResult[0].Category,
+            categoryId: transactionResult[0].CategoryId ? parseInt(transactionResult[0].CategoryId) : null,
             isIncome: transactionResult[0].IsIncome,
             includeInReports: transactionResult[0].IncludeInReports,
             description: transactionResult[0].Description,
             notes: transactionResult[0].Notes,
+            currency: amountsResult[0].Currency,
+            transferId: transactionResult[0].TransferId ? parseInt(transactionResult[0].TransferId) : null,
+            occurredOn: transactionResult[0].OccurredOn,
             createdOn: transactionResult[0].CreatedOn,
-            amounts: amountsResult.map(amount => ({
-                id: parseInt(amount.Id),
-                transactionId: parseInt(amount.TransactionId),
-                accountId: amount.AccountId ? parseInt(amount.AccountId) : null,
-                accountName: amount.AccountName,
-                amountToPay: amount.AmountToPay,
-                amountPaid: amount.AmountPaid,
-                createdOn: amount.CreatedOn
-            })),
+            amounts: amountsResult.map(amount => this.toClientAmount(amount)),
             tags: tagsResult.map(tag => ({
                 id: parseInt(tag.Id),
                 transactionId: parseInt(tag.TransactionId),
@@ -464,10 +556,12 @@ export class Transaction {
             userId: customValidators.id,
             transactionId: customValidators.id,
             category: customValidators.nonEmptyString.optional(),
+            categoryId: customValidators.id.optional(),
             isIncome: z.boolean().optional(),
             includeInReports: z.boolean().optional(),
             description: customValidators.nonEmptyString.optional(),
-            notes: customValidators.nonEmptyString.optional()
+            notes: customValidators.nonEmptyString.optional(),
+            occurredOn: customValidators.dateString.optional()
         });
 
         const amountUpdates = updates.amounts;
@@ -483,11 +577,26 @@ export class Transaction {
             ...validUpdates 
         } = validatedDataOrErrors;
 
+        const occurredOn = validUpdates.occurredOn ? new Date(validUpdates.occurredOn) : undefined;
+        if (occurredOn && occurredOn > new Date()) {
+            throw new StatusError('occurredOn: Cannot be in the future');
+        }
+
         // Check if transaction exists and user has access to it
         const transaction = await this.getTransactionById(validUserId, validTransactionId);
         if (!transaction) {
             throw new StatusError('Transaction not found or you do not have access to it', 404);
         }
+        if (!await this.hasAccessToTransaction(validUserId, validTransactionId, true)) {
+            throw new StatusError('You can only view this transaction', 403);
+        }
+
+        // Moving money, flipping the type or moving the date of one side would leave the other side of the transfer wrong
+        if (transaction.transferId !== null
+            && (amountUpdates !== undefined || validUpdates.isIncome !== undefined || validUpdates.includeInReports !== undefined
+                || occurredOn !== undefined)) {
+            throw new StatusError('Transaction is part of a transfer, delete the transfer and make a new one instead');
+        }
 
         // Start a transaction
         const tx = await startTransaction();
@@ -500,17 +609,25 @@ export class Transaction {
                 const params: {
                     transactionId: number;
                     category?: string;
+                    categoryId?: number;
                     isIncome?: boolean;
                     includeInReports?: boolean;
                     description?: string;
                     notes?: string | null;
+                    occurredOn?: Date;
                 } = {
                     transactionId: validTransactionId
                 };
 
-                if (validUpdates.category) {
-                    updateFields.push('Category = @category');
-                    params.category = validUpdates.category;
+                // Flipping the type moves the transaction to the category of the same name of the other kind
+                if (validUpdates.category || validUpdates.categoryId || validUpdates.isIncome !== undefined) {
+                    const resolvedCategory = await Category.resolveCategory(validUserId, {
+                        category: validUpdates.category ?? transaction.category,
+                        categoryId: validUpdates.categoryId
+                    }, validUpdates.isIncome ?? transaction.isIncome, tx);
+                    updateFields.push('Category = @category', 'CategoryId = @categoryId');
+                    params.category = resolvedCategory.name;
+                    params.categoryId = resolvedCategory.id;
                 }
 
                 if (validUpdates.isIncome !== undefined) {
@@ -533,6 +650,11 @@ export class Transaction {
                     params.notes = validUpdates.notes || null;
                 }
 
+                if (occurredOn) {
+                    updateFields.push('OccurredOn = @occurredOn');
+                    params.occurredOn = occurredOn;
+                }
+
                 if (updateFields.length > 0) {
                     const updateQuery = `
                         UPDATE Finance.Transactions
@@ -579,6 +701,7 @@ export class Transaction {
                     }
 
                     if (!update.id) {
+                        let exchangeRate = 1;
                         if (!validatedAmtOrErrors.accountId && !validatedAmtOrErrors.accountName) {
                             throw new StatusError('Either accountId or accountName must be provided for each amount update');
                         }
@@ -590,9 +713,11 @@ export class Transaction {
                             if (!account) {
                                 throw new StatusError(`Account with ID ${validatedAmtOrErrors.accountId} not found`);
                             }
-                            if (account.UserId !== userId && !(await Friend.isFriend(account.UserId, userId))) {
-                                throw new StatusError(`You do not have access to account with ID ${validatedAmtOrErrors.accountId}`);
+                            if (account.ArchivedOn) {
+                                throw new StatusError(`Account with ID ${validatedAmtOrErrors.accountId} is archived`);
                             }
+                            await this.verifyAccountAccess(userId, account);
+                            exchangeRate = await ExchangeRate.requireRate(userId, transaction.currency, account.Currency, occurredOn ?? transaction.occurredOn);
                         }
 
                         if (validatedAmtOrErrors.amountPaid === undefined) {
@@ -605,29 +730,24 @@ export class Transaction {
                         // Insert new amount
                         const insertAmountQuery = `
                         
-                            INSERT INTO Finance.TransactionAmounts (TransactionId, AccountId, AccountName, AmountToPay, AmountPaid)
-                            OUTPUT INSERTED.Id, INSERTED.TransactionId, INSERTED.AccountId, INSERTED.AccountName, INSERTED.AmountToPay, INSERTED.AmountPaid, INSERTED.CreatedOn
-                            VALUES (@transactionId, @accountId, @accountName, @amountToPay, @amountPaid)
+                            INSERT INTO Finance.TransactionAmounts (TransactionId, AccountId, AccountName, AmountToPay, AmountPaid, Currency, ExchangeRate)
+                            OUTPUT INSERTED.Id, INSERTED.TransactionId, INSERTED.AccountId, INSERTED.AccountName, INSERTED.AmountToPay, INSERTED.AmountPaid,
+                                INSERTED.Currency, INSERTED.ExchangeRate, INSERTED.ConvertedAmountToPay, INSERTED.ConvertedAmountPaid, INSERTED.CreatedOn
+                            VALUES (@transactionId, @accountId, @accountName, @amountToPay, @amountPaid, @currency, @exchangeRate)
                         `;
                         const amountResult = await db.executeQuery<ITransactionAmountSQL[]>(insertAmountQuery, {
                             transactionId: validTransactionId,
                             accountId: validatedAmtOrErrors.accountId || null,
                             accountName: validatedAmtOrErrors.accountName || null,
                             amountToPay: validatedAmtOrErrors.amountToPay,
-                            amountPaid: validatedAmtOrErrors.amountPaid
+                            amountPaid: validatedAmtOrErrors.amountPaid,
+                            currency: transaction.currency,
+                            exchangeRate
                         }, tx);
                         if (!amountResult || amountResult.length === 0) {
                             throw new StatusError('Failed to create transaction amount');
                         }
-                        transaction.amounts.push({
-                            id: parseInt(amountResult[0].Id),
-                            transactionId: parseInt(amountResult[0].TransactionId),
-                            accountId: amountResult[0].AccountId ? parseInt(amountResult[0].AccountId) : null,
-                            accountName: amountResult[0].AccountName,
-                            amountToPay: amountResult[0].AmountToPay,
-                            amountPaid: amountResult[0].AmountPaid,
-                            createdOn: amountResult[0].CreatedOn
-                        });
+                        transaction.amounts.push(this.toClientAmount(amountResult[0]));
                     } else {
                         // Check if amount belongs to this transaction
                         const amount = transaction.amounts.find(a => a.id === update.id);
@@ -644,6 +764,7 @@ export class Transaction {
                             accountName?: string;
                             amountToPay?: number;
                             amountPaid?: number;
+                            exchangeRate?: number;
                         } = {
                             amountId: update.id,
                             transactionId: validTransactionId
@@ -656,11 +777,14 @@ export class Transaction {
                             if (!account) {
                                 throw new StatusError(`Account with ID ${validatedAmtOrErrors.accountId} not found`);
                             }
-                            if (account.UserId !== userId && !(await Friend.isFriend(account.UserId, userId))) {
-                                throw new StatusError(`You do not have access to account with ID ${validatedAmtOrErrors.accountId}`);
+                            if (account.ArchivedOn && account.Id !== amount.accountId) {
+                                throw new StatusError(`Account with ID ${validatedAmtOrErrors.accountId} is archived`);
                             }
+                            await this.verifyAccountAccess(userId, account);
                             updateAmountFields.push('AccountId = @accountId');
                             amountParams.accountId = validatedAmtOrErrors.accountId;
+                            updateAmountFields.push('ExchangeRate = @exchangeRate');
+                            amountParams.exchangeRate = await ExchangeRate.requireRate(userId, amount.currency, account.Currency, occurredOn ?? transaction.occurredOn);
                         }
                         if (validatedAmtOrErrors.accountName) {
                             updateAmountFields.push('AccountName = @accountName');
@@ -679,29 +803,10 @@ export class Transaction {
                             if (update.amountPaid < 0) {
                                 throw new StatusError('Amount paid must be greater than or equal to 0');
                             }
-                            
-                            // Get current amount paid to calculate balance change
-                            const oldAmountPaid = amount.amountPaid;
-                            const amountPaidDiff = update.amountPaid - oldAmountPaid;
-                            
+
+                            // Accounts_Balance_Trigger moves the account balance by the difference
                             updateAmountFields.push('AmountPaid = @amountPaid');
                             amountParams.amountPaid = update.amountPaid;
-                            
-                            // Update account balance if applicable
-                            if (amount.accountId && amountPaidDiff !== 0) {
-                                const balanceChange = transaction.isIncome ? amountPaidDiff : -amountPaidDiff;
-                                
-                                const updateBalanceQuery = `
-                                    UPDATE Finance.Accounts
-                                    SET Balance = Balance + @balanceChange
-                                    WHERE Id = @accountId
-                                `;
-                                
-                                await db.executeQuery(updateBalanceQuery, {
-                                    accountId: amount.accountId,
-                                    balanceChange
-                                }, tx);
-                            }
                         }
     
                         if (updateAmountFields.length > 0) {
@@ -784,6 +889,7 @@ export class Transaction {
             startDate: z.date().optional(),
             endDate: z.date().optional(),
             category: customValidators.nonEmptyString.optional(),
+            categoryId: customValidators.id.optional(),
             tags: z.array(customValidators.nonEmptyString).optional(),
             accountId: customValidators.id.optional()
         });
@@ -800,12 +906,13 @@ export class Transaction {
             startDate,
             endDate,
             category,
+            categoryId,
             tags,
             accountId
         } = validatedDataOrErrors;
 
         // Build the query conditions
-        const conditions = ['a.UserId = @userId'];
+        const conditions = [accessibleAccountCondition];
         const params: {
             userId: number;
             offset: number;
@@ -813,6 +920,7 @@ export class Transaction {
             startDate?: Date;
             endDate?: Date;
             category?: string;
+            categoryId?: number;
             accountId?: number;
             tagCount?: number;
         } = {
@@ -825,12 +933,12 @@ export class Transaction {
         } = {};
 
         if (startDate) {
-            conditions.push('t.CreatedOn >= @startDate');
+            conditions.push('t.OccurredOn >= @startDate');
             params.startDate = startDate;
         }
 
         if (endDate) {
-            conditions.push('t.CreatedOn <= @endDate');
+            conditions.push('t.OccurredOn <= @endDate');
             params.endDate = endDate;
         }
 
@@ -839,6 +947,13 @@ export class Transaction {
             params.category = category;
         }
 
+        if (categoryId) {
+            conditions.push(`t.CategoryId IN (
+                SELECT Id FROM Finance.Categories WHERE UserId = @userId AND (Id = @categoryId OR ParentId = @categoryId)
+            )`);
+            params.categoryId = categoryId;
+        }
+
         if (accountId) {
             conditions.push('ta.AccountId = @accountId');
             params.accountId = accountId;
@@ -879,13 +994,13 @@ export class Transaction {
 
         // Get transactions with pagination
         const transactionsQuery = `
-            SELECT DISTINCT t.Id, t.CreatedOn
+            SELECT DISTINCT t.Id, t.OccurredOn
             FROM Finance.Transactions t
             INNER JOIN Finance.TransactionAmounts ta ON t.Id = ta.TransactionId
             INNER JOIN Finance.Accounts a ON ta.AccountId = a.Id
             ${tagJoin}
             WHERE ${conditions.join(' AND ')}
-            ORDER BY t.CreatedOn DESC
+            ORDER BY t.OccurredOn DESC, t.Id DESC
             OFFSET @offset ROWS
             FETCH NEXT @limit ROWS ONLY
         `;
@@ -909,6 +1024,77 @@ export class Transaction {
         };
     }
 
+    /**
+     * Get every transaction a user has access to, with amounts and tags, without pagination
+     * Used for data exports
+     * @param userId User ID to get transactions for
+     * @returns All transactions of the user, newest first
+     */
+    public static async getAllUserTransactions(userId: number): Promise<ITransaction[]> {
+        const [success, validatedDataOrErrors] = validateObject({ userId }, {
+            userId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId } = validatedDataOrErrors;
+
+        const userTransactions = `
+            SELECT DISTINCT ta.TransactionId
+            FROM Finance.TransactionAmounts ta
+            INNER JOIN Finance.Accounts a ON ta.AccountId = a.Id
+            WHERE ${accessibleAccountCondition}
+        `;
+
+        const transactionsResult = await db.executeQuery<ITransactionSQL[]>(`
+            SELECT Id, Category, CategoryId, IsIncome, IncludeInReports, Description, Notes, TransferId, OccurredOn, CreatedOn
+            FROM Finance.Transactions
+            WHERE Id IN (${userTransactions})
+            ORDER BY OccurredOn DESC, Id DESC
+        `, { userId: validUserId });
+
+        const amountsResult = await db.executeQuery<ITransactionAmountSQL[]>(`
+            SELECT Id, TransactionId, AccountId, AccountName, AmountToPay, AmountPaid,
+                Currency, ExchangeRate, ConvertedAmountToPay, ConvertedAmountPaid, CreatedOn
+            FROM Finance.TransactionAmounts
+            WHERE TransactionId IN (${userTransactions})
+        `, { userId: validUserId });
+
+        const tagsResult = await db.executeQuery<ITransactionTagSQL[]>(`
+            SELECT Id, TransactionId, Tag, CreatedOn
+            FROM Finance.TransactionTags
+            WHERE TransactionId IN (${userTransactions})
+        `, { userId: validUserId });
+
+        return transactionsResult.map(transaction => ({
+            id: parseInt(transaction.Id),
+            category: transaction.Category,
+            categoryId: transaction.CategoryId ? parseInt(transaction.CategoryId) : null,
+            isIncome: transaction.IsIncome,
+            includeInReports: transaction.IncludeInReports,
+            description: transaction.Description,
+            notes: transaction.Notes,
+            currency: amountsResult.find(amount => amount.TransactionId === transaction.Id)!.Currency,
+            transferId: transaction.TransferId ? parseInt(transaction.TransferId) : null,
+            occurredOn: transaction.OccurredOn,
+            createdOn: transaction.CreatedOn,
+            amounts: amountsResult
+                .filter(amount => amount.TransactionId === transaction.Id)
+                .map(amount => this.toClientAmount(amount)),
+            tags: tagsResult
+                .filter(tag => tag.TransactionId === transaction.Id)
+                .map(tag => ({
+                    id: parseInt(tag.Id),
+                    transactionId: parseInt(tag.TransactionId),
+                    tag: tag.Tag,
+                    createdOn: tag.CreatedOn
+                }))
+        }));
+    }
+
     /**
      * Add a tag to a transaction
      * @param userId User ID making the request
@@ -939,6 +1125,9 @@ export class Transaction {
         if (!transaction) {
             throw new StatusError('Transaction not found or you do not have access to it', 404);
         }
+        if (!await this.hasAccessToTransaction(validUserId, validTransactionId, true)) {
+            throw new StatusError('You can only view this transaction', 403);
+        }
 
         // Check if the tag already exists for this transaction
         if (transaction.tags && transaction.tags.some(t => t.tag.trim().toLowerCase() === tag.trim().toLowerCase())) {
@@ -1031,6 +1220,9 @@ export class Transaction {
         if (!transaction) {
             throw new StatusError('Transaction not found or you do not have access to it', 404);
         }
+        if (!await this.hasAccessToTransaction(validUserId, validTransactionId, true)) {
+            throw new StatusError('You can only view this transaction', 403);
+        }
 
         // Check if tag exists
         if (!transaction.tags || !transaction.tags.some(t => t.id === validTagId)) {
@@ -1050,4 +1242,25 @@ export class Transaction {
 
         return true;
     }
+
+    /**
+     * Map a transaction amount row to the client format
+     * @param amount Database row
+     * @returns Transaction amount
+     */
+    private static toClientAmount(amount: ITransactionAmountSQL): ITransactionAmount {
+        return {
+            id: parseInt(amount.Id),
+            transactionId: parseInt(amount.TransactionId),
+            accountId: amount.AccountId ? parseInt(amount.AccountId) : null,
+            accountName: amount.AccountName,
+            amountToPay: amount.AmountToPay,
+            amountPaid: amount.AmountPaid,
+            currency: amount.Currency,
+            exchangeRate: amount.ExchangeRate,
+            convertedAmountToPay: amount.ConvertedAmountToPay,
+            convertedAmountPaid: amount.ConvertedAmountPaid,
+            createdOn: amount.CreatedOn
+        };
+    }
 }
\ No newline at end of file
@@ -0,0 +1,277 @@
+import db, { commitTransaction, rollbackTransaction, startTransaction } from '@/services/db.service';
+import { StatusError } from '@/utils/error.util';
+import { customValidators, validateObject } from '@/utils/validator.util';
+import { accessibleAccountCondition, Account } from './accounts.model';
+import { ITransaction, Transaction } from './transactions.model';
+
+// Categories of the transactions a transfer is made of
+export const transferCategory = 'Transfer';
+export const transferFeeCategory = 'Transfer Fee';
+
+export interface ITransferSQL {
+    Id: string;
+    UserId: number;
+    CreatedOn: Date;
+}
+
+export interface ITransfer {
+    id: number;
+    // Null once the account has been deleted
+    fromAccountId: number | null;
+    toAccountId: number | null;
+    // Currency of the source account, amount and fee are in it
+    currency: string;
+    amount: number;
+    // Amount the destination account received, in its own currency
+    receivedAmount: number;
+    fee: number;
+    createdOn: Date;
+    // The expense on the source account, the income on the destination account and the fee, if any
+    transactions: ITransaction[];
+}
+
+export interface INewTransfer {
+    fromAccountId: number;
+    toAccountId: number;
+    // In the source account's currency, converted with the user's exchange rates if the destination account uses another one
+    amount: number;
+    // Taken from the source account on top of the amount and included in reports
+    fee?: number;
+    description?: string;
+    notes?: string;
+}
+
+export class Transfer {
+    /**
+     * Move money between two of a user's accounts, or accounts shared with them as an editor
+     * @param userId User ID who owns or can edit both accounts
+     * @param transferData Accounts, amount and optional fee of the transfer
+     * @returns Created transfer with its transactions
+     */
+    public static async createTransfer(userId: number, transferData: INewTransfer): Promise<ITransfer> {
+        const [success, validatedDataOrErrors] = validateObject({
+            userId,
+            ...transferData
+        }, {
+            userId: customValidators.id,
+            fromAccountId: customValidators.id,
+            toAccountId: customValidators.id,
+            amount: customValidators.decimal.positive(),
+            fee: customValidators.decimal.nonnegative().optional(),
+            description: customValidators.nonEmptyString.max(255).optional(),
+            notes: customValidators.nonEmptyString.optional()
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, fromAccountId, toAccountId, amount, fee = 0, description, notes } = validatedDataOrErrors;
+
+        if (fromAccountId === toAccountId) {
+            throw new StatusError('toAccountId: Must be different from fromAccountId');
+        }
+
+        const fromAccount = await Account.getAccountById(fromAccountId);
+        const toAccount = await Account.getAccountById(toAccountId);
+        if (!fromAccount || !toAccount) {
+            throw new StatusError('Account not found or does not belong to user', 404);
+        }
+
+        // Shared accounts can be used by their editors as well
+        for (const accountId of [fromAccountId, toAccountId]) {
+            const role = await Account.getAccountRole(validUserId, accountId);
+            if (role !== 'owner' && role !== 'editor') {
+                throw new StatusError('Account not found or does not belong to user', 404);
+            }
+        }
+
+        const tx = await startTransaction();
+        try {
+            const transferResult = await db.executeQuery<ITransferSQL[]>(`
+                INSERT INTO Finance.Transfers (UserId)
+                OUTPUT INSERTED.Id, INSERTED.UserId, INSERTED.CreatedOn
+                VALUES (@userId)
+            `, { userId: validUserId }, tx);
+
+            if (!transferResult || transferResult.length === 0) {
+                throw new StatusError('Failed to create transfer');
+            }
+
+            const transferId = parseInt(transferResult[0].Id);
+            const transactions: ITransaction[] = [];
+
+            transactions.push(await Transaction.createTransaction(validUserId, {
+                category: transferCategory,
+                isIncome: false,
+                includeInReports: false,
+                description: description ?? `Transfer to ${toAccount.Name}`,
+                notes,
+                currency: fromAccount.Currency,
+                amounts: [{ accountId: fromAccountId, amountToPay: amount, amountPaid: amount }]
+            }, transferId, tx));
+
+            transactions.push(await Transaction.createTransaction(validUserId, {
+                category: transferCategory,
+                isIncome: true,
+                includeInReports: false,
+                description: description ?? `Transfer from ${fromAccount.Name}`,
+                notes,
+                currency: fromAccount.Currency,
+                amounts: [{ accountId: toAccountId, amountToPay: amount, amountPaid: amount }]
+            }, transferId, tx));
+
+            if (fee > 0) {
+                transactions.push(await Transaction.createTransaction(validUserId, {
+                    category: transferFeeCategory,
+                    isIncome: false,
+                    includeInReports: true,
+                    description: `Fee for transfer to ${toAccount.Name}`,
+                    currency: fromAccount.Currency,
+                    amounts: [{ accountId: fromAccountId, amountToPay: fee, amountPaid: fee }]
+                }, transferId, tx));
+            }
+
+            await commitTransaction(tx);
+
+            return this.toClient(transferResult[0], transactions);
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
+        }
+    }
+
+    /**
+     * Get a transfer
+     * @param userId User ID who made the transfer
+     * @param transferId Transfer to get
+     * @returns Transfer with its transactions
+     */
+    public static async getTransfer(userId: number, transferId: number): Promise<ITransfer> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, transferId }, {
+            userId: customValidators.id,
+            transferId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, transferId: validTransferId } = validatedDataOrErrors;
+
+        const transfer = await this.findTransfer(validUserId, validTransferId);
+
+        // Legs on accounts that have since been deleted only have placeholder amounts and are left out
+        const transactionIds = await db.executeQuery<{ Id: string }[]>(`
+            SELECT DISTINCT t.Id
+            FROM Finance.Transactions t
+            INNER JOIN Finance.TransactionAmounts ta ON ta.TransactionId = t.Id
+            INNER JOIN Finance.Accounts a ON ta.AccountId = a.Id
+            WHERE t.TransferId = @transferId AND ${accessibleAccountCondition}
+        `, { userId: validUserId, transferId: validTransferId });
+
+        const transactions: ITransaction[] = [];
+        for (const { Id } of transactionIds) {
+            const transaction = await Transaction.getTransactionById(validUserId, parseInt(Id));
+            if (transaction) {
+                transactions.push(transaction);
+            }
+        }
+
+        return this.toClient(transfer, transactions);
+    }
+
+    /**
+     * Delete a transfer and every transaction it is made of, undoing its effect on both accounts
+     * @param userId User ID who made the transfer
+     * @param transferId Transfer to delete
+     */
+    public static async deleteTransfer(userId: number, transferId: number): Promise<void> {
+        const [success, validatedDataOrErrors] = validateObject({ userId, transferId }, {
+            userId: customValidators.id,
+            transferId: customValidators.id
+        });
+
+        if (!success) {
+            const error = validatedDataOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validUserId, transferId: validTransferId } = validatedDataOrErrors;
+
+        await this.findTransfer(validUserId, validTransferId);
+
+        const tx = await startTransaction();
+        try {
+            // Amounts go first, Accounts_Balance_Trigger needs their transaction to undo the balance change
+            await db.executeQuery(`
+                DELETE ta
+                FROM Finance.TransactionAmounts ta
+                INNER JOIN Finance.Transactions t ON ta.TransactionId = t.Id
+                WHERE t.TransferId = @transferId
+            `, { transferId: validTransferId }, tx);
+
+            await db.executeQuery(`
+                DELETE FROM Finance.Transactions
+                WHERE TransferId = @transferId
+            `, { transferId: validTransferId }, tx);
+
+            await db.executeQuery(`
+                DELETE FROM Finance.Transfers
+                WHERE Id = @transferId
+            `, { transferId: validTransferId }, tx);
+
+            await commitTransaction(tx);
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the row of a transfer the user made
+     * @param userId User ID who made the transfer
+     * @param transferId Transfer to get
+     * @returns Database row
+     */
+    private static async findTransfer(userId: number, transferId: number): Promise<ITransferSQL> {
+        const result = await db.executeQuery<ITransferSQL[]>(`
+            SELECT Id, UserId, CreatedOn
+            FROM Finance.Transfers
+            WHERE Id = @transferId AND UserId = @userId
+        `, { userId, transferId });
+
+        if (!result || result.length === 0) {
+            throw new StatusError('Transfer not found', 404);
+        }
+
+        return result[0];
+    }
+
+    /**
+     * Map a transfer and its transactions to the client format
+     * The legs are told apart by their type, which cannot be changed on transactions of a transfer
+     * @param transfer Database row
+     * @param transactions Transactions of the transfer
+     * @returns Transfer
+     */
+    private static toClient(transfer: ITransferSQL, transactions: ITransaction[]): ITransfer {
+        const outgoing = transactions.find(transaction => !transaction.isIncome && !transaction.includeInReports);
+        const incoming = transactions.find(transaction => transaction.isIncome);
+        const fee = transactions.find(transaction => !transaction.isIncome && transaction.includeInReports);
+
+        return {
+            id: parseInt(transfer.Id),
+            fromAccountId: outgoing?.amounts[0]?.accountId ?? null,
+            toAccountId: incoming?.amounts[0]?.accountId ?? null,
+            currency: outgoing?.currency ?? incoming?.currency ?? '',
+            amount: outgoing?.amounts[0]?.amountPaid ?? 0,
+            receivedAmount: incoming?.amounts[0]?.convertedAmountPaid ?? 0,
+            fee: fee?.amounts[0]?.amountPaid ?? 0,
+            createdOn: transfer.CreatedOn,
+            transactions
+        };
+    }
+}
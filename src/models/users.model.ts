@@ -1,14 +1,37 @@
-import db from '@/services/db.service';
+import db, { commitTransaction, rollbackTransaction, startTransaction } from '@/services/db.service';
 import bcrypt from 'bcrypt';
 import { customValidators, validateObject } from '@/utils/validator.util';
-import { StatusError } from '@/middleware/errorHandler.middleware';
-import { decrypt, encrypt, refreshExpirationTime } from '@/utils/jwt.util';
-import { createSession, verifySession } from '@/utils/session.util';
+import { StatusError } from '@/utils/error.util';
+import { createSession } from '@/utils/session.util';
+import { generateToken, hashToken } from '@/utils/token.util';
+import { IClientDevice } from '@/utils/request.util';
+import { generateTotpSecret, getProvisioningUri, verifyTotp } from '@/utils/totp.util';
+import { sendMail } from '@/services/mail.service';
+import { RefreshToken } from './refreshTokens.model';
+import { Session } from './sessions.model';
+import { AuditEvent } from './auditEvents.model';
+import { LoginAttempt } from './loginAttempts.model';
+import { MfaChallenge } from './mfaChallenges.model';
+import { PersonalAccessToken } from './personalAccessTokens.model';
+import { Account, IAccount } from './accounts.model';
+import { Friend, IFriend, IFriendRequest } from './friends.model';
+import { ITransaction, Transaction } from './transactions.model';
+import { IUserPreferences, UserPreferences } from './preferences.model';
+import { ExchangeRate, IExchangeRate } from './exchangeRates.model';
+import { Goal, IGoal } from './goals.model';
+import { IRecurringTransaction, RecurringTransaction } from './recurringTransactions.model';
+import { Category, ICategory } from './categories.model';
+
+const appUrl = process.env.APP_URL || 'http://localhost:3000';
+const passwordResetExpirationMinutes = parseInt(process.env.PASSWORD_RESET_EXPIRATION_MINUTES || '30');
+const emailVerificationExpirationHours = parseInt(process.env.EMAIL_VERIFICATION_EXPIRATION_HOURS || '24');
+const recoveryCodeCount = 10;
 
 export interface IUser {
     Id: number;
     Username: string;
     Email: string;
+    EmailVerified: boolean;
     CreatedOn: Date;
     ModifiedOn: Date;
 }
@@ -17,6 +40,12 @@ export interface IUserWithPassword extends IUser {
     Password: Buffer;
 }
 
+export interface IUserWithTwoFactor extends IUserWithPassword {
+    TotpSecret: string | null;
+    TotpEnabled: boolean;
+    TotpLastUsedStep: string | null;
+}
+
 export interface IUserRegistration {
     username: string;
     email: string;
@@ -34,6 +63,77 @@ export interface IChangePassword {
     newPassword: string;
 }
 
+export interface IChangeUsername {
+    userId: number;
+    username: string;
+    password: string;
+}
+
+export interface IChangeEmail {
+    userId: number;
+    email: string;
+    password: string;
+}
+
+export interface IForgotPassword {
+    email: string;
+}
+
+export interface IResetPassword {
+    token: string;
+    newPassword: string;
+}
+
+export interface IVerifyEmail {
+    token: string;
+}
+
+export interface IMfaChallenge {
+    mfaRequired: true;
+    mfaToken: string;
+}
+
+export interface IUserLoginMfa {
+    mfaToken: string;
+    code: string;
+}
+
+export interface ITwoFactorSetup {
+    secret: string;
+    otpauthUrl: string;
+}
+
+export interface ITwoFactorConfirm {
+    userId: number;
+    code: string;
+}
+
+export interface ITwoFactorDisable {
+    userId: number;
+    password: string;
+    code: string;
+}
+
+export interface IDeleteUser {
+    userId: number;
+    password: string;
+    code?: string;
+}
+
+export interface IUserDataExport {
+    exportedOn: Date;
+    user: IUser;
+    preferences: IUserPreferences;
+    accounts: IAccount[];
+    exchangeRates: IExchangeRate[];
+    goals: IGoal[];
+    categories: ICategory[];
+    recurringTransactions: IRecurringTransaction[];
+    transactions: ITransaction[];
+    friends: IFriend[];
+    friendRequests: IFriendRequest[];
+}
+
 export interface IUserRefresh {
     refreshToken: string;
 }
@@ -42,9 +142,10 @@ export class User {
     /**
      * Register a new user
      * @param userData User registration data
+     * @param device Device the user registered from
      * @returns Newly created user without password
      */
-    public static async register(userData: IUserRegistration): Promise<{ user: IUser, token: string, refreshToken: string }> {
+    public static async register(userData: IUserRegistration, device: IClientDevice): Promise<{ user: IUser, token: string, refreshToken: string }> {
         // Check if username or email already exists
 
         const [success, credentialsOrErrors] = validateObject(userData, {
@@ -71,7 +172,7 @@ export class User {
 
         const query = `
             INSERT INTO Auth.Users (Username, Password, Email)
-            OUTPUT INSERTED.Id, INSERTED.Username, INSERTED.Email, INSERTED.CreatedOn, INSERTED.ModifiedOn
+            OUTPUT INSERTED.Id, INSERTED.Username, INSERTED.Email, INSERTED.EmailVerified, INSERTED.CreatedOn, INSERTED.ModifiedOn
             VALUES (@username, @password, @email)
         `;
 
@@ -87,8 +188,17 @@ export class User {
 
         const user = result[0];
         console.log(user);
-        const token = await createSession(user.Id, user.Username, user.Email);
-        const refreshToken = await encrypt({userId: user.Id, userName: user.Username, email: user.Email, refresh: true}, refreshExpirationTime);
+        await Category.seedDefaults(user.Id);
+        const { token, refreshToken } = await this.issueTokens(user, device);
+
+        try {
+            await this.sendEmailVerification(user);
+        } catch (error) {
+            // The user can request a new link from their profile
+            console.error('Failed to send verification email:', error);
+        }
+
+        await AuditEvent.record({ type: 'user.registered', userId: user.Id, device });
 
         return { user, token, refreshToken };
     }
@@ -96,9 +206,12 @@ export class User {
     /**
      * Login a user with username/email and password
      * @param loginData Login data
+     * If two-factor authentication is enabled, a challenge token is returned instead,
+     * which must be exchanged with a TOTP or recovery code at loginMfa
+     * @param device Device the user logs in from, its IP address is also used to throttle failed attempts
      * @returns User without password and auth token if login successful
      */
-    public static async login(loginData: IUserLogin): Promise<{ user: IUser, token: string, refreshToken: string }> {
+    public static async login(loginData: IUserLogin, device: IClientDevice): Promise<{ user: IUser, token: string, refreshToken: string } | IMfaChallenge> {
         const [success, credentialsOrErrors] = validateObject(loginData, {
             usernameOrEmail: customValidators.username.or(customValidators.email),
             password: customValidators.password
@@ -113,14 +226,21 @@ export class User {
 
         // Get user with password
         const query = `
-            SELECT Id, Username, Password, Email, CreatedOn, ModifiedOn
+            SELECT Id, Username, Password, Email, EmailVerified, CreatedOn, ModifiedOn, TotpEnabled
             FROM Auth.Users
             WHERE Username = @usernameOrEmail OR Email = @usernameOrEmail
         `;
 
-        const users = await db.executeQuery<IUserWithPassword[]>(query, { usernameOrEmail });
+        const users = await db.executeQuery<(IUserWithPassword & { TotpEnabled: boolean })[]>(query, { usernameOrEmail });
+
+        const attemptSubject = users && users.length > 0
+            ? { userId: users[0].Id, ip: device.ip }
+            : { identifier: usernameOrEmail, ip: device.ip };
+        await LoginAttempt.assertNotLocked(attemptSubject);
 
         if (!users || users.length === 0) {
+            await LoginAttempt.recordFailure(attemptSubject);
+            await AuditEvent.record({ type: 'user.login_failed', userId: null, device, metadata: { identifier: usernameOrEmail } });
             throw new StatusError('Invalid credentials', 401);
         }
 
@@ -133,16 +253,28 @@ export class User {
         );
 
         if (!passwordMatch) {
+            await LoginAttempt.recordFailure(attemptSubject);
+            await AuditEvent.record({ type: 'user.login_failed', userId: user.Id, device, metadata: { reason: 'password' } });
             throw new StatusError('Invalid credentials', 401);
         }
 
+        // The failed attempts of users with two-factor authentication are only cleared once the second factor passes,
+        // otherwise knowing the password would allow unlimited code guesses
+        if (user.TotpEnabled) {
+            const mfaToken = await MfaChallenge.issue(user.Id);
+            return { mfaRequired: true, mfaToken };
+        }
+
+        await LoginAttempt.reset(attemptSubject);
+
         // Remove password from user object
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        const { Password: _, ...userWithoutPassword } = user;
+        const { Password: _, TotpEnabled: __, ...userWithoutPassword } = user;
 
         // Generate auth token
-        const token = await createSession(user.Id, user.Username, user.Email);
-        const refreshToken = await encrypt({userId: user.Id, userName: user.Username, email: user.Email, refresh: true}, refreshExpirationTime);
+        const { token, refreshToken } = await this.issueTokens(user, device);
+
+        await AuditEvent.record({ type: 'user.login', userId: user.Id, device, metadata: { mfa: false } });
 
         return {
             user: userWithoutPassword,
@@ -152,30 +284,69 @@ export class User {
     }
 
     /**
-     * Refresh user session
-     * @param refreshData Refresh token data
-     * @returns User without password and new auth token if login successful
+     * Complete a login that requires two-factor authentication
+     * Wrong codes count towards the lockout of the account and IP address, a challenge can only be used once
+     * and is used up after MFA_MAX_ATTEMPTS wrong codes
+     * @param loginData Challenge token from login and a TOTP or recovery code
+     * @param device Device the user logs in from
+     * @returns User without password and auth token if login successful
      */
-    public static async refresh(refreshData: IUserRefresh): Promise<{ user: IUser, token: string }> {
-        const [success, credentialsOrErrors] = validateObject(refreshData, {
-            refreshToken: customValidators.jwt
+    public static async loginMfa(loginData: IUserLoginMfa, device: IClientDevice): Promise<{ user: IUser, token: string, refreshToken: string }> {
+        const [success, credentialsOrErrors] = validateObject(loginData, {
+            mfaToken: customValidators.jwt,
+            code: customValidators.nonEmptyString
         });
 
         if (!success) {
             const error = credentialsOrErrors.errors[0];
-            throw new StatusError(error.path.join(".") + ": " + error.message, 401);
+            throw new StatusError(error.path.join(".") + ": " + error.message);
         }
 
-        const { refreshToken } = credentialsOrErrors;
+        const { mfaToken, code } = credentialsOrErrors;
+
+        const payload = await MfaChallenge.verify(mfaToken);
 
-        const payload = await decrypt(refreshToken);
-        if (!verifySession(payload)) {
-            throw new StatusError('Invalid refresh token', 401);
+        const user = await this.getUserById(payload.userId);
+        if (!user) {
+            throw new StatusError('Invalid login challenge', 401);
         }
-        if (!payload.refresh) {
-            throw new StatusError('Invalid refresh token', 401);
+        if (Math.floor(user.ModifiedOn.getTime()/1000) > payload.iat) {
+            throw new StatusError('Login challenge expired, please log in again', 401);
         }
 
+        const attemptSubject = { userId: user.Id, ip: device.ip };
+        await LoginAttempt.assertNotLocked(attemptSubject);
+
+        if (!(await this.verifySecondFactor(user.Id, code))) {
+            await LoginAttempt.recordFailure(attemptSubject);
+            const challengeOpen = await MfaChallenge.recordFailure(payload);
+            await AuditEvent.record({ type: 'user.mfa_failed', userId: user.Id, device });
+            throw new StatusError(challengeOpen
+                ? 'Invalid authentication code'
+                : 'Invalid authentication code, please log in again', 401);
+        }
+
+        await MfaChallenge.consume(payload);
+        await LoginAttempt.reset(attemptSubject);
+
+        // Generate auth token
+        const { token, refreshToken } = await this.issueTokens(user, device);
+
+        await AuditEvent.record({ type: 'user.login', userId: user.Id, device, metadata: { mfa: true } });
+
+        return { user, token, refreshToken };
+    }
+
+    /**
+     * Refresh user session
+     * The refresh token is single use, a new refresh token in the same family is returned
+     * @param refreshData Refresh token data
+     * @param device Device the refresh comes from
+     * @returns User without password, new auth token and new refresh token if refresh successful
+     */
+    public static async refresh(refreshData: IUserRefresh, device: IClientDevice): Promise<{ user: IUser, token: string, refreshToken: string }> {
+        const payload = await RefreshToken.verify(refreshData.refreshToken);
+
         // Get user without password
         const user = await this.getUserById(payload.userId);
         if (!user) {
@@ -185,18 +356,79 @@ export class User {
             throw new StatusError('Refresh token expired', 401);
         }
 
-        // Generate new auth token
-        const token = await createSession(user.Id, user.Username, user.Email);
+        try {
+            await RefreshToken.consume(payload);
+        } catch (error) {
+            if (error instanceof StatusError && error.message.startsWith('Refresh token reuse')) {
+                await AuditEvent.record({ type: 'user.refresh_reused', userId: user.Id, device, metadata: { sessionId: payload.fid } });
+            }
+            throw error;
+        }
+
+        // Generate new auth token and rotate the refresh token
+        const { token, refreshToken } = await this.issueTokens(user, device, payload.fid);
+
+        await AuditEvent.record({ type: 'user.refresh', userId: user.Id, device, metadata: { sessionId: payload.fid } });
 
-        return { user, token };
+        return { user, token, refreshToken };
+    }
+
+    /**
+     * Logout a single session by revoking its refresh token family
+     * @param refreshData Refresh token of the session to logout
+     * @param device Device the logout comes from
+     */
+    public static async logout(refreshData: IUserRefresh, device: IClientDevice): Promise<void> {
+        const payload = await RefreshToken.verify(refreshData.refreshToken);
+        await RefreshToken.revokeFamily(payload.userId, payload.fid);
+        await AuditEvent.record({ type: 'user.logout', userId: payload.userId, device, metadata: { sessionId: payload.fid } });
+    }
+
+    /**
+     * Logout every session of a user
+     * Revokes all refresh tokens and personal access tokens and invalidates all issued auth tokens
+     * @param userId User ID to logout
+     * @param device Device the logout comes from
+     */
+    public static async logoutAll(userId: number, device: IClientDevice): Promise<void> {
+        const [success, credentialsOrErrors] = validateObject({ userId }, {
+            userId: customValidators.id
+        });
+        if (!success) {
+            const error = credentialsOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId: validatedUserId } = credentialsOrErrors;
+
+        const tx = await startTransaction();
+        try {
+            await RefreshToken.revokeAll(validatedUserId, tx);
+            await PersonalAccessToken.revokeAll(validatedUserId, tx);
+
+            // Bumping ModifiedOn makes authenticate() reject every token issued before now
+            await db.executeQuery(`
+                UPDATE Auth.Users
+                SET ModifiedOn = SYSDATETIMEOFFSET()
+                WHERE Id = @userId
+            `, { userId: validatedUserId }, tx);
+
+            await AuditEvent.record({ type: 'user.logout_all', userId: validatedUserId, device }, tx);
+
+            await commitTransaction(tx);
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
+        }
     }
 
     /**
      * Change user password
      * @param changePasswordData Password change data
+     * @param device Device the change comes from, a new session is started for it
      * @returns True if password changed successfully
      */
-    public static async changePassword(changePasswordData: IChangePassword) {
+    public static async changePassword(changePasswordData: IChangePassword, device: IClientDevice) {
         if (changePasswordData.currentPassword === changePasswordData.newPassword) {
             throw new StatusError('New password cannot be the same as current password');
         }
@@ -212,44 +444,575 @@ export class User {
 
         const { userId, currentPassword, newPassword } = credentialsOrErrors;
 
-        // Get user with password
+        const user = await this.verifyCurrentPassword(userId, currentPassword);
+
+        // Hash new password
+        const saltRounds = 10;
+        const newPasswordHash = await bcrypt.hash(newPassword, saltRounds);
+
+        await db.executeStoredProcedure("Auth.ChangePassword", {
+            Id: userId,
+            NewPassword: Buffer.from(newPasswordHash)
+        });
+        await RefreshToken.revokeAll(userId);
+        await PersonalAccessToken.revokeAll(userId);
+
+        const { token, refreshToken } = await this.issueTokens(user, device);
+
+        await AuditEvent.record({ type: 'user.password_changed', userId, device });
+
+        return [token, refreshToken];
+    }
+
+    /**
+     * Change username
+     * @param changeUsernameData Username change data with password confirmation
+     * @param device Device the change comes from, a new session is started for it
+     * @returns Updated user with new auth and refresh tokens
+     */
+    public static async changeUsername(changeUsernameData: IChangeUsername, device: IClientDevice): Promise<{ user: IUser, token: string, refreshToken: string }> {
+        const [success, credentialsOrErrors] = validateObject(changeUsernameData, {
+            userId: customValidators.id,
+            username: customValidators.username,
+            password: customValidators.password
+        });
+        if (!success) {
+            const error = credentialsOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId, username, password } = credentialsOrErrors;
+
+        const currentUser = await this.verifyCurrentPassword(userId, password);
+        if (currentUser.Username === username) {
+            throw new StatusError('New username cannot be the same as current username');
+        }
+
         const query = `
-            SELECT Id, Username, Email, Password
+            SELECT COUNT(*) as count
             FROM Auth.Users
-            WHERE Id = @userId
+            WHERE Username = @username AND Id != @userId
+        `;
+        const result = await db.executeQuery<{ count: number }[]>(query, { username, userId });
+        if (result[0].count > 0) {
+            throw new StatusError('Username already exists', 409);
+        }
+
+        try {
+            await db.executeStoredProcedure("Auth.ChangeUsername", {
+                Id: userId,
+                NewUsername: username
+            });
+        } catch (error) {
+            if (error instanceof Error && error.message.includes('Users_Uniq_Username')) {
+                throw new StatusError('Username already exists', 409);
+            }
+            throw error;
+        }
+
+        await AuditEvent.record({
+            type: 'user.username_changed',
+            userId,
+            device,
+            metadata: { oldUsername: currentUser.Username, newUsername: username }
+        });
+
+        return await this.reissueTokens(userId, device);
+    }
+
+    /**
+     * Change email
+     * @param changeEmailData Email change data with password confirmation
+     * @param device Device the change comes from, a new session is started for it
+     * @returns Updated user with new auth and refresh tokens
+     */
+    public static async changeEmail(changeEmailData: IChangeEmail, device: IClientDevice): Promise<{ user: IUser, token: string, refreshToken: string }> {
+        const [success, credentialsOrErrors] = validateObject(changeEmailData, {
+            userId: customValidators.id,
+            email: customValidators.email,
+            password: customValidators.password
+        });
+        if (!success) {
+            const error = credentialsOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId, email, password } = credentialsOrErrors;
+
+        const currentUser = await this.verifyCurrentPassword(userId, password);
+        if (currentUser.Email === email) {
+            throw new StatusError('New email cannot be the same as current email');
+        }
+
+        const query = `
+            SELECT COUNT(*) as count
+            FROM Auth.Users
+            WHERE Email = @email AND Id != @userId
         `;
+        const result = await db.executeQuery<{ count: number }[]>(query, { email, userId });
+        if (result[0].count > 0) {
+            throw new StatusError('Email already exists', 409);
+        }
+
+        try {
+            await db.executeStoredProcedure("Auth.ChangeEmail", {
+                Id: userId,
+                NewEmail: email
+            });
+        } catch (error) {
+            if (error instanceof Error && error.message.includes('Users_Uniq_Email')) {
+                throw new StatusError('Email already exists', 409);
+            }
+            throw error;
+        }
+
+        await AuditEvent.record({
+            type: 'user.email_changed',
+            userId,
+            device,
+            metadata: { oldEmail: currentUser.Email, newEmail: email }
+        });
 
-        const users = await db.executeQuery<{ Id: number, Username: string, Email: string, Password: Buffer }[]>(query, { userId });
+        const tokens = await this.reissueTokens(userId, device);
 
+        try {
+            await this.sendEmailVerification(tokens.user);
+        } catch (error) {
+            console.error('Failed to send verification email:', error);
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Send a password reset link to the user's email
+     * Does not reveal whether an account exists for the email
+     * @param forgotPasswordData Email of the account to reset
+     * @param device Device the request comes from
+     */
+    public static async forgotPassword(forgotPasswordData: IForgotPassword, device: IClientDevice): Promise<void> {
+        const [success, credentialsOrErrors] = validateObject(forgotPasswordData, {
+            email: customValidators.email
+        });
+        if (!success) {
+            const error = credentialsOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { email } = credentialsOrErrors;
+
+        const query = `
+            SELECT Id, Username, Email, EmailVerified, CreatedOn, ModifiedOn
+            FROM Auth.Users
+            WHERE Email = @email
+        `;
+
+        const users = await db.executeQuery<IUser[]>(query, { email });
         if (!users || users.length === 0) {
-            throw new StatusError('User not found', 404);
+            return;
         }
 
         const user = users[0];
+        const token = generateToken();
 
-        // Verify current password
-        const passwordMatch = await bcrypt.compare(
-            currentPassword,
-            user.Password.toString()
-        );
+        const tx = await startTransaction();
+        try {
+            // Only the latest reset link stays valid
+            await db.executeQuery(`
+                UPDATE Auth.PasswordResetTokens
+                SET UsedOn = SYSDATETIMEOFFSET()
+                WHERE UserId = @userId AND UsedOn IS NULL
+            `, { userId: user.Id }, tx);
 
-        if (!passwordMatch) {
-            throw new StatusError('Current password is incorrect');
+            await db.executeQuery(`
+                INSERT INTO Auth.PasswordResetTokens (UserId, TokenHash, ExpiresOn)
+                VALUES (@userId, @tokenHash, DATEADD(MINUTE, @expirationMinutes, SYSDATETIMEOFFSET()))
+            `, {
+                userId: user.Id,
+                tokenHash: hashToken(token),
+                expirationMinutes: passwordResetExpirationMinutes
+            }, tx);
+
+            await commitTransaction(tx);
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
         }
 
+        await AuditEvent.record({ type: 'user.password_reset_requested', userId: user.Id, device });
+
+        const resetUrl = `${appUrl}/reset-password?token=${token}`;
+        await sendMail({
+            to: user.Email,
+            subject: 'Reset your FASTMoney password',
+            text: `Hi ${user.Username},\n\nUse the link below to reset your password. The link expires in ${passwordResetExpirationMinutes} minutes and can only be used once.\n\n${resetUrl}\n\nIf you did not request a password reset, you can ignore this email.`
+        });
+    }
+
+    /**
+     * Reset a user's password using a token from a password reset email
+     * @param resetPasswordData Reset token and new password
+     * @param device Device the reset comes from
+     */
+    public static async resetPassword(resetPasswordData: IResetPassword, device: IClientDevice): Promise<void> {
+        const [success, credentialsOrErrors] = validateObject(resetPasswordData, {
+            token: customValidators.nonEmptyString,
+            newPassword: customValidators.password
+        });
+        if (!success) {
+            const error = credentialsOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { token, newPassword } = credentialsOrErrors;
+
         // Hash new password
         const saltRounds = 10;
         const newPasswordHash = await bcrypt.hash(newPassword, saltRounds);
 
-        await db.executeStoredProcedure("Auth.ChangePassword", {
-            Id: userId,
-            NewPassword: Buffer.from(newPasswordHash)
+        const tx = await startTransaction();
+        try {
+            const result = await db.executeQuery<{ UserId: number }[]>(`
+                UPDATE Auth.PasswordResetTokens
+                SET UsedOn = SYSDATETIMEOFFSET()
+                OUTPUT INSERTED.UserId
+                WHERE TokenHash = @tokenHash AND UsedOn IS NULL AND ExpiresOn > SYSDATETIMEOFFSET()
+            `, { tokenHash: hashToken(token) }, tx);
+
+            if (!result || result.length === 0) {
+                throw new StatusError('Invalid or expired reset token');
+            }
+
+            const userId = result[0].UserId;
+
+            await db.executeStoredProcedure("Auth.ChangePassword", {
+                Id: userId,
+                NewPassword: Buffer.from(newPasswordHash)
+            }, tx);
+            await RefreshToken.revokeAll(userId, tx);
+            await PersonalAccessToken.revokeAll(userId, tx);
+
+            await AuditEvent.record({ type: 'user.password_reset', userId, device }, tx);
+
+            await commitTransaction(tx);
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
+        }
+    }
+
+    /**
+     * Verify a user's email using a token from a verification email
+     * @param verifyEmailData Verification token
+     * @param device Device the verification comes from
+     */
+    public static async verifyEmail(verifyEmailData: IVerifyEmail, device: IClientDevice): Promise<void> {
+        const [success, credentialsOrErrors] = validateObject(verifyEmailData, {
+            token: customValidators.nonEmptyString
         });
+        if (!success) {
+            const error = credentialsOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
 
-        const token = await createSession(userId, user.Username, user.Email);
-        const refreshToken = await encrypt({userId: user.Id, userName: user.Username, email: user.Email, refresh: true}, refreshExpirationTime);
+        const { token } = credentialsOrErrors;
 
-        return [token, refreshToken];
+        const tx = await startTransaction();
+        try {
+            const result = await db.executeQuery<{ UserId: number, Email: string }[]>(`
+                UPDATE Auth.EmailVerificationTokens
+                SET UsedOn = SYSDATETIMEOFFSET()
+                OUTPUT INSERTED.UserId, INSERTED.Email
+                WHERE TokenHash = @tokenHash AND UsedOn IS NULL AND ExpiresOn > SYSDATETIMEOFFSET()
+            `, { tokenHash: hashToken(token) }, tx);
+
+            if (!result || result.length === 0) {
+                throw new StatusError('Invalid or expired verification token');
+            }
+
+            // The link only verifies the address it was sent to
+            const updated = await db.executeQuery<{ Id: number }[]>(`
+                UPDATE Auth.Users
+                SET EmailVerified = 1
+                OUTPUT INSERTED.Id
+                WHERE Id = @userId AND Email = @email
+            `, { userId: result[0].UserId, email: result[0].Email }, tx);
+
+            if (!updated || updated.length === 0) {
+                throw new StatusError('Invalid or expired verification token');
+            }
+
+            await AuditEvent.record({
+                type: 'user.email_verified',
+                userId: result[0].UserId,
+                device,
+                metadata: { email: result[0].Email }
+            }, tx);
+
+            await commitTransaction(tx);
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
+        }
+    }
+
+    /**
+     * Send a new verification link to a user's current email
+     * @param userId User ID
+     */
+    public static async resendEmailVerification(userId: number): Promise<void> {
+        const user = await this.getUserById(userId);
+        if (!user) {
+            throw new StatusError('User not found', 404);
+        }
+        if (user.EmailVerified) {
+            throw new StatusError('Email is already verified');
+        }
+
+        const recent = await db.executeQuery<{ count: number }[]>(`
+            SELECT COUNT(*) as count
+            FROM Auth.EmailVerificationTokens
+            WHERE UserId = @userId AND CreatedOn > DATEADD(MINUTE, -1, SYSDATETIMEOFFSET())
+        `, { userId: user.Id });
+        if (recent[0].count > 0) {
+            throw new StatusError('A verification email was sent less than a minute ago', 429, { 'Retry-After': '60' });
+        }
+
+        await this.sendEmailVerification(user);
+    }
+
+    /**
+     * Check whether two-factor authentication is enabled for a user
+     * @param userId User ID
+     * @returns Two-factor status and number of unused recovery codes
+     */
+    public static async getTwoFactorStatus(userId: number): Promise<{ enabled: boolean, recoveryCodesRemaining: number }> {
+        const user = await this.getUserWithTwoFactor(userId);
+
+        const query = `
+            SELECT COUNT(*) as count
+            FROM Auth.RecoveryCodes
+            WHERE UserId = @userId AND UsedOn IS NULL
+        `;
+        const result = await db.executeQuery<{ count: number }[]>(query, { userId: user.Id });
+
+        return {
+            enabled: user.TotpEnabled,
+            recoveryCodesRemaining: user.TotpEnabled ? result[0].count : 0
+        };
+    }
+
+    /**
+     * Start two-factor enrollment by generating a new TOTP secret
+     * The secret is not active until confirmed with a code
+     * @param userId User ID
+     * @returns Secret and provisioning URI to show as a QR code
+     */
+    public static async setupTwoFactor(userId: number): Promise<ITwoFactorSetup> {
+        const user = await this.getUserWithTwoFactor(userId);
+        if (user.TotpEnabled) {
+            throw new StatusError('Two-factor authentication is already enabled', 409);
+        }
+
+        const secret = generateTotpSecret();
+
+        await db.executeQuery(`
+            UPDATE Auth.Users
+            SET TotpSecret = @secret, TotpLastUsedStep = NULL
+            WHERE Id = @userId
+        `, { secret, userId: user.Id });
+
+        return {
+            secret,
+            otpauthUrl: getProvisioningUri(secret, user.Username)
+        };
+    }
+
+    /**
+     * Confirm two-factor enrollment with a code from the authenticator app
+     * @param confirmData User ID and TOTP code
+     * @param device Device the confirmation comes from
+     * @returns Recovery codes, these are only shown once
+     */
+    public static async confirmTwoFactor(confirmData: ITwoFactorConfirm, device: IClientDevice): Promise<{ recoveryCodes: string[] }> {
+        const [success, credentialsOrErrors] = validateObject(confirmData, {
+            userId: customValidators.id,
+            code: customValidators.nonEmptyString
+        });
+        if (!success) {
+            const error = credentialsOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId, code } = credentialsOrErrors;
+
+        const user = await this.getUserWithTwoFactor(userId);
+        if (user.TotpEnabled) {
+            throw new StatusError('Two-factor authentication is already enabled', 409);
+        }
+        if (!user.TotpSecret) {
+            throw new StatusError('Two-factor setup has not been started');
+        }
+
+        const step = verifyTotp(user.TotpSecret, code);
+        if (step === null) {
+            throw new StatusError('Invalid authentication code');
+        }
+
+        const recoveryCodes = Array.from({ length: recoveryCodeCount }, () => generateToken(5));
+
+        const tx = await startTransaction();
+        try {
+            await db.executeQuery(`
+                UPDATE Auth.Users
+                SET TotpEnabled = 1, TotpLastUsedStep = @step
+                WHERE Id = @userId
+            `, { step, userId: user.Id }, tx);
+
+            await db.executeQuery(`
+                DELETE FROM Auth.RecoveryCodes
+                WHERE UserId = @userId
+            `, { userId: user.Id }, tx);
+
+            for (const recoveryCode of recoveryCodes) {
+                await db.executeQuery(`
+                    INSERT INTO Auth.RecoveryCodes (UserId, CodeHash)
+                    VALUES (@userId, @codeHash)
+                `, { userId: user.Id, codeHash: hashToken(recoveryCode) }, tx);
+            }
+
+            await AuditEvent.record({ type: 'user.mfa_enabled', userId: user.Id, device }, tx);
+
+            await commitTransaction(tx);
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
+        }
+
+        return { recoveryCodes };
+    }
+
+    /**
+     * Disable two-factor authentication
+     * @param disableData User ID, password and a TOTP or recovery code
+     * @param device Device the request comes from
+     */
+    public static async disableTwoFactor(disableData: ITwoFactorDisable, device: IClientDevice): Promise<void> {
+        const [success, credentialsOrErrors] = validateObject(disableData, {
+            userId: customValidators.id,
+            password: customValidators.password,
+            code: customValidators.nonEmptyString
+        });
+        if (!success) {
+            const error = credentialsOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId, password, code } = credentialsOrErrors;
+
+        await this.verifyCurrentPassword(userId, password, false);
+
+        const user = await this.getUserWithTwoFactor(userId);
+        if (!user.TotpEnabled) {
+            throw new StatusError('Two-factor authentication is not enabled');
+        }
+
+        await this.verifyCurrentSecondFactor(userId, code, device);
+
+        const tx = await startTransaction();
+        try {
+            await db.executeQuery(`
+                UPDATE Auth.Users
+                SET TotpSecret = NULL, TotpEnabled = 0, TotpLastUsedStep = NULL
+                WHERE Id = @userId
+            `, { userId }, tx);
+
+            await db.executeQuery(`
+                DELETE FROM Auth.RecoveryCodes
+                WHERE UserId = @userId
+            `, { userId }, tx);
+
+            await AuditEvent.record({ type: 'user.mfa_disabled', userId, device }, tx);
+
+            await commitTransaction(tx);
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
+        }
+    }
+
+    /**
+     * Export everything stored about a user
+     * @param userId User ID to export
+     * @returns User details with their preferences, accounts, exchange rates, transactions (including amounts and tags) and friends
+     */
+    public static async exportData(userId: number): Promise<IUserDataExport> {
+        const user = await this.getUserById(userId);
+        if (!user) {
+            throw new StatusError('User not found', 404);
+        }
+
+        return {
+            exportedOn: new Date(),
+            user,
+            preferences: await UserPreferences.get(user.Id),
+            accounts: await Account.getUserAccounts(user.Id, true),
+            exchangeRates: await ExchangeRate.getRates(user.Id),
+            goals: await Goal.getGoals(user.Id),
+            categories: await Category.getCategories(user.Id),
+            recurringTransactions: await RecurringTransaction.getRecurringTransactions(user.Id),
+            transactions: await Transaction.getAllUserTransactions(user.Id),
+            friends: await Friend.getFriends(user.Id),
+            friendRequests: await Friend.getFriendRequests(user.Id)
+        };
+    }
+
+    /**
+     * Delete a user's own account
+     * Transactions shared with other users are kept with the user's share replaced by a placeholder named after them
+     * @param deleteData User ID, password and a TOTP or recovery code if two-factor authentication is enabled
+     * @param device Device the deletion comes from
+     * @returns Export of the user's data taken right before deletion
+     */
+    public static async deleteUser(deleteData: IDeleteUser, device: IClientDevice): Promise<IUserDataExport> {
+        const [success, credentialsOrErrors] = validateObject(deleteData, {
+            userId: customValidators.id,
+            password: customValidators.password,
+            code: customValidators.nonEmptyString.optional()
+        });
+        if (!success) {
+            const error = credentialsOrErrors.errors[0];
+            throw new StatusError(error.path.join(".") + ": " + error.message);
+        }
+
+        const { userId, password, code } = credentialsOrErrors;
+
+        const user = await this.getUserWithTwoFactor(userId);
+        await this.verifyCurrentPassword(userId, password, !user.TotpEnabled);
+
+        if (user.TotpEnabled) {
+            if (!code) {
+                throw new StatusError('Authentication code is required');
+            }
+            await this.verifyCurrentSecondFactor(userId, code, device);
+        }
+
+        const dataExport = await this.exportData(userId);
+
+        const tx = await startTransaction();
+        try {
+            await db.executeStoredProcedure("Auth.DeleteUser", {
+                Id: userId
+            }, tx);
+            // Audit events have no foreign key to the user, so this is kept after the user is gone
+            await AuditEvent.record({ type: 'user.deleted', userId, device, metadata: { username: user.Username } }, tx);
+            await commitTransaction(tx);
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
+        }
+
+        return dataExport;
     }
 
     /**
@@ -268,7 +1031,7 @@ export class User {
 
         const { userId: validatedUserId } = credentialsOrErrors;
         const query = `
-            SELECT Id, Username, Email, CreatedOn, ModifiedOn
+            SELECT Id, Username, Email, EmailVerified, CreatedOn, ModifiedOn
             FROM Auth.Users
             WHERE Id = @userId
         `;
@@ -283,7 +1046,8 @@ export class User {
     }
 
     /**
-     * Find a user by username or email
+     * Find a user by username or verified email
+     * Unverified emails are ignored so nobody can be found through an address they do not own
      * @param identifier Username or email
      * @returns User without password if found, null otherwise
      */
@@ -298,9 +1062,9 @@ export class User {
         const { identifier: validatedIdentifier } = credentialsOrErrors;
 
         const query = `
-            SELECT Id, Username, Email, CreatedOn, ModifiedOn
+            SELECT Id, Username, Email, EmailVerified, CreatedOn, ModifiedOn
             FROM Auth.Users
-            WHERE Username = @identifier OR Email = @identifier
+            WHERE Username = @identifier OR (Email = @identifier AND EmailVerified = 1)
         `;
 
         const users = await db.executeQuery<IUser[]>(query, { identifier: validatedIdentifier });
@@ -312,6 +1076,204 @@ export class User {
         return users[0];
     }
 
+    /**
+     * Verify the password of a logged in user before a sensitive change
+     * Failures count towards the same lockout as failed logins
+     * @param userId User ID
+     * @param password Password to verify
+     * @param resetAttempts False when a second factor is checked next, the attempts are only reset once it passes
+     * @returns User with password if the password matches
+     */
+    private static async verifyCurrentPassword(userId: number, password: string, resetAttempts: boolean = true): Promise<IUserWithPassword> {
+        // Get user with password
+        const query = `
+            SELECT Id, Username, Password, Email, EmailVerified, CreatedOn, ModifiedOn
+            FROM Auth.Users
+            WHERE Id = @userId
+        `;
+
+        const users = await db.executeQuery<IUserWithPassword[]>(query, { userId });
+
+        if (!users || users.length === 0) {
+            throw new StatusError('User not found', 404);
+        }
+
+        const user = users[0];
+
+        await LoginAttempt.assertNotLocked({ userId: user.Id });
+
+        // Verify current password
+        const passwordMatch = await bcrypt.compare(
+            password,
+            user.Password.toString()
+        );
+
+        if (!passwordMatch) {
+            await LoginAttempt.recordFailure({ userId: user.Id });
+            throw new StatusError('Current password is incorrect');
+        }
+
+        if (resetAttempts) {
+            await LoginAttempt.reset({ userId: user.Id });
+        }
+
+        return user;
+    }
+
+    /**
+     * Verify a TOTP or recovery code of a logged in user before a sensitive change
+     * Failures count towards the same lockout as failed two-factor logins
+     * @param userId User ID
+     * @param code TOTP code or recovery code
+     * @param device Device the request comes from
+     */
+    private static async verifyCurrentSecondFactor(userId: number, code: string, device: IClientDevice): Promise<void> {
+        const attemptSubject = { userId, ip: device.ip };
+        await LoginAttempt.assertNotLocked(attemptSubject);
+
+        if (!(await this.verifySecondFactor(userId, code))) {
+            await LoginAttempt.recordFailure(attemptSubject);
+            await AuditEvent.record({ type: 'user.mfa_failed', userId, device });
+            throw new StatusError('Invalid authentication code');
+        }
+
+        await LoginAttempt.reset(attemptSubject);
+    }
+
+    /**
+     * Get a user with their two-factor columns
+     * @param userId User ID
+     * @returns User with password and two-factor details
+     */
+    private static async getUserWithTwoFactor(userId: number): Promise<IUserWithTwoFactor> {
+        const query = `
+            SELECT Id, Username, Password, Email, EmailVerified, CreatedOn, ModifiedOn, TotpSecret, TotpEnabled, TotpLastUsedStep
+            FROM Auth.Users
+            WHERE Id = @userId
+        `;
+
+        const users = await db.executeQuery<IUserWithTwoFactor[]>(query, { userId });
+
+        if (!users || users.length === 0) {
+            throw new StatusError('User not found', 404);
+        }
+
+        return users[0];
+    }
+
+    /**
+     * Verify a TOTP code or consume a recovery code
+     * A TOTP code is only accepted once, codes from an already used time step are rejected
+     * @param userId User ID
+     * @param code TOTP code or recovery code
+     * @returns True if the code is valid
+     */
+    private static async verifySecondFactor(userId: number, code: string): Promise<boolean> {
+        const user = await this.getUserWithTwoFactor(userId);
+        if (!user.TotpEnabled || !user.TotpSecret) {
+            return false;
+        }
+
+        const step = verifyTotp(user.TotpSecret, code.trim());
+        if (step !== null) {
+            const result = await db.executeQuery<{ Id: number }[]>(`
+                UPDATE Auth.Users
+                SET TotpLastUsedStep = @step
+                OUTPUT INSERTED.Id
+                WHERE Id = @userId AND (TotpLastUsedStep IS NULL OR TotpLastUsedStep < @step)
+            `, { step, userId });
+            return result.length > 0;
+        }
+
+        const result = await db.executeQuery<{ Id: string }[]>(`
+            UPDATE TOP (1) Auth.RecoveryCodes
+            SET UsedOn = SYSDATETIMEOFFSET()
+            OUTPUT INSERTED.Id
+            WHERE UserId = @userId AND CodeHash = @codeHash AND UsedOn IS NULL
+        `, { userId, codeHash: hashToken(code.trim().toLowerCase()) });
+        return result.length > 0;
+    }
+
+    /**
+     * Create a verification token for the user's current email and mail the link to it
+     * Earlier links of the user stop working
+     * @param user User to verify
+     */
+    private static async sendEmailVerification(user: IUser): Promise<void> {
+        const token = generateToken();
+
+        const tx = await startTransaction();
+        try {
+            await db.executeQuery(`
+                UPDATE Auth.EmailVerificationTokens
+                SET UsedOn = SYSDATETIMEOFFSET()
+                WHERE UserId = @userId AND UsedOn IS NULL
+            `, { userId: user.Id }, tx);
+
+            await db.executeQuery(`
+                INSERT INTO Auth.EmailVerificationTokens (UserId, Email, TokenHash, ExpiresOn)
+                VALUES (@userId, @email, @tokenHash, DATEADD(HOUR, @expirationHours, SYSDATETIMEOFFSET()))
+            `, {
+                userId: user.Id,
+                email: user.Email,
+                tokenHash: hashToken(token),
+                expirationHours: emailVerificationExpirationHours
+            }, tx);
+
+            await commitTransaction(tx);
+        } catch (error) {
+            await rollbackTransaction(tx);
+            throw error;
+        }
+
+        const verifyUrl = `${appUrl}/verify-email?token=${token}`;
+        await sendMail({
+            to: user.Email,
+            subject: 'Verify your FASTMoney email',
+            text: `Hi ${user.Username},\n\nUse the link below to verify your email address. The link expires in ${emailVerificationExpirationHours} hours.\n\n${verifyUrl}\n\nIf you did not create a FASTMoney account, you can ignore this email.`
+        });
+    }
+
+    /**
+     * Revoke existing refresh tokens and issue new tokens after the user's details changed
+     * @param userId User ID
+     * @param device Device the change comes from
+     * @returns Updated user with new auth and refresh tokens
+     */
+    private static async reissueTokens(userId: number, device: IClientDevice): Promise<{ user: IUser, token: string, refreshToken: string }> {
+        const user = await this.getUserById(userId);
+        if (!user) {
+            throw new StatusError('User not found', 404);
+        }
+
+        await RefreshToken.revokeAll(user.Id);
+
+        const { token, refreshToken } = await this.issueTokens(user, device);
+
+        return { user, token, refreshToken };
+    }
+
+    /**
+     * Issue an auth token and a refresh token for a session
+     * A new session is started unless the session of a refresh token is continued
+     * @param user User to issue the tokens for
+     * @param device Device the request comes from
+     * @param sessionId Session to continue when refreshing
+     * @returns Auth token and refresh token
+     */
+    private static async issueTokens(user: IUser, device: IClientDevice, sessionId?: string): Promise<{ token: string, refreshToken: string }> {
+        if (sessionId) {
+            await Session.touch(user.Id, sessionId, device);
+        } else {
+            sessionId = await Session.start(user.Id, device);
+        }
+
+        const token = await createSession(user.Id, user.Username, user.Email, sessionId);
+        const refreshToken = await RefreshToken.issue(user.Id, user.Username, user.Email, sessionId);
+
+        return { token, refreshToken };
+    }
+
     /**
      * Check if username or email already exists
      * @param username Username to check
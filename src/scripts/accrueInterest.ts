@@ -0,0 +1,46 @@
+import 'dotenv/config';
+import { IInterestPosting, Interest } from '@/models/interest.model';
+
+/**
+ * Print the interest postings of a run
+ * @param postings Postings that were due
+ */
+function printPostings(postings: IInterestPosting[]): void {
+    for (const posting of postings) {
+        console.log(
+            `Account ${posting.accountId} (${posting.accountName}): ${posting.isIncome ? 'earned' : 'charged'} ` +
+            `${posting.amount} ${posting.currency} from ${posting.periodStart} to ${posting.periodEnd}`
+        );
+    }
+}
+
+/**
+ * Post the interest of every account whose posting day has come
+ * Pass --dry-run to only list the postings that would be made
+ */
+async function runInterestAccrual(): Promise<void> {
+    const dryRun = process.argv.includes('--dry-run');
+
+    try {
+        const postings = await Interest.postDueInterest(dryRun);
+        printPostings(postings);
+        if (dryRun) {
+            console.log(`Found ${postings.length} periods due, nothing was posted`);
+            return;
+        }
+        console.log(`Posted ${postings.filter(posting => posting.transaction).length} of ${postings.length} periods due`);
+    } catch (error) {
+        console.error('Interest accrual error:', error);
+        process.exit(1);
+    }
+}
+
+// Run interest accrual when script is executed directly
+if (require.main === module) {
+    runInterestAccrual()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error('Unhandled interest accrual error:', error);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,44 @@
+import 'dotenv/config';
+import { IRecurringOccurrenceRun, RecurringTransaction } from '@/models/recurringTransactions.model';
+
+/**
+ * Print the occurrences of a run
+ * @param runs Occurrences that were due
+ */
+function printRuns(runs: IRecurringOccurrenceRun[]): void {
+    for (const run of runs) {
+        const outcome = run.error ? `failed: ${run.error}` : run.transaction ? `posted as transaction ${run.transaction.id}` : 'due';
+        console.log(`Recurring transaction ${run.recurringTransactionId} of user ${run.userId} on ${run.occursOn}: ${outcome}`);
+    }
+}
+
+/**
+ * Post every occurrence of a recurring transaction that is due
+ * Pass --dry-run to only list the occurrences that would be posted
+ */
+async function runRecurringTransactions(): Promise<void> {
+    const dryRun = process.argv.includes('--dry-run');
+
+    try {
+        const runs = await RecurringTransaction.postDueOccurrences(dryRun);
+        printRuns(runs);
+        if (dryRun) {
+            console.log(`Found ${runs.length} occurrences due, nothing was posted`);
+            return;
+        }
+        console.log(`Posted ${runs.filter(run => run.transaction).length} of ${runs.length} occurrences due`);
+    } catch (error) {
+        console.error('Recurring transactions error:', error);
+        process.exit(1);
+    }
+}
+
+// Run recurring transactions when script is executed directly
+if (require.main === module) {
+    runRecurringTransactions()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error('Unhandled recurring transactions error:', error);
+            process.exit(1);
+        });
+}
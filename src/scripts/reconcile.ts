@@ -0,0 +1,49 @@
+import 'dotenv/config';
+import { IBalanceReconciliation, Reconciliation } from '@/models/reconciliation.model';
+
+/**
+ * Print the accounts whose stored balance does not match their transactions
+ * @param accounts Accounts with drift
+ */
+function printDrift(accounts: IBalanceReconciliation[]): void {
+    for (const account of accounts) {
+        console.log(
+            `Account ${account.accountId} (${account.name}) of user ${account.userId}: ` +
+            `stored ${account.storedBalance} ${account.currency}, computed ${account.computedBalance} ${account.currency}, drift ${account.drift}`
+        );
+    }
+}
+
+/**
+ * Repair the balance of every account that drifted from its transactions
+ * Pass --dry-run to only list the accounts that would be repaired
+ */
+async function runReconciliation(): Promise<void> {
+    const dryRun = process.argv.includes('--dry-run');
+
+    try {
+        if (dryRun) {
+            const drifted = await Reconciliation.getDriftedAccounts();
+            printDrift(drifted);
+            console.log(`Found ${drifted.length} accounts with drift, nothing was changed`);
+            return;
+        }
+
+        const repaired = await Reconciliation.repairDrift();
+        printDrift(repaired);
+        console.log(`Repaired ${repaired.length} accounts`);
+    } catch (error) {
+        console.error('Reconciliation error:', error);
+        process.exit(1);
+    }
+}
+
+// Run reconciliation when script is executed directly
+if (require.main === module) {
+    runReconciliation()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error('Unhandled reconciliation error:', error);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,122 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface IMailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+export interface IMailTransport {
+    send(message: IMailMessage & { from: string }): Promise<void>;
+}
+
+const mailFrom = process.env.MAIL_FROM || 'FASTMoney <no-reply@fastmoney.local>';
+
+/**
+ * Sends mails through an SMTP server
+ */
+export class SmtpTransport implements IMailTransport {
+    private transporter: nodemailer.Transporter;
+
+    constructor() {
+        if (!process.env.SMTP_HOST) {
+            throw new Error('SMTP_HOST is not set');
+        }
+        this.transporter = nodemailer.createTransport({
+            host: process.env.SMTP_HOST,
+            port: parseInt(process.env.SMTP_PORT || '587'),
+            secure: process.env.SMTP_SECURE === 'true',
+            auth: process.env.SMTP_USER ? {
+                user: process.env.SMTP_USER,
+                pass: process.env.SMTP_PASSWORD
+            } : undefined
+        });
+    }
+
+    async send(message: IMailMessage & { from: string }): Promise<void> {
+        await this.transporter.sendMail(message);
+    }
+}
+
+/**
+ * Writes every mail as a JSON file, useful for local development and tests
+ */
+export class FileTransport implements IMailTransport {
+    private directory: string;
+
+    constructor(directory: string = process.env.MAIL_FILE_DIR || path.resolve(process.cwd(), '.mail')) {
+        this.directory = directory;
+    }
+
+    async send(message: IMailMessage & { from: string }): Promise<void> {
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+        await fs.promises.writeFile(
+            path.join(this.directory, fileName),
+            JSON.stringify({ ...message, sentOn: new Date().toISOString() }, null, 2)
+        );
+    }
+}
+
+/**
+ * Prints every mail to the console, the default when no transport is configured
+ */
+export class ConsoleTransport implements IMailTransport {
+    async send(message: IMailMessage & { from: string }): Promise<void> {
+        console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+    }
+}
+
+let transport: IMailTransport | null = null;
+
+/**
+ * Get the mail transport configured by MAIL_TRANSPORT (smtp, file or console)
+ * @returns Mail transport
+ */
+export function getTransport(): IMailTransport {
+    if (!transport) {
+        switch (process.env.MAIL_TRANSPORT) {
+            case 'smtp':
+                transport = new SmtpTransport();
+                break;
+            case 'file':
+                transport = new FileTransport();
+                break;
+            default:
+                transport = new ConsoleTransport();
+        }
+    }
+    return transport;
+}
+
+/**
+ * Replace the mail transport, mainly for tests
+ * @param newTransport Transport to use for all following mails
+ */
+export function setTransport(newTransport: IMailTransport): void {
+    transport = newTransport;
+}
+
+/**
+ * Send a mail using the configured transport
+ * @param message Mail to send
+ */
+export async function sendMail(message: IMailMessage): Promise<void> {
+    try {
+        await getTransport().send({ from: mailFrom, ...message });
+    } catch (error) {
+        console.error('Mail send error:', error);
+        throw error;
+    }
+}
+
+const mail = {
+    sendMail,
+    getTransport,
+    setTransport
+}
+
+export default mail;
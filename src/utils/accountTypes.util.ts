@@ -0,0 +1,41 @@
+export const accountTypes = ['cash', 'checking', 'savings', 'credit_card', 'loan', 'wallet'] as const;
+
+export type AccountType = typeof accountTypes[number];
+
+export const accountTypeLabels: Record<AccountType, string> = {
+    cash: 'Cash',
+    checking: 'Checking',
+    savings: 'Savings',
+    credit_card: 'Credit Card',
+    loan: 'Loan',
+    wallet: 'Wallet'
+};
+
+// Accounts that track money owed, their balance is negative while something is owed
+export const liabilityAccountTypes: readonly AccountType[] = ['credit_card', 'loan'];
+
+// Accounts an interest rate (APR) can be set on
+export const interestAccountTypes: readonly AccountType[] = ['savings', 'credit_card', 'loan'];
+
+/**
+ * Check whether an account tracks money owed rather than money held
+ * @param type Account type
+ * @returns True for credit card and loan accounts
+ */
+export function isLiabilityAccount(type: AccountType): boolean {
+    return liabilityAccountTypes.includes(type);
+}
+
+// Roles friends can be given on an account they are a member of, editors can use it in transactions, viewers can only see it
+export const accountMemberRoles = ['editor', 'viewer'] as const;
+
+export type AccountMemberRole = typeof accountMemberRoles[number];
+
+// The owner of an account is the user it belongs to and is not stored as a member
+export type AccountRole = 'owner' | AccountMemberRole;
+
+export const accountRoleLabels: Record<AccountRole, string> = {
+    owner: 'Owner',
+    editor: 'Editor',
+    viewer: 'Viewer'
+};
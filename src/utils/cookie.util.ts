@@ -0,0 +1,49 @@
+export interface ICookieOptions {
+    maxAge: number;
+    path?: string;
+    httpOnly?: boolean;
+}
+
+/**
+ * Get a cookie sent with a request
+ * @param request Incoming request
+ * @param name Cookie name
+ * @returns Cookie value, or undefined if the cookie was not sent
+ */
+export function getCookie(request: Request, name: string): string | undefined {
+    const cookies = request.headers.get('cookie');
+    if (!cookies) {
+        return undefined;
+    }
+    for (const cookie of cookies.split(';')) {
+        const separator = cookie.indexOf('=');
+        if (separator !== -1 && cookie.slice(0, separator).trim() === name) {
+            return decodeURIComponent(cookie.slice(separator + 1).trim());
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Serialize a cookie for a Set-Cookie header
+ * Cookies are always SameSite=Strict, and Secure outside of development
+ * @param name Cookie name
+ * @param value Cookie value
+ * @param options Lifetime in seconds, path and whether scripts may read the cookie
+ * @returns Set-Cookie header value
+ */
+export function serializeCookie(name: string, value: string, options: ICookieOptions): string {
+    const parts = [
+        `${name}=${encodeURIComponent(value)}`,
+        `Path=${options.path ?? '/'}`,
+        `Max-Age=${Math.max(0, Math.floor(options.maxAge))}`,
+        'SameSite=Strict'
+    ];
+    if (options.httpOnly) {
+        parts.push('HttpOnly');
+    }
+    if (process.env.NODE_ENV === 'production') {
+        parts.push('Secure');
+    }
+    return parts.join('; ');
+}
@@ -0,0 +1,211 @@
+export type DatePeriod = 'today' | 'week' | 'month' | 'year';
+
+export const datePeriods: readonly DatePeriod[] = ['today', 'week', 'month', 'year'];
+
+export const dateIntervals = ['day', 'week', 'month'] as const;
+
+export type DateInterval = typeof dateIntervals[number];
+
+interface IZonedDate {
+    year: number;
+    month: number;
+    day: number;
+    weekday: number;
+}
+
+const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Get the calendar date of an instant in a time zone
+ * @param date Instant
+ * @param timeZone IANA time zone
+ * @returns Year, month (1-12), day and weekday (0 = Sunday) in the time zone
+ */
+function getZonedDate(date: Date, timeZone: string): IZonedDate {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        weekday: 'short'
+    }).formatToParts(date);
+    const part = (type: string) => parts.find((p) => p.type === type)!.value;
+    return {
+        year: parseInt(part('year')),
+        month: parseInt(part('month')),
+        day: parseInt(part('day')),
+        weekday: weekdays.indexOf(part('weekday'))
+    };
+}
+
+/**
+ * Get the offset of a time zone from UTC at an instant
+ * @param date Instant
+ * @param timeZone IANA time zone
+ * @returns Offset in milliseconds, positive east of UTC
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric'
+    }).formatToParts(date);
+    const part = (type: string) => parseInt(parts.find((p) => p.type === type)!.value);
+    const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+    return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Get the instant a calendar day starts in a time zone
+ * Month and day overflow like Date.UTC, so day 32 is the first of the next month
+ * @param year Year
+ * @param month Month (1-12)
+ * @param day Day of the month
+ * @param timeZone IANA time zone
+ * @returns Midnight of the day in the time zone
+ */
+export function startOfZonedDay(year: number, month: number, day: number, timeZone: string): Date {
+    const utcMidnight = Date.UTC(year, month - 1, day);
+    // Check the offset again at the result, in case midnight is on the other side of a DST change
+    const guess = utcMidnight - getTimeZoneOffset(new Date(utcMidnight), timeZone);
+    return new Date(utcMidnight - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+/**
+ * Parse a date filter from a query string
+ * Dates without a time (YYYY-MM-DD) are whole days in the user's time zone, an end date includes its whole day
+ * @param value Date or date-time string
+ * @param timeZone IANA time zone of the user
+ * @param endOfDay True for the end of a range
+ * @returns Instant to filter on, an invalid date if the value cannot be parsed
+ */
+export function parseDateFilter(value: string, timeZone: string, endOfDay: boolean = false): Date {
+    const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!dateOnly) {
+        return new Date(value);
+    }
+    const [, year, month, day] = dateOnly.map(Number);
+    if (!endOfDay) {
+        return startOfZonedDay(year, month, day, timeZone);
+    }
+    return new Date(startOfZonedDay(year, month, day + 1, timeZone).getTime() - 1);
+}
+
+/**
+ * Get the date range of the current day, week, month or year in the user's time zone
+ * @param period Period to get
+ * @param timeZone IANA time zone of the user
+ * @param weekStart First day of the week, 0 = Sunday
+ * @param now Instant inside the period
+ * @returns Start and inclusive end of the period
+ */
+export function getPeriodRange(period: DatePeriod, timeZone: string, weekStart: number, now: Date = new Date()): { startDate: Date, endDate: Date } {
+    const { year, month, day, weekday } = getZonedDate(now, timeZone);
+
+    let start: [number, number, number];
+    let end: [number, number, number];
+    switch (period) {
+        case 'today':
+            start = [year, month, day];
+            end = [year, month, day + 1];
+            break;
+        case 'week': {
+            const daysIntoWeek = (weekday - weekStart + 7) % 7;
+            start = [year, month, day - daysIntoWeek];
+            end = [year, month, day - daysIntoWeek + 7];
+            break;
+        }
+        case 'month':
+            start = [year, month, 1];
+            end = [year, month + 1, 1];
+            break;
+        case 'year':
+            start = [year, 1, 1];
+            end = [year + 1, 1, 1];
+            break;
+    }
+
+    return {
+        startDate: startOfZonedDay(...start, timeZone),
+        endDate: new Date(startOfZonedDay(...end, timeZone).getTime() - 1)
+    };
+}
+
+/**
+ * Get the calendar date of an instant in a time zone as a string
+ * @param date Instant
+ * @param timeZone IANA time zone
+ * @returns Date in YYYY-MM-DD format
+ */
+export function toZonedDateString(date: Date, timeZone: string): string {
+    const { year, month, day } = getZonedDate(date, timeZone);
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Split a date range into days, weeks or months in the user's time zone
+ * @param from Start of the range, the first interval is the one containing it
+ * @param to End of the range, the last interval is the one containing it
+ * @param interval Length of each interval
+ * @param timeZone IANA time zone of the user
+ * @param weekStart First day of the week, 0 = Sunday
+ * @param maxIntervals Most intervals to split into, the range is rejected if it needs more
+ * @returns Start of every interval, oldest first, followed by the end of the last interval, or null if there would be more than maxIntervals
+ */
+export function getIntervalBoundaries(from: Date, to: Date, interval: DateInterval, timeZone: string, weekStart: number, maxIntervals: number): Date[] | null {
+    const { year, month, day, weekday } = getZonedDate(from, timeZone);
+
+    // Calendar date of the first interval, months and days past their end overflow like Date.UTC
+    let m = month;
+    let d = interval === 'month'
+        ? 1
+        : interval === 'week'
+            ? day - (weekday - weekStart + 7) % 7
+            : day;
+
+    const boundaries: Date[] = [];
+    let start = startOfZonedDay(year, m, d, timeZone);
+    while (start <= to) {
+        if (boundaries.length === maxIntervals) {
+            return null;
+        }
+        boundaries.push(start);
+        if (interval === 'month') {
+            m += 1;
+        } else {
+            d += interval === 'week' ? 7 : 1;
+        }
+        start = startOfZonedDay(year, m, d, timeZone);
+    }
+    boundaries.push(start);
+    return boundaries;
+}
+
+/**
+ * Move a calendar date by a number of days
+ * @param date Date in YYYY-MM-DD format
+ * @param days Days to add, negative to go back
+ * @returns Date in YYYY-MM-DD format
+ */
+export function addCalendarDays(date: string, days: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Move a calendar date by a number of months, keeping its day
+ * Months shorter than the day use their last day, so January 31 plus one month is February 28 or 29
+ * @param date Date in YYYY-MM-DD format
+ * @param months Months to add, negative to go back
+ * @returns Date in YYYY-MM-DD format
+ */
+export function addCalendarMonths(date: string, months: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+}
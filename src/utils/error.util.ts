@@ -0,0 +1,17 @@
+// Kept apart from the error handler so models can be loaded outside Next.js, for example by the scripts
+export class StatusError extends Error {
+    status: number;
+    headers: Record<string, string>;
+    constructor(message: string | Error, status: number = 400, headers: Record<string, string> = {}) {
+        if (message instanceof Error) {
+            super(message.message, { cause: message.cause});
+            const message_lines =  (this.message.match(/\n/g)||[]).length + 1
+            this.stack = this.stack?.split('\n').slice(0, message_lines+1).join('\n') + '\n' +
+            message?.stack
+        } else {
+            super(message);
+        }
+        this.status = status;
+        this.headers = headers;
+    }
+};
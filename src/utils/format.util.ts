@@ -0,0 +1,45 @@
+import type { IUserPreferences } from '@/models/preferences.model';
+
+// Preferences of users who never changed them, keep in sync with the column defaults in schema_019.sql
+export const defaultPreferences: IUserPreferences = {
+    currency: 'PKR',
+    timezone: 'Asia/Karachi',
+    locale: 'en-PK',
+    weekStart: 1
+};
+
+/**
+ * Format an amount of money in the user's locale
+ * @param amount Amount to format
+ * @param preferences Preferences of the user
+ * @param currency Currency of the amount, defaults to the user's preferred currency
+ * @returns Formatted amount, e.g. Rs 1,250.00
+ */
+export function formatAmount(amount: number, preferences: IUserPreferences = defaultPreferences, currency: string = preferences.currency): string {
+    return new Intl.NumberFormat(preferences.locale, {
+        style: 'currency',
+        currency
+    }).format(amount);
+}
+
+/**
+ * Format a date and time in the user's time zone and locale
+ * @param date Date or date string from the API
+ * @param preferences Preferences of the user
+ * @returns Formatted date and time
+ */
+export function formatDateTime(date: Date | string, preferences: IUserPreferences = defaultPreferences): string {
+    return new Date(date).toLocaleString(preferences.locale, { timeZone: preferences.timezone });
+}
+
+/**
+ * Format a date without the time in the user's time zone and locale
+ * Calendar dates (YYYY-MM-DD) are already in the user's time zone and are shown as they are
+ * @param date Date or date string from the API
+ * @param preferences Preferences of the user
+ * @returns Formatted date
+ */
+export function formatDate(date: Date | string, preferences: IUserPreferences = defaultPreferences): string {
+    const isCalendarDate = typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date);
+    return new Date(date).toLocaleDateString(preferences.locale, { timeZone: isCalendarDate ? 'UTC' : preferences.timezone });
+}
@@ -1,23 +1,18 @@
 import 'server-only';
-import { JWTPayload, SignJWT, jwtVerify } from 'jose'
-import { StatusError } from '@/middleware/errorHandler.middleware';
+import { JWTPayload, SignJWT, decodeProtectedHeader, jwtVerify } from 'jose'
+import { StatusError } from '@/utils/error.util';
+import { getSigningKey, getVerificationKey } from '@/utils/jwtKeys.util';
 
-const secretKey = process.env.JWT_SECRET;
 const expirationTime = process.env.JWT_EXPIRATION || '1d';
 export const refreshExpirationTime = process.env.REFRESH_TOKEN_EXPIRATION || '1m';
 
-if (!secretKey) {
-    throw new StatusError('JWT_SECRET is not set', 500);
-}
- 
-const encodedKey = new TextEncoder().encode(secretKey)
- 
 export async function encrypt(payload: Record<string, unknown>, exp: string = expirationTime) {
+  const { kid, alg, signingKey } = getSigningKey()
   return new SignJWT(payload)
-    .setProtectedHeader({ alg: 'HS256' })
+    .setProtectedHeader({ alg, kid })
     .setIssuedAt()
     .setExpirationTime(exp)
-    .sign(encodedKey)
+    .sign(signingKey!)
 }
 
 function verifyPayload(payload: JWTPayload) {
@@ -36,8 +31,16 @@ function verifyPayload(payload: JWTPayload) {
 }
 
 export async function decrypt(session: string) {
-    const { payload } = await jwtVerify(session, encodedKey, {
-        algorithms: ['HS256'],
+    let kid: string | undefined
+    try {
+        kid = decodeProtectedHeader(session).kid
+    } catch {
+        throw new StatusError('Invalid token', 401)
+    }
+    // The algorithm is pinned to the key so a token cannot pick how it is verified
+    const { alg, verificationKey } = getVerificationKey(kid)
+    const { payload } = await jwtVerify(session, verificationKey, {
+        algorithms: [alg],
     })
     verifyPayload(payload)
     return payload
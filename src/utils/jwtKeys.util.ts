@@ -0,0 +1,170 @@
+import 'server-only';
+import { createPrivateKey, createPublicKey, createSecretKey, KeyObject } from 'crypto';
+import { exportJWK, JWK } from 'jose';
+import { StatusError } from '@/utils/error.util';
+
+export const jwtAlgorithms = ['HS256', 'ES256', 'EdDSA'] as const;
+
+export type JwtAlgorithm = typeof jwtAlgorithms[number];
+
+/**
+ * A key as configured in JWT_KEYS
+ * HS256 keys need a secret, ES256 and EdDSA keys a PEM private key to sign and/or a PEM public key to verify
+ */
+interface IJwtKeyConfig {
+    kid: string;
+    alg: JwtAlgorithm;
+    secret?: string;
+    privateKey?: string;
+    publicKey?: string;
+    verifyUntil?: string;
+}
+
+export interface IJwtKey {
+    kid: string;
+    alg: JwtAlgorithm;
+    signingKey: KeyObject | null;
+    verificationKey: KeyObject;
+    verifyUntil: Date | null;
+}
+
+// Kid of JWT_SECRET, tokens signed before key IDs were added have no kid and are verified with it
+const legacyKid = 'default';
+
+/**
+ * Turn a key from the configuration into signing and verification keys
+ * @param config Configured key
+ * @returns Usable key
+ */
+function loadKey(config: IJwtKeyConfig): IJwtKey {
+    if (!config.kid || typeof config.kid !== 'string') {
+        throw new StatusError('JWT_KEYS: every key needs a kid', 500);
+    }
+    if (!jwtAlgorithms.includes(config.alg)) {
+        throw new StatusError(`JWT_KEYS: key ${config.kid} has unsupported alg ${config.alg}`, 500);
+    }
+
+    const verifyUntil = config.verifyUntil ? new Date(config.verifyUntil) : null;
+    if (verifyUntil && isNaN(verifyUntil.getTime())) {
+        throw new StatusError(`JWT_KEYS: key ${config.kid} has an invalid verifyUntil date`, 500);
+    }
+
+    if (config.alg === 'HS256') {
+        if (!config.secret) {
+            throw new StatusError(`JWT_KEYS: key ${config.kid} needs a secret`, 500);
+        }
+        const secretKey = createSecretKey(new TextEncoder().encode(config.secret));
+        return { kid: config.kid, alg: config.alg, signingKey: secretKey, verificationKey: secretKey, verifyUntil };
+    }
+
+    // PEM keys in .env files usually have their line breaks escaped
+    const privateKey = config.privateKey ? createPrivateKey(config.privateKey.replace(/\\n/g, '\n')) : null;
+    const publicKey = config.publicKey
+        ? createPublicKey(config.publicKey.replace(/\\n/g, '\n'))
+        : privateKey ? createPublicKey(privateKey) : null;
+    if (!publicKey) {
+        throw new StatusError(`JWT_KEYS: key ${config.kid} needs a privateKey or publicKey`, 500);
+    }
+
+    const expectedType = config.alg === 'ES256' ? 'ec' : 'ed25519';
+    if (publicKey.asymmetricKeyType !== expectedType
+        || (config.alg === 'ES256' && publicKey.asymmetricKeyDetails?.namedCurve !== 'prime256v1')) {
+        throw new StatusError(`JWT_KEYS: key ${config.kid} is not a valid ${config.alg} key`, 500);
+    }
+
+    return { kid: config.kid, alg: config.alg, signingKey: privateKey, verificationKey: publicKey, verifyUntil };
+}
+
+/**
+ * Load the keyring from JWT_KEYS, JWT_ACTIVE_KID and JWT_SECRET
+ * @returns Active signing key and every key tokens are accepted from
+ */
+function loadKeyring(): { activeKey: IJwtKey, keys: Map<string, IJwtKey> } {
+    const keys = new Map<string, IJwtKey>();
+
+    if (process.env.JWT_KEYS) {
+        let configs: IJwtKeyConfig[];
+        try {
+            configs = JSON.parse(process.env.JWT_KEYS);
+        } catch {
+            throw new StatusError('JWT_KEYS is not valid JSON', 500);
+        }
+        if (!Array.isArray(configs)) {
+            throw new StatusError('JWT_KEYS must be an array of keys', 500);
+        }
+        for (const config of configs) {
+            if (keys.has(config.kid)) {
+                throw new StatusError(`JWT_KEYS: duplicate kid ${config.kid}`, 500);
+            }
+            keys.set(config.kid, loadKey(config));
+        }
+    }
+
+    if (process.env.JWT_SECRET && !keys.has(legacyKid)) {
+        keys.set(legacyKid, loadKey({ kid: legacyKid, alg: 'HS256', secret: process.env.JWT_SECRET }));
+    }
+
+    if (keys.size === 0) {
+        throw new StatusError('JWT_SECRET is not set', 500);
+    }
+
+    const activeKid = process.env.JWT_ACTIVE_KID || keys.keys().next().value!;
+    const activeKey = keys.get(activeKid);
+    if (!activeKey) {
+        throw new StatusError(`JWT_ACTIVE_KID ${activeKid} is not in JWT_KEYS`, 500);
+    }
+    if (!activeKey.signingKey) {
+        throw new StatusError(`JWT_ACTIVE_KID ${activeKid} has no private key to sign with`, 500);
+    }
+
+    return { activeKey, keys };
+}
+
+const keyring = loadKeyring();
+
+/**
+ * Get the key new tokens are signed with
+ * @returns Active key
+ */
+export function getSigningKey(): IJwtKey {
+    return keyring.activeKey;
+}
+
+/**
+ * Get the key a token has to be verified with
+ * Keys that are no longer active keep verifying tokens until their verifyUntil date, so rotating does not log everyone out
+ * @param kid Key ID from the token header, tokens without one were signed with JWT_SECRET
+ * @returns Verification key
+ */
+export function getVerificationKey(kid: string = legacyKid): IJwtKey {
+    const key = keyring.keys.get(kid);
+    if (!key) {
+        throw new StatusError('Token signed with an unknown key', 401);
+    }
+    if (key.verifyUntil && key.verifyUntil <= new Date()) {
+        throw new StatusError('Token signed with a retired key', 401);
+    }
+    return key;
+}
+
+/**
+ * Get the public keys other services can verify tokens with
+ * HS256 keys are never published
+ * @returns JSON Web Key Set of the asymmetric keys that are still accepted
+ */
+export async function getPublicJwks(): Promise<{ keys: JWK[] }> {
+    const now = new Date();
+    const keys: JWK[] = [];
+    for (const key of keyring.keys.values()) {
+        if (key.alg === 'HS256' || (key.verifyUntil && key.verifyUntil <= now)) {
+            continue;
+        }
+        keys.push({
+            ...(await exportJWK(key.verificationKey)),
+            kid: key.kid,
+            alg: key.alg,
+            use: 'sig'
+        });
+    }
+    return { keys };
+}
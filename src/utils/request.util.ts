@@ -0,0 +1,46 @@
+import { isIP } from 'net';
+
+export interface IClientDevice {
+    userAgent: string | null;
+    ip: string | null;
+}
+
+// Reverse proxies in front of the app, each appends the address it received the request from to X-Forwarded-For
+const trustedProxyHops = parseInt(process.env.TRUSTED_PROXY_HOPS || '1');
+
+/**
+ * Get the IP address of the client that sent a request
+ * Only the X-Forwarded-For entries appended by the trusted proxies are used, entries before them are set by the client.
+ * X-Real-IP is only read behind a trusted proxy that does not send X-Forwarded-For.
+ * With TRUSTED_PROXY_HOPS=0 the app is reached directly and forwarding headers are ignored
+ * @param request Incoming request
+ * @returns Client IP address, or null if it is not known or not a valid address
+ */
+export function getClientIp(request: Request): string | null {
+    if (trustedProxyHops <= 0) {
+        return null;
+    }
+    let ip: string | null | undefined;
+    const forwardedFor = request.headers.get('x-forwarded-for');
+    if (forwardedFor) {
+        // Fewer entries than trusted proxies means the request did not come through all of them
+        const addresses = forwardedFor.split(',').map(address => address.trim());
+        ip = addresses.length >= trustedProxyHops ? addresses[addresses.length - trustedProxyHops] : null;
+    } else {
+        ip = request.headers.get('x-real-ip')?.trim();
+    }
+    // IpAddress columns are NVARCHAR(45), IPv6 addresses with a zone can be longer
+    return ip && ip.length <= 45 && isIP(ip) ? ip : null;
+}
+
+/**
+ * Get the device details of the client that sent a request, recorded for each session
+ * @param request Incoming request
+ * @returns User agent and IP address of the client
+ */
+export function getClientDevice(request: Request): IClientDevice {
+    return {
+        userAgent: request.headers.get('user-agent')?.slice(0, 512) ?? null,
+        ip: getClientIp(request)
+    };
+}
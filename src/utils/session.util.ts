@@ -1,17 +1,40 @@
-import { StatusError } from "@/middleware/errorHandler.middleware";
+import { StatusError } from "@/utils/error.util";
+import { getCookie, serializeCookie } from "@/utils/cookie.util";
 import { decrypt, encrypt } from "@/utils/jwt.util";
-import { JWTPayload } from "jose";
+import { response } from "@/utils/response.util";
+import { generateToken } from "@/utils/token.util";
+import { timingSafeEqual } from "crypto";
+import { decodeJwt, JWTPayload } from "jose";
+
+export const sessionCookieName = 'fm_session'
+export const refreshCookieName = 'fm_refresh'
+export const csrfCookieName = 'fm_csrf'
+export const csrfHeaderName = 'X-CSRF-Token'
+export const sessionModeHeaderName = 'X-Session-Mode'
+
+// The refresh token is only needed by the refresh and logout endpoints
+const refreshCookiePath = '/api/auth'
+const safeMethods = ['GET', 'HEAD', 'OPTIONS']
 
 export type SessionPayload = {
     userId: number,
     userName: string,
     email: string,
     exp: number,
-    iat: number
+    iat: number,
+    sid?: string
 } & JWTPayload
 
-export async function createSession(userId: number, userName: string, email: string, exp?: string) {
-    return await encrypt({ userId, userName, email }, exp)
+// Only tokens with this typ claim are accepted as auth tokens, refresh and MFA challenge tokens are signed with the same key
+const accessTokenType = 'access'
+
+export type AccessSessionPayload = SessionPayload & {
+    typ: typeof accessTokenType,
+    sid: string
+}
+
+export async function createSession(userId: number, userName: string, email: string, sessionId: string, exp?: string) {
+    return await encrypt({ userId, userName, email, sid: sessionId, typ: accessTokenType }, exp)
 }
 
 export function verifySession(payload: JWTPayload): payload is SessionPayload {
@@ -33,17 +56,145 @@ export function verifySession(payload: JWTPayload): payload is SessionPayload {
     if (payload.userName.length <= 0) {
         throw new StatusError('Invalid userName in payload', 401)
     }
+    if (payload.sid !== undefined && typeof payload.sid !== 'string') {
+        throw new StatusError('Invalid sid in payload', 401)
+    }
+    return true;
+}
+
+/**
+ * Check that a payload belongs to an auth token of a tracked session
+ * @param payload Verified JWT payload
+ * @returns True if the payload is an auth token payload
+ */
+export function verifyAccessSession(payload: JWTPayload): payload is AccessSessionPayload {
+    if (!verifySession(payload)) {
+        return false;
+    }
+    if (payload.typ !== accessTokenType || payload.refresh !== undefined || payload.mfa !== undefined) {
+        throw new StatusError('Not an auth token', 401)
+    }
+    if (typeof payload.sid !== 'string' || payload.sid.length <= 0) {
+        throw new StatusError('Missing sid in payload', 401)
+    }
     return true;
 }
 
+export function getBearerToken(request: Request) {
+    return request.headers.get('Authorization')?.replace('Bearer ', '')
+}
+
+/**
+ * Check whether a request uses cookie sessions instead of returning tokens in the body
+ * Clients opt in with the X-Session-Mode: cookie header, after that the cookies themselves mark the request
+ * @param request Incoming request
+ * @returns True if tokens should be set as cookies
+ */
+export function isCookieSession(request: Request) {
+    if (request.headers.get(sessionModeHeaderName)?.toLowerCase() === 'cookie') {
+        return true
+    }
+    return !getBearerToken(request)
+        && (getCookie(request, sessionCookieName) !== undefined || getCookie(request, refreshCookieName) !== undefined)
+}
+
+/**
+ * Reject a cookie authenticated request that changes state without the double-submit CSRF token
+ * The CSRF cookie is readable by the app's own pages, which echo it back in the X-CSRF-Token header
+ * @param request Incoming request
+ */
+export function assertCsrf(request: Request) {
+    if (safeMethods.includes(request.method.toUpperCase())) {
+        return
+    }
+    const cookieToken = getCookie(request, csrfCookieName)
+    const headerToken = request.headers.get(csrfHeaderName)
+    if (!cookieToken || !headerToken
+        || cookieToken.length !== headerToken.length
+        || !timingSafeEqual(Buffer.from(cookieToken), Buffer.from(headerToken))) {
+        throw new StatusError('Invalid CSRF token', 403)
+    }
+}
+
+/**
+ * Get the refresh token cookie of a cookie session, checking the CSRF token when it is present
+ * @param request Incoming request
+ * @returns Refresh token, or undefined if the request does not use cookie sessions
+ */
+export function getRefreshTokenCookie(request: Request) {
+    const refreshToken = getCookie(request, refreshCookieName)
+    if (refreshToken === undefined || getBearerToken(request)) {
+        return undefined
+    }
+    assertCsrf(request)
+    return refreshToken
+}
+
+/**
+ * Respond with newly issued tokens
+ * Cookie sessions get the tokens as HttpOnly cookies and never see them in the body
+ * @param request Request the tokens were issued for
+ * @param data Response body including the auth and refresh token
+ * @param statusCode HTTP status code
+ * @returns Response with the tokens in the body or in cookies
+ */
+export function sessionResponse(request: Request, data: { token: string, refreshToken: string } & Record<string, unknown>, statusCode: number) {
+    if (!isCookieSession(request)) {
+        return response(data, statusCode)
+    }
+
+    const { token, refreshToken, ...body } = data
+    const now = Math.floor(Date.now() / 1000)
+    const refreshMaxAge = (decodeJwt(refreshToken).exp ?? now) - now
+    // Keep the CSRF token stable across refreshes so requests already in flight are not rejected
+    const csrfToken = getCookie(request, csrfCookieName) ?? generateToken(32)
+
+    const cookieResponse = response(body, statusCode)
+    cookieResponse.headers.append('Set-Cookie', serializeCookie(sessionCookieName, token, {
+        maxAge: (decodeJwt(token).exp ?? now) - now,
+        httpOnly: true
+    }))
+    cookieResponse.headers.append('Set-Cookie', serializeCookie(refreshCookieName, refreshToken, {
+        maxAge: refreshMaxAge,
+        path: refreshCookiePath,
+        httpOnly: true
+    }))
+    cookieResponse.headers.append('Set-Cookie', serializeCookie(csrfCookieName, csrfToken, {
+        maxAge: refreshMaxAge
+    }))
+    return cookieResponse
+}
+
+/**
+ * Remove the session cookies, used when the session ends
+ * @param cookieResponse Response to clear the cookies on
+ * @returns The same response
+ */
+export function clearSessionCookies(cookieResponse: Response) {
+    cookieResponse.headers.append('Set-Cookie', serializeCookie(sessionCookieName, '', { maxAge: 0, httpOnly: true }))
+    cookieResponse.headers.append('Set-Cookie', serializeCookie(refreshCookieName, '', { maxAge: 0, path: refreshCookiePath, httpOnly: true }))
+    cookieResponse.headers.append('Set-Cookie', serializeCookie(csrfCookieName, '', { maxAge: 0 }))
+    return cookieResponse
+}
+
+/**
+ * Get the verified session of a request
+ * The Authorization header takes precedence over the session cookie, cookie sessions must pass the CSRF check
+ * @param request Incoming request
+ * @returns Session payload
+ */
 export async function getSession(request: Request) {
-    const session = request.headers.get('Authorization')?.replace('Bearer ', '')
+    const bearerToken = getBearerToken(request)
+    const session = bearerToken ?? getCookie(request, sessionCookieName)
     if (!session) {
         throw new StatusError('Session not found', 401)
     }
+    if (!bearerToken) {
+        assertCsrf(request)
+    }
     const payload = await decrypt(session)
     try {
-        if (verifySession(payload)) {
+        if (verifyAccessSession(payload)) {
             return payload
         }
     } catch (error) {
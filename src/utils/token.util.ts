@@ -0,0 +1,19 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Generate a random opaque token
+ * @param bytes Number of random bytes in the token
+ * @returns Hex encoded token
+ */
+export function generateToken(bytes: number = 32): string {
+    return randomBytes(bytes).toString('hex');
+}
+
+/**
+ * Hash an opaque token for storage, tokens are never stored in plain text
+ * @param token Token to hash
+ * @returns SHA-256 hash of the token
+ */
+export function hashToken(token: string): Buffer {
+    return createHash('sha256').update(token).digest();
+}
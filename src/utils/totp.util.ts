@@ -0,0 +1,128 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD = 30;
+export const totpIssuer = process.env.TOTP_ISSUER || 'FASTMoney';
+
+/**
+ * Encode a buffer as RFC 4648 base32 without padding
+ * @param buffer Bytes to encode
+ * @returns Base32 string
+ */
+export function base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+/**
+ * Decode an RFC 4648 base32 string
+ * @param input Base32 string, padding and whitespace are ignored
+ * @returns Decoded bytes
+ */
+export function base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    let bits = 0;
+    let value = 0;
+    const output: number[] = [];
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error('Invalid base32 character');
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            output.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(output);
+}
+
+/**
+ * Generate a new random TOTP secret
+ * @returns Base32 encoded secret (160 bits, as recommended by RFC 4226)
+ */
+export function generateTotpSecret(): string {
+    return base32Encode(randomBytes(20));
+}
+
+/**
+ * Get the time step for a point in time
+ * @param time Time in milliseconds
+ * @returns RFC 6238 time step counter
+ */
+export function getTimeStep(time: number = Date.now()): number {
+    return Math.floor(time / 1000 / TOTP_PERIOD);
+}
+
+/**
+ * Generate the TOTP code for a time step (RFC 6238, HMAC-SHA1)
+ * @param secret Base32 encoded secret
+ * @param step Time step counter
+ * @returns Zero padded TOTP code
+ */
+export function generateTotp(secret: string, step: number = getTimeStep()): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+    const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = ((hmac[offset] & 0x7f) << 24)
+        | (hmac[offset + 1] << 16)
+        | (hmac[offset + 2] << 8)
+        | hmac[offset + 3];
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Verify a TOTP code allowing for clock drift
+ * @param secret Base32 encoded secret
+ * @param code Code entered by the user
+ * @param window Number of time steps accepted before and after the current one
+ * @returns The matching time step, or null if the code is invalid
+ */
+export function verifyTotp(secret: string, code: string, window: number = 1): number | null {
+    if (!/^\d{6}$/.test(code)) {
+        return null;
+    }
+    const currentStep = getTimeStep();
+    for (let step = currentStep - window; step <= currentStep + window; step++) {
+        const expected = generateTotp(secret, step);
+        if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+            return step;
+        }
+    }
+    return null;
+}
+
+/**
+ * Build the otpauth:// URI shown as a QR code by authenticator apps
+ * @param secret Base32 encoded secret
+ * @param accountName Name of the account in the authenticator app
+ * @returns Provisioning URI
+ */
+export function getProvisioningUri(secret: string, accountName: string): string {
+    const label = encodeURIComponent(`${totpIssuer}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: totpIssuer,
+        algorithm: 'SHA1',
+        digits: TOTP_DIGITS.toString(),
+        period: TOTP_PERIOD.toString()
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
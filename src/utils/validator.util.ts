@@ -17,9 +17,28 @@ export const customValidators = {
     dateString: z.string().datetime({offset: true, message: "Invalid date format"}),
     id: z.number().int("Id must be Integer").positive("Id must be positive"),
     idString: z.string().trim().regex(/^(?:[1-9]\d*)|(?:0\d+)$/).transform(Number),
+    uuid: z.string().uuid("Invalid id format"),
     decimal: z.number(),
     nonEmptyString: z.string().nonempty("This field cannot be empty"),
-    jwt: z.string()
+    jwt: z.string(),
+    currency: z.string()
+        .transform((value) => value.toUpperCase())
+        .refine((value) => Intl.supportedValuesOf('currency').includes(value), "Invalid currency code"),
+    timezone: z.string().refine((value) => {
+        try {
+            new Intl.DateTimeFormat('en', { timeZone: value });
+            return true;
+        } catch {
+            return false;
+        }
+    }, "Invalid time zone"),
+    locale: z.string().refine((value) => {
+        try {
+            return Intl.NumberFormat.supportedLocalesOf(value).length > 0;
+        } catch {
+            return false;
+        }
+    }, "Invalid or unsupported locale")
 }
 
 export function validateObject<T extends object, U extends {[K in keyof T]: ZodTypeAny}>(